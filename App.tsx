@@ -4,8 +4,11 @@ import { DataProvider, useData } from './contexts/DataContext';
 import TeacherDashboard from './components/TeacherDashboard';
 import LessonEditor from './components/LessonEditor';
 import StudentPortal from './components/StudentPortal';
-import { AppMode, Lesson, ClassroomData } from './types';
+import { AppMode, Lesson, ClassroomData, EncryptedDataFile } from './types';
 import { GraduationCap, AlertTriangle, Loader2, Lock, Info, FileX, RefreshCw, ChevronRight } from 'lucide-react';
+import { MIN_PASSPHRASE_LENGTH, IDLE_TIMEOUT_MS, hasTeacherPassphrase, setupTeacherPassphrase, verifyTeacherPassphrase, describeLoginFailure } from './services/teacherAuth';
+import { isEncryptedDataFile, decryptDataFile, dataKeyFromUrl } from './services/encryption';
+import { isBundle, readBundle, DATA_FORMAT_VERSION } from './services/dataBundle';
 
 interface ErrorBoundaryProps {
   children?: ReactNode;
@@ -62,6 +65,16 @@ class ErrorBoundary extends React.Component<ErrorBoundaryProps, ErrorBoundarySta
   }
 }
 
+// Error codes from reading data files, as the student should see them
+const LOAD_ERRORS: Record<string, string> = {
+  WRONG_SECRET: "The key in this link doesn't open the file. Ask your teacher for a new link.",
+  INVALID_BUNDLE: "The file is damaged or is not a lesson bundle.",
+  INVALID_ZIP: "The file is damaged or is not a lesson bundle.",
+  UNSUPPORTED_ZIP_METHOD: "The file was re-packed with a compression this app can't read. Ask your teacher to export it again.",
+  UNSUPPORTED_BUNDLE_VERSION: "This file was made by a newer version of the app. Reload the page to update.",
+  UNSUPPORTED_FORMAT_VERSION: "This file was made by a newer version of the app. Reload the page to update."
+};
+
 const AppLogic: React.FC = () => {
   const { isLoading, loadStaticData } = useData();
   const [mode, setMode] = useState<AppMode>(AppMode.ROLE_SELECT);
@@ -69,15 +82,33 @@ const AppLogic: React.FC = () => {
   
   const [isTeacherAuthenticated, setIsTeacherAuthenticated] = useState(false);
   const [isTeacherLoginVisible, setIsTeacherLoginVisible] = useState(false);
-  const [teacherPin, setTeacherPin] = useState('');
-  const [pinError, setPinError] = useState('');
+  const [isTeacherLocked, setIsTeacherLocked] = useState(false); // Idle lock: the screen stays mounted underneath
+  const [hasPassphrase, setHasPassphrase] = useState<boolean | null>(null); // null until checked
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [loginError, setLoginError] = useState('');
+  const [isCheckingPassphrase, setIsCheckingPassphrase] = useState(false);
   
   const [studentIdFromUrl, setStudentIdFromUrl] = useState<string | null>(null);
   const [fetchError, setFetchError] = useState<{file: string, url: string, status: string | number, detail: string} | null>(null);
   const [isFetchingData, setIsFetchingData] = useState(false);
+  const [lockedFile, setLockedFile] = useState<EncryptedDataFile | null>(null); // Passphrase-encrypted data waiting for the student
+  const [filePassphrase, setFilePassphrase] = useState('');
+  const [unlockError, setUnlockError] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
   
   const hasInitializedRef = useRef(false);
 
+  const openClassroomData = (data: ClassroomData) => {
+    if (!data.students || !data.lessons) {
+        throw new Error("The file exists but the format is invalid.");
+    }
+    // A newer schemaVersion alone is fine: only a newer format means the file holds something unreadable here
+    if ((data.formatVersion || 0) > DATA_FORMAT_VERSION) throw new Error("UNSUPPORTED_FORMAT_VERSION");
+    loadStaticData(data);
+    setMode(AppMode.STUDENT_PORTAL);
+  };
+
   useEffect(() => {
     const init = async () => {
         if (hasInitializedRef.current) return;
@@ -104,13 +135,23 @@ const AppLogic: React.FC = () => {
                         throw new Error(`The file '${dataFileName}' was not found. The server returned a webpage instead of JSON.`);
                     }
 
-                    const data: ClassroomData = await res.json();
-                    if (!data.students || !data.lessons) {
-                        throw new Error("The file exists but the format is invalid.");
+                    // Bundles are zips; anything else is JSON, either plain ClassroomData or an encrypted file
+                    const bytes = new Uint8Array(await res.arrayBuffer());
+                    if (isBundle(bytes)) {
+                        openClassroomData(await readBundle(bytes));
+                    } else {
+                        const file = JSON.parse(new TextDecoder().decode(bytes));
+                        if (!isEncryptedDataFile(file)) {
+                            openClassroomData(file);
+                        } else if (file.keySource === 'passphrase') {
+                            setLockedFile(file);
+                        } else {
+                            // Link-encrypted files open with the key from the URL fragment, without asking
+                            const dataKey = dataKeyFromUrl();
+                            if (!dataKey) throw new Error("This file is encrypted and the link is missing its key. Ask your teacher for the full link.");
+                            openClassroomData(await decryptDataFile(file, dataKey));
+                        }
                     }
-
-                    loadStaticData(data);
-                    setMode(AppMode.STUDENT_PORTAL);
                 } else {
                     setFetchError({ 
                         file: dataFileName, 
@@ -124,7 +165,7 @@ const AppLogic: React.FC = () => {
                     file: dataFileName, 
                     url: fullUrlForDisplay,
                     status: "Loading Failed",
-                    detail: e.message || "Network error or invalid JSON content."
+                    detail: LOAD_ERRORS[e.message] || e.message || "Network error or invalid JSON content."
                 });
             } finally {
                 setIsFetchingData(false);
@@ -137,6 +178,37 @@ const AppLogic: React.FC = () => {
     if (!isLoading) init();
   }, [isLoading, loadStaticData]);
 
+  // The login screen shows first-run setup until a passphrase has been chosen
+  useEffect(() => {
+    if (!isTeacherLoginVisible || isLoading) return;
+    hasTeacherPassphrase()
+      .then(setHasPassphrase)
+      .catch(err => {
+        console.error("Failed to read teacher passphrase", err);
+        setLoginError('Could not open browser storage.');
+      });
+  }, [isTeacherLoginVisible, isLoading]);
+
+  // Lock the teacher screens after a stretch with no input, so an unattended dashboard doesn't stay open.
+  // The current screen stays mounted behind the lock, so an unsaved lesson or a running job survives it.
+  useEffect(() => {
+    if (!isTeacherAuthenticated || isTeacherLocked) return;
+    let lastActivity = Date.now();
+    const markActive = () => { lastActivity = Date.now(); };
+    const events = ['mousedown', 'mousemove', 'keydown', 'touchstart', 'wheel'];
+    events.forEach(e => window.addEventListener(e, markActive, { passive: true }));
+    const timer = window.setInterval(() => {
+      if (Date.now() - lastActivity < IDLE_TIMEOUT_MS) return;
+      setPassphrase('');
+      setLoginError(`Locked after ${IDLE_TIMEOUT_MS / 60000} minutes without activity.`);
+      setIsTeacherLocked(true);
+    }, 30000);
+    return () => {
+      events.forEach(e => window.removeEventListener(e, markActive));
+      window.clearInterval(timer);
+    };
+  }, [isTeacherAuthenticated, isTeacherLocked]);
+
   const navigate = (newMode: AppMode, data?: any) => {
     if ((newMode === AppMode.TEACHER_DASHBOARD || newMode === AppMode.TEACHER_EDITOR) && !isTeacherAuthenticated) {
         setIsTeacherLoginVisible(true);
@@ -147,14 +219,65 @@ const AppLogic: React.FC = () => {
     else if (newMode === AppMode.TEACHER_DASHBOARD) setEditingLesson(undefined);
   };
 
-  const handleTeacherLoginSubmit = (e: React.FormEvent) => {
+  const enterDashboard = () => {
+    setPassphrase('');
+    setConfirmPassphrase('');
+    setLoginError('');
+    setIsTeacherAuthenticated(true);
+    setIsTeacherLoginVisible(false);
+    if (isTeacherLocked) setIsTeacherLocked(false); // Back to whatever screen was locked
+    else setMode(AppMode.TEACHER_DASHBOARD);
+  };
+
+  const handleTeacherLoginSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (teacherPin === '2110') {
-        setIsTeacherAuthenticated(true); 
-        setIsTeacherLoginVisible(false);
-        setMode(AppMode.TEACHER_DASHBOARD);
-    } else {
-        setPinError('Incorrect Code');
+    if (isCheckingPassphrase || hasPassphrase === null) return;
+    if (!hasPassphrase) {
+        if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+            setLoginError(`Use at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+            return;
+        }
+        if (passphrase !== confirmPassphrase) {
+            setLoginError('The two passphrases do not match.');
+            return;
+        }
+    }
+
+    setIsCheckingPassphrase(true);
+    setLoginError('');
+    try {
+        if (!hasPassphrase) {
+            await setupTeacherPassphrase(passphrase);
+            enterDashboard();
+            return;
+        }
+        const result = await verifyTeacherPassphrase(passphrase);
+        if (result.ok) enterDashboard();
+        else {
+            setPassphrase('');
+            setLoginError(describeLoginFailure(result));
+        }
+    } catch (err: any) {
+        console.error("Teacher login failed", err);
+        setLoginError(err.message === 'PASSPHRASE_EXISTS' ? 'A passphrase was already set. Reload and log in.' : 'Could not check the passphrase.');
+    } finally {
+        setIsCheckingPassphrase(false);
+    }
+  };
+
+  const handleUnlockSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!lockedFile || isUnlocking) return;
+    setIsUnlocking(true);
+    setUnlockError('');
+    try {
+        openClassroomData(await decryptDataFile(lockedFile, filePassphrase));
+        setLockedFile(null);
+        setFilePassphrase('');
+    } catch (err: any) {
+        setUnlockError(err.message === 'WRONG_SECRET' ? "That passphrase doesn't open this file." : LOAD_ERRORS[err.message] || err.message);
+    } finally {
+        setIsUnlocking(false);
     }
   };
 
@@ -192,22 +315,56 @@ const AppLogic: React.FC = () => {
       );
   }
 
+  if (lockedFile) {
+      return (
+        <div className="min-h-screen bg-teal-600 flex items-center justify-center p-4">
+           <div className="bg-white rounded-2xl shadow-2xl p-8 max-w-md w-full">
+             <div className="text-center mb-6">
+               <Lock size={32} className="text-teal-600 mx-auto mb-2" />
+               <h2 className="text-2xl font-bold text-gray-800">Enter Passphrase</h2>
+               <p className="text-sm text-gray-500 mt-2">Your lessons are protected. Use the passphrase your teacher gave you.</p>
+             </div>
+             <form onSubmit={handleUnlockSubmit} className="space-y-4">
+                <input type="password" autoFocus autoComplete="current-password" placeholder="Passphrase" className="w-full text-center text-lg border border-gray-300 rounded-xl py-3 focus:ring-4 focus:ring-teal-500/20 outline-none" value={filePassphrase} onChange={(e) => setFilePassphrase(e.target.value)} />
+                {unlockError && <p className="text-red-500 text-sm text-center font-bold">{unlockError}</p>}
+                <button type="submit" disabled={isUnlocking || !filePassphrase} className="w-full bg-teal-600 text-white py-4 rounded-xl font-bold hover:bg-teal-700 transition shadow-lg disabled:opacity-50 flex items-center justify-center gap-2">
+                  {isUnlocking && <Loader2 size={18} className="animate-spin" />}
+                  Open Lessons
+                </button>
+             </form>
+           </div>
+         </div>
+      );
+  }
+  const loginCard = (
+    <div className="bg-white rounded-2xl shadow-2xl p-8 max-w-md w-full">
+      <div className="text-center mb-6">
+        <Lock size={32} className="text-teal-600 mx-auto mb-2" />
+        <h2 className="text-2xl font-bold text-gray-800">{hasPassphrase === false ? 'Choose a Passphrase' : 'Teacher Access'}</h2>
+        {hasPassphrase === false && (
+          <p className="text-sm text-gray-500 mt-2">This protects the dashboard on this browser. There is no way to recover it, so keep an exported backup of your classroom data.</p>
+        )}
+      </div>
+      <form onSubmit={handleTeacherLoginSubmit} className="space-y-4">
+         <input type="password" autoFocus autoComplete={hasPassphrase === false ? 'new-password' : 'current-password'} placeholder={hasPassphrase === false ? `New passphrase (${MIN_PASSPHRASE_LENGTH}+ characters)` : 'Passphrase'} className="w-full text-center text-lg border border-gray-300 rounded-xl py-3 focus:ring-4 focus:ring-teal-500/20 outline-none" value={passphrase} onChange={(e) => setPassphrase(e.target.value)} />
+         {hasPassphrase === false && (
+           <input type="password" autoComplete="new-password" placeholder="Repeat passphrase" className="w-full text-center text-lg border border-gray-300 rounded-xl py-3 focus:ring-4 focus:ring-teal-500/20 outline-none" value={confirmPassphrase} onChange={(e) => setConfirmPassphrase(e.target.value)} />
+         )}
+         {loginError && <p className="text-red-500 text-sm text-center font-bold">{loginError}</p>}
+         <button type="submit" disabled={isCheckingPassphrase || hasPassphrase === null} className="w-full bg-teal-600 text-white py-4 rounded-xl font-bold hover:bg-teal-700 transition shadow-lg disabled:opacity-50 flex items-center justify-center gap-2">
+           {isCheckingPassphrase && <Loader2 size={18} className="animate-spin" />}
+           {hasPassphrase === false ? 'Set Passphrase' : 'Login'}
+         </button>
+      </form>
+    </div>
+  );
+
   const renderContent = () => {
     if (isTeacherLoginVisible) {
         return (
             <div className="min-h-screen bg-teal-600 flex items-center justify-center p-4">
-               <div className="bg-white rounded-2xl shadow-2xl p-8 max-w-md w-full">
-                 <div className="text-center mb-6">
-                   <Lock size={32} className="text-teal-600 mx-auto mb-2" />
-                   <h2 className="text-2xl font-bold text-gray-800">Teacher Access</h2>
-                 </div>
-                 <form onSubmit={handleTeacherLoginSubmit} className="space-y-4">
-                    <input type="password" autoFocus placeholder="Enter Pin" className="w-full text-center text-3xl border border-gray-300 rounded-xl py-3 focus:ring-4 focus:ring-teal-500/20 outline-none" value={teacherPin} onChange={(e) => setTeacherPin(e.target.value)} />
-                    {pinError && <p className="text-red-500 text-sm text-center font-bold">{pinError}</p>}
-                    <button type="submit" className="w-full bg-teal-600 text-white py-4 rounded-xl font-bold hover:bg-teal-700 transition shadow-lg">Login</button>
-                 </form>
-               </div>
-             </div>
+               {loginCard}
+            </div>
         );
     }
 
@@ -237,7 +394,16 @@ const AppLogic: React.FC = () => {
     }
   };
 
-  return <ErrorBoundary>{renderContent()}</ErrorBoundary>;
+  return (
+    <ErrorBoundary>
+      <div inert={isTeacherLocked}>{renderContent()}</div>
+      {isTeacherLocked && (
+        <div className="fixed inset-0 z-[10000] bg-teal-600 flex items-center justify-center p-4">
+          {loginCard}
+        </div>
+      )}
+    </ErrorBoundary>
+  );
 };
 
 const App: React.FC = () => (
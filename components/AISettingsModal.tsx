@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { X, Settings, Check, Loader2, PlayCircle } from 'lucide-react';
+import { AISettings, AIProviderId, DEFAULT_AI_SETTINGS, loadAISettings, saveAISettings, createProvider } from '../services/aiProvider';
+
+interface Props {
+  onClose: () => void;
+}
+
+const PROVIDER_LABELS: Record<AIProviderId, string> = {
+  'gemini': 'Google Gemini',
+  'openai-compatible': 'OpenAI-compatible API',
+  'mock': 'Offline mock (no network)'
+};
+
+const AISettingsModal: React.FC<Props> = ({ onClose }) => {
+  const [settings, setSettings] = useState<AISettings>(loadAISettings());
+  const [testState, setTestState] = useState<'idle' | 'running' | 'ok' | 'failed'>('idle');
+  const [testMessage, setTestMessage] = useState('');
+
+  const update = (field: keyof AISettings, value: string) => {
+    setSettings(prev => ({ ...prev, [field]: value }));
+    setTestState('idle');
+  };
+
+  const switchProvider = (provider: AIProviderId) => {
+    // Keep the key when switching, everything else falls back to that provider's defaults
+    setSettings(prev => ({ ...DEFAULT_AI_SETTINGS[provider], apiKey: provider === 'mock' ? '' : prev.apiKey }));
+    setTestState('idle');
+  };
+
+  const runTest = async () => {
+    setTestState('running');
+    setTestMessage('');
+    try {
+      const sentences = await createProvider(settings).analyzeLesson('你好。', 'cantonese');
+      const reading = sentences[0]?.words.map(w => w.selectedJyutping).filter(Boolean).join(' ');
+      setTestState('ok');
+      setTestMessage(reading ? `Got: ${reading}` : 'Connected.');
+    } catch (e: any) {
+      setTestState('failed');
+      setTestMessage(e.message === 'QUOTA_EXHAUSTED' ? 'Rate limited — try again in a minute.' : e.message);
+    }
+  };
+
+  const handleSave = () => {
+    saveAISettings(settings);
+    onClose();
+  };
+
+  const inputClass = "w-full p-2 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-teal-500 outline-none";
+  const labelClass = "block text-xs font-bold text-gray-500 mb-1";
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-lg w-full p-6 animate-fade-in max-h-[90vh] overflow-auto">
+        <div className="flex justify-between items-center mb-6">
+          <h3 className="text-xl font-bold flex items-center gap-2"><Settings className="text-teal-600"/>AI Settings</h3>
+          <button onClick={onClose}><X/></button>
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <label className={labelClass}>Provider</label>
+            <select className={inputClass} value={settings.provider} onChange={(e) => switchProvider(e.target.value as AIProviderId)}>
+              {(Object.keys(PROVIDER_LABELS) as AIProviderId[]).map(id => <option key={id} value={id}>{PROVIDER_LABELS[id]}</option>)}
+            </select>
+          </div>
+
+          {settings.provider === 'mock' ? (
+            <p className="text-sm text-gray-500 bg-gray-50 p-3 rounded-lg border">Uses built-in sample readings and synthetic tone audio. Useful for demos and trying the editor without an API key.</p>
+          ) : (
+            <>
+              <div>
+                <label className={labelClass}>API key</label>
+                <input type="password" className={inputClass} value={settings.apiKey} onChange={(e) => update('apiKey', e.target.value)} placeholder={settings.provider === 'gemini' ? 'Leave empty to use the built-in key' : 'Optional for local servers'}/>
+                <p className="text-[11px] text-gray-400 mt-1">Stored only in this browser.</p>
+              </div>
+              {settings.provider === 'openai-compatible' && (
+                <div>
+                  <label className={labelClass}>Base URL</label>
+                  <input className={inputClass} value={settings.baseUrl} onChange={(e) => update('baseUrl', e.target.value)} placeholder="https://api.openai.com/v1"/>
+                </div>
+              )}
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className={labelClass}>Text model</label>
+                  <input className={inputClass} value={settings.textModel} onChange={(e) => update('textModel', e.target.value)}/>
+                </div>
+                <div>
+                  <label className={labelClass}>Speech model</label>
+                  <input className={inputClass} value={settings.speechModel} onChange={(e) => update('speechModel', e.target.value)}/>
+                </div>
+              </div>
+              <div>
+                <label className={labelClass}>Voice</label>
+                <input className={inputClass} value={settings.voice} onChange={(e) => update('voice', e.target.value)}/>
+              </div>
+            </>
+          )}
+
+          <div className="flex items-center gap-3">
+            <button onClick={runTest} disabled={testState === 'running'} className="flex items-center gap-2 px-4 py-2 border border-gray-200 rounded-lg text-sm font-bold text-gray-600 hover:bg-gray-50 disabled:opacity-50">
+              {testState === 'running' ? <Loader2 size={16} className="animate-spin"/> : <PlayCircle size={16}/>} Test connection
+            </button>
+            {testState === 'ok' && <span className="text-xs font-bold text-green-600">{testMessage}</span>}
+            {testState === 'failed' && <span className="text-xs font-bold text-red-500 line-clamp-2">{testMessage}</span>}
+          </div>
+        </div>
+
+        <div className="mt-6 flex justify-end gap-3">
+          <button onClick={onClose} className="px-4 py-2 text-gray-500">Cancel</button>
+          <button onClick={handleSave} className="px-6 py-2 bg-teal-600 text-white rounded-lg font-bold flex items-center gap-2"><Check size={16}/> Save</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AISettingsModal;
@@ -1,9 +1,11 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { Mic, Square, Trash2, Play, RefreshCw, Pause } from 'lucide-react';
+import { startBoostedRecording, blobToDataUrl, RecordingSession } from '../services/audioCapture';
+import { resolveAudio } from '../services/audioStore';
 
 interface AudioRecorderProps {
   onSave: (base64Audio: string) => void;
-  existingAudio?: string;
+  existingAudio?: string; // Data URL or audio store id
 }
 
 const AudioRecorder: React.FC<AudioRecorderProps> = ({ onSave, existingAudio }) => {
@@ -11,13 +13,8 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({ onSave, existingAudio })
   const [isPlaying, setIsPlaying] = useState(false);
   const [audioUrl, setAudioUrl] = useState<string | null>(existingAudio || null);
   
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
-  const audioChunksRef = useRef<Blob[]>([]);
+  const sessionRef = useRef<RecordingSession | null>(null);
   const audioPlayerRef = useRef<HTMLAudioElement | null>(null);
-  
-  // Refs for audio processing to boost volume
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const sourceStreamRef = useRef<MediaStream | null>(null);
 
   // Sync state if prop changes (e.g. AI generates new audio)
   useEffect(() => {
@@ -26,72 +23,7 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({ onSave, existingAudio })
 
   const startRecording = async () => {
     try {
-      // 1. Get the raw microphone stream
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      sourceStreamRef.current = stream;
-
-      // 2. Setup Web Audio API to process the audio (Boost volume)
-      const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
-      const audioContext = new AudioContextClass();
-      audioContextRef.current = audioContext;
-
-      const source = audioContext.createMediaStreamSource(stream);
-      
-      // 2a. Add a Compressor (Standardizes volume, prevents distortion when we boost it)
-      const compressor = audioContext.createDynamicsCompressor();
-      compressor.threshold.value = -24;
-      compressor.knee.value = 30;
-      compressor.ratio.value = 12;
-      compressor.attack.value = 0.003;
-      compressor.release.value = 0.25;
-
-      // 2b. Add a Gain Node (Volume Booster)
-      const gainNode = audioContext.createGain();
-      // Boost volume by 300% (3.0). Standard mics are usually too quiet compared to YouTube.
-      gainNode.gain.value = 3.0; 
-
-      // 2c. Connect the graph: Source -> Compressor -> Gain -> Destination
-      const destination = audioContext.createMediaStreamDestination();
-      source.connect(compressor);
-      compressor.connect(gainNode);
-      gainNode.connect(destination);
-
-      // 3. Record from the PROCESSED stream (destination), not the raw stream
-      mediaRecorderRef.current = new MediaRecorder(destination.stream);
-      audioChunksRef.current = [];
-
-      mediaRecorderRef.current.ondataavailable = (event) => {
-        if (event.data.size > 0) {
-            audioChunksRef.current.push(event.data);
-        }
-      };
-
-      mediaRecorderRef.current.onstop = () => {
-        const audioBlob = new Blob(audioChunksRef.current, { type: 'audio/webm' });
-        const url = URL.createObjectURL(audioBlob);
-        setAudioUrl(url);
-
-        // Convert to Base64
-        const reader = new FileReader();
-        reader.readAsDataURL(audioBlob);
-        reader.onloadend = () => {
-          const base64String = reader.result as string;
-          onSave(base64String);
-        };
-        
-        // Cleanup Audio Context
-        if (audioContextRef.current) {
-            audioContextRef.current.close();
-            audioContextRef.current = null;
-        }
-        // Stop all tracks on the source stream to turn off the mic light
-        if (sourceStreamRef.current) {
-            sourceStreamRef.current.getTracks().forEach(track => track.stop());
-            sourceStreamRef.current = null;
-        }
-      };
-
-      mediaRecorderRef.current.start();
+      sessionRef.current = await startBoostedRecording();
       setIsRecording(true);
     } catch (err) {
       console.error("Error accessing microphone:", err);
@@ -99,21 +31,26 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({ onSave, existingAudio })
     }
   };
 
-  const stopRecording = () => {
-    if (mediaRecorderRef.current && isRecording) {
-      mediaRecorderRef.current.stop();
+  const stopRecording = async () => {
+    if (sessionRef.current && isRecording) {
+      const session = sessionRef.current;
+      sessionRef.current = null;
       setIsRecording(false);
-      // Actual cleanup happens in onstop event above
+
+      const audioBlob = await session.stop();
+      setAudioUrl(URL.createObjectURL(audioBlob));
+      onSave(await blobToDataUrl(audioBlob));
     }
   };
 
-  const playAudio = () => {
-    if (audioUrl) {
+  const playAudio = async () => {
+    const src = await resolveAudio(audioUrl || undefined);
+    if (src) {
       if (!audioPlayerRef.current) {
-        audioPlayerRef.current = new Audio(audioUrl);
+        audioPlayerRef.current = new Audio(src);
         audioPlayerRef.current.onended = () => setIsPlaying(false);
       } else {
-        audioPlayerRef.current.src = audioUrl;
+        audioPlayerRef.current.src = src;
       }
       audioPlayerRef.current.play();
       setIsPlaying(true);
@@ -0,0 +1,42 @@
+import React, { useState } from 'react';
+import { X, AudioLines, Check } from 'lucide-react';
+import { AudioSettings, OPUS_BITRATES, loadAudioSettings, saveAudioSettings } from '../services/audioStore';
+
+interface Props {
+  onClose: () => void;
+}
+
+const AudioSettingsModal: React.FC<Props> = ({ onClose }) => {
+  const [settings, setSettings] = useState<AudioSettings>(loadAudioSettings());
+
+  const handleSave = () => {
+    saveAudioSettings(settings);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full p-6 animate-fade-in">
+        <div className="flex justify-between items-center mb-6">
+          <h3 className="text-xl font-bold flex items-center gap-2"><AudioLines className="text-teal-600"/>Audio Storage</h3>
+          <button onClick={onClose}><X/></button>
+        </div>
+
+        <div className="space-y-3">
+          <label className="block text-xs font-bold text-gray-500 mb-1">Re-encode new recordings as Opus</label>
+          <select className="w-full p-2 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-teal-500 outline-none" value={settings.opusBitrate} onChange={(e) => setSettings({ opusBitrate: Number(e.target.value) })}>
+            {OPUS_BITRATES.map(rate => <option key={rate} value={rate}>{rate ? `${rate / 1000} kbps` : 'Off (keep as recorded)'}</option>)}
+          </select>
+          <p className="text-[11px] text-gray-400">Speech stays clear at 24 kbps, and AI voice clips shrink to a small fraction of their size. Applied when a lesson is saved, which then takes about as long as its new recordings. Existing recordings are not changed.</p>
+        </div>
+
+        <div className="mt-6 flex justify-end gap-3">
+          <button onClick={onClose} className="px-4 py-2 text-gray-500">Cancel</button>
+          <button onClick={handleSave} className="px-6 py-2 bg-teal-600 text-white rounded-lg font-bold flex items-center gap-2"><Check size={16}/> Save</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AudioSettingsModal;
@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { X, KeyRound, Check, Loader2 } from 'lucide-react';
+import { MIN_PASSPHRASE_LENGTH, changeTeacherPassphrase, describeLoginFailure } from '../services/teacherAuth';
+
+interface Props {
+  onClose: () => void;
+}
+
+const ChangePassphraseModal: React.FC<Props> = ({ onClose }) => {
+  const [current, setCurrent] = useState('');
+  const [next, setNext] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [isDone, setIsDone] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (next.length < MIN_PASSPHRASE_LENGTH) {
+      setError(`Use at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+      return;
+    }
+    if (next !== confirm) {
+      setError('The new passphrases do not match.');
+      return;
+    }
+    setIsSaving(true);
+    setError('');
+    try {
+      const result = await changeTeacherPassphrase(current, next);
+      if (result.ok) setIsDone(true);
+      else {
+        setCurrent('');
+        setError(describeLoginFailure(result));
+      }
+    } catch (err) {
+      console.error("Failed to change passphrase", err);
+      setError('Could not save the new passphrase.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = "w-full p-2 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-teal-500 outline-none";
+  const labelClass = "block text-xs font-bold text-gray-500 mb-1";
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full p-6 animate-fade-in">
+        <div className="flex justify-between items-center mb-6">
+          <h3 className="text-xl font-bold flex items-center gap-2"><KeyRound className="text-teal-600"/>Change Passphrase</h3>
+          <button onClick={onClose}><X/></button>
+        </div>
+
+        {isDone ? (
+          <div className="text-center space-y-4">
+            <p className="text-sm text-green-700 bg-green-50 p-3 rounded-lg flex items-center gap-2"><Check size={16}/> Passphrase changed. Use the new one next time you log in.</p>
+            <button onClick={onClose} className="px-6 py-2 bg-teal-600 text-white rounded-lg font-bold">Done</button>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className={labelClass}>Current passphrase</label>
+              <input type="password" autoFocus autoComplete="current-password" className={inputClass} value={current} onChange={(e) => setCurrent(e.target.value)}/>
+            </div>
+            <div>
+              <label className={labelClass}>New passphrase</label>
+              <input type="password" autoComplete="new-password" className={inputClass} value={next} onChange={(e) => setNext(e.target.value)} placeholder={`At least ${MIN_PASSPHRASE_LENGTH} characters`}/>
+            </div>
+            <div>
+              <label className={labelClass}>Repeat new passphrase</label>
+              <input type="password" autoComplete="new-password" className={inputClass} value={confirm} onChange={(e) => setConfirm(e.target.value)}/>
+            </div>
+            {error && <p className="text-xs font-bold text-red-500">{error}</p>}
+            <div className="flex justify-end gap-3 pt-2">
+              <button type="button" onClick={onClose} className="px-4 py-2 text-gray-500">Cancel</button>
+              <button type="submit" disabled={isSaving || !current} className="px-6 py-2 bg-teal-600 text-white rounded-lg font-bold flex items-center gap-2 disabled:opacity-50">
+                {isSaving ? <Loader2 size={16} className="animate-spin"/> : <Check size={16}/>} Save
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ChangePassphraseModal;
@@ -0,0 +1,204 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Play, Turtle, ArrowRight, ArrowLeft, BarChart2, PenLine } from 'lucide-react';
+import { Lesson } from '../types';
+import { getLessonLanguage } from '../services/lessonLanguage';
+import { gradeDictation, summariseDictation, DictationMode, DictationMark, DictationResult, SyllablePart } from '../services/dictation';
+
+interface Props {
+  lesson: Lesson;
+  onComplete?: (correct: number, total: number) => void; // Syllables right out of syllables dictated, on Finish
+}
+
+const MARK_STYLES: Record<DictationMark, { label: string; className: string }> = {
+  correct: { label: 'Correct', className: 'bg-green-50 text-green-700 border-green-200' },
+  tone: { label: 'Wrong tone', className: 'bg-amber-50 text-amber-700 border-amber-300' },
+  sound: { label: 'Wrong initial / final', className: 'bg-orange-50 text-orange-700 border-orange-300' },
+  character: { label: 'Wrong character', className: 'bg-red-50 text-red-700 border-red-300' },
+  missing: { label: 'Missed', className: 'bg-gray-50 text-gray-400 border-dashed border-gray-300' },
+  extra: { label: 'Extra', className: 'bg-gray-50 text-gray-400 border-gray-200 line-through' }
+};
+
+const PART_LABELS: Record<SyllablePart, string> = {
+  initial: 'Initial',
+  final: 'Final',
+  tone: 'Tone'
+};
+
+const DictationSession: React.FC<Props> = ({ lesson, onComplete }) => {
+  const canUseJyutping = getLessonLanguage(lesson) !== 'mandarin';
+  const sentences = lesson.sentences.filter(s => s.audioBase64);
+  const [mode, setMode] = useState<DictationMode>(canUseJyutping ? 'jyutping' : 'characters');
+  const [index, setIndex] = useState(0);
+  const [input, setInput] = useState('');
+  // Latest graded attempt per sentence
+  const [results, setResults] = useState<Record<string, DictationResult>>({});
+  const [showSummary, setShowSummary] = useState(false);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+
+  useEffect(() => () => audioRef.current?.pause(), []);
+
+  const sentence = sentences[index];
+  const result = sentence ? results[sentence.id] : undefined;
+
+  const play = (rate: number) => {
+    if (!sentence?.audioBase64) return;
+    audioRef.current?.pause();
+    const audio = new Audio(sentence.audioBase64);
+    audio.playbackRate = rate;
+    audioRef.current = audio;
+    audio.play().catch(e => console.error("Playback failed", e));
+  };
+
+  const check = () => {
+    if (!sentence || !input.trim()) return;
+    setResults(prev => ({ ...prev, [sentence.id]: gradeDictation(sentence.words, input, mode) }));
+  };
+
+  const goTo = (next: number) => {
+    setIndex(next);
+    setInput('');
+  };
+
+  const finish = () => {
+    const summary = summariseDictation(Object.keys(results).map(id => results[id]));
+    if (summary.syllables > 0) onComplete?.(summary.marks.correct, summary.syllables);
+    setShowSummary(true);
+  };
+
+  if (sentences.length === 0) {
+    return (
+      <div className="bg-white p-8 rounded-2xl shadow-sm border border-gray-100 text-center text-gray-500">
+        This lesson has no recorded sentences to take dictation from yet.
+      </div>
+    );
+  }
+
+  if (showSummary) {
+    const graded = sentences.flatMap(s => (results[s.id] ? [results[s.id]] : []));
+    const summary = summariseDictation(graded);
+    const errorMarks = (['tone', 'sound', 'character', 'missing', 'extra'] as DictationMark[]).filter(m => summary.marks[m] > 0);
+    return (
+      <div className="bg-white p-8 rounded-2xl shadow-sm border border-gray-100">
+        <h2 className="text-xl font-bold text-gray-800 mb-1 flex items-center gap-2"><BarChart2 size={20} className="text-orange-500" /> Your mistakes in this lesson</h2>
+        <p className="text-sm text-gray-500 mb-6">
+          {summary.sentences} of {sentences.length} sentences · {summary.marks.correct} of {summary.syllables} syllables right
+        </p>
+
+        {errorMarks.length === 0 ? (
+          <p className="text-green-700 bg-green-50 p-4 rounded-xl mb-6">{graded.length ? 'No mistakes at all. Well done!' : 'Check a sentence first to see your mistakes here.'}</p>
+        ) : (
+          <div className="flex flex-wrap gap-2 mb-6">
+            {errorMarks.map(m => (
+              <span key={m} className={`px-3 py-1.5 rounded-full border text-sm font-bold ${MARK_STYLES[m].className}`}>{MARK_STYLES[m].label}: {summary.marks[m]}</span>
+            ))}
+          </div>
+        )}
+
+        {summary.confusions.length > 0 && (
+          <>
+            <h3 className="text-xs font-bold text-gray-400 uppercase tracking-widest mb-3">Sounds you mix up</h3>
+            <div className="divide-y divide-gray-100 border border-gray-100 rounded-xl mb-6">
+              {summary.confusions.slice(0, 8).map(({ part, pair, count }) => (
+                <div key={`${part}:${pair.join('/')}`} className="flex items-center justify-between px-4 py-3">
+                  <span className="text-gray-700"><span className="text-xs font-bold text-gray-400 uppercase mr-2">{PART_LABELS[part]}</span>{pair[0]} <span className="text-gray-400">↔</span> {pair[1]}</span>
+                  <span className="text-sm font-bold text-orange-600">{count}×</span>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+
+        <button onClick={() => setShowSummary(false)} className="bg-gray-800 text-white px-6 py-3 rounded-full font-bold hover:bg-gray-900 flex items-center gap-2">
+          <ArrowLeft size={16} /> Back to dictation
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white p-8 rounded-2xl shadow-sm border border-gray-100">
+      <div className="flex justify-between items-center mb-6 gap-2 flex-wrap">
+        <div className="flex p-1 bg-gray-100 rounded-xl">
+          {(['jyutping', 'characters'] as DictationMode[]).map(m => (
+            <button
+              key={m}
+              onClick={() => setMode(m)}
+              disabled={m === 'jyutping' && !canUseJyutping}
+              className={`px-3 py-1.5 rounded-lg text-sm font-bold transition disabled:opacity-40 ${mode === m ? 'bg-white text-gray-800 shadow-sm' : 'text-gray-500'}`}
+            >
+              {m === 'jyutping' ? 'Type Jyutping' : 'Type characters'}
+            </button>
+          ))}
+        </div>
+        <span className="text-xs text-gray-400">{index + 1} / {sentences.length}</span>
+      </div>
+
+      <div className="flex justify-center gap-3 mb-6">
+        <button onClick={() => play(1)} className="p-5 rounded-full bg-orange-100 text-orange-600 hover:bg-orange-200" title="Play"><Play size={28} fill="currentColor" /></button>
+        <button onClick={() => play(0.7)} className="p-5 rounded-full bg-gray-100 text-gray-600 hover:bg-gray-200" title="Play slowly"><Turtle size={28} /></button>
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && !e.nativeEvent.isComposing && check()}
+          className="flex-1 p-3 rounded-xl border border-gray-200 outline-none focus:ring-2 focus:ring-orange-200 text-lg"
+          placeholder={mode === 'jyutping' ? 'e.g. nei5 hou2' : 'Type what you hear...'}
+          autoCapitalize="off"
+          autoCorrect="off"
+          spellCheck={false}
+        />
+        <button onClick={check} disabled={!input.trim()} className="bg-orange-600 text-white px-5 rounded-xl font-bold hover:bg-orange-700 disabled:opacity-40 flex items-center gap-1.5">
+          <PenLine size={16} /> Check
+        </button>
+      </div>
+
+      {result && (
+        <div className="mt-6">
+          <div className="flex justify-between items-center mb-3">
+            <span className="text-xs font-bold text-gray-400 uppercase tracking-widest">Result</span>
+            <span className={`text-sm font-bold ${result.score >= 80 ? 'text-green-600' : result.score >= 50 ? 'text-amber-600' : 'text-red-600'}`}>{result.score}%</span>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {result.tokens.map((token, i) => (
+              <div key={i} className={`px-2.5 py-1.5 rounded-lg border text-center ${MARK_STYLES[token.mark].className}`} title={MARK_STYLES[token.mark].label}>
+                <div className={`${result.mode === 'characters' ? 'text-2xl font-serif' : 'font-bold'}`}>{token.expected ?? token.typed}</div>
+                {token.mark !== 'correct' && token.mark !== 'extra' && (
+                  <div className="text-xs opacity-80">{token.typed ?? '—'}</div>
+                )}
+                {token.parts && token.parts.length > 0 && token.mark !== 'tone' && (
+                  <div className="text-[10px] font-bold uppercase">{token.parts.map(p => PART_LABELS[p]).join(' · ')}</div>
+                )}
+              </div>
+            ))}
+          </div>
+          <p className="text-gray-600 mt-4">
+            <span className="font-serif text-lg text-gray-900">{sentence.words.map(w => w.char).join('')}</span>
+            {sentence.english && <span className="italic"> — {sentence.english}</span>}
+          </p>
+          <div className="flex flex-wrap gap-3 mt-3 text-[10px] text-gray-500">
+            {(['tone', 'sound', 'character', 'missing'] as DictationMark[]).map(m => (
+              <span key={m} className="flex items-center gap-1"><span className={`w-3 h-3 rounded border ${MARK_STYLES[m].className}`}></span>{MARK_STYLES[m].label}</span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="flex justify-between items-center mt-8">
+        <button onClick={() => goTo(index - 1)} disabled={index === 0} className="text-sm font-bold text-gray-500 hover:text-gray-800 disabled:opacity-30 flex items-center gap-1">
+          <ArrowLeft size={16} /> Previous
+        </button>
+        <button onClick={() => setShowSummary(true)} className="text-sm font-bold text-orange-600 bg-orange-50 px-4 py-2 rounded-full hover:bg-orange-100 flex items-center gap-1.5">
+          <BarChart2 size={16} /> Summary ({Object.keys(results).length})
+        </button>
+        <button onClick={() => (index + 1 < sentences.length ? goTo(index + 1) : finish())} className="text-sm font-bold text-gray-800 hover:text-orange-600 flex items-center gap-1">
+          {index + 1 < sentences.length ? 'Next' : 'Finish'} <ArrowRight size={16} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default DictationSession;
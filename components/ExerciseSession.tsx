@@ -0,0 +1,268 @@
+import React, { useState, useMemo } from 'react';
+import { CheckCircle, XCircle, RotateCcw, ArrowRight, Dumbbell } from 'lucide-react';
+import { Lesson } from '../types';
+import { Romanisation } from '../services/jyutping';
+import { toToneMarks } from '../services/pinyin';
+import { formatJyutpingAs } from '../services/readingDisplay';
+import { getLessonLanguage } from '../services/lessonLanguage';
+import { generateExercises, shuffle, Exercise, ExerciseKind, ClozeExercise, MatchExercise, ReorderExercise, ChoiceExercise, EXERCISE_LABELS } from '../services/exercises';
+
+interface Props {
+  lesson: Lesson;
+  romanisation: Romanisation;
+  onComplete?: (correct: number, total: number) => void; // Called once a set is finished
+}
+
+const ALL_KINDS = Object.keys(EXERCISE_LABELS) as ExerciseKind[];
+
+const ExerciseSession: React.FC<Props> = ({ lesson, romanisation, onComplete }) => {
+  const [kinds, setKinds] = useState<ExerciseKind[]>(ALL_KINDS);
+  const [exercises, setExercises] = useState<Exercise[] | null>(null);
+  const [index, setIndex] = useState(0);
+  const [results, setResults] = useState<boolean[]>([]);
+
+  const formatReading = (reading: string) =>
+    getLessonLanguage(lesson) === 'mandarin' ? toToneMarks(reading) : formatJyutpingAs(reading, romanisation);
+
+  const start = () => {
+    setExercises(generateExercises(lesson, kinds));
+    setIndex(0);
+    setResults([]);
+  };
+
+  const toggleKind = (kind: ExerciseKind) =>
+    setKinds(prev => prev.includes(kind) ? prev.filter(k => k !== kind) : [...prev, kind]);
+
+  if (!exercises) {
+    return (
+      <div className="bg-white p-8 rounded-2xl shadow-sm border border-gray-100 text-center">
+        <Dumbbell size={40} className="text-orange-500 mx-auto mb-3" />
+        <h2 className="text-xl font-bold text-gray-800 mb-1">Exercises</h2>
+        <p className="text-gray-500 mb-6 text-sm">A fresh set is made from this lesson's sentences every time.</p>
+        <div className="flex flex-wrap justify-center gap-2 mb-6">
+          {ALL_KINDS.map(kind => (
+            <button key={kind} onClick={() => toggleKind(kind)} className={`px-4 py-2 rounded-full text-sm font-bold transition ${kinds.includes(kind) ? 'bg-orange-600 text-white' : 'bg-gray-100 text-gray-500 hover:bg-gray-200'}`}>
+              {EXERCISE_LABELS[kind]}
+            </button>
+          ))}
+        </div>
+        <button onClick={start} disabled={kinds.length === 0} className="bg-gray-800 text-white px-8 py-3 rounded-full font-bold hover:bg-gray-900 disabled:opacity-40">
+          Start
+        </button>
+      </div>
+    );
+  }
+
+  if (exercises.length === 0 || index >= exercises.length) {
+    const correct = results.filter(Boolean).length;
+    return (
+      <div className="bg-white p-8 rounded-2xl shadow-sm border border-gray-100 text-center">
+        {exercises.length === 0 ? (
+          <p className="text-gray-500 mb-6">This lesson doesn't have enough sentences for these exercises yet.</p>
+        ) : (
+          <>
+            <h2 className="text-xl font-bold text-gray-800 mb-1">Finished</h2>
+            <p className="text-4xl font-bold text-orange-600 my-4">{correct} / {results.length}</p>
+            <p className="text-gray-500 mb-6 text-sm">{correct === results.length ? 'Perfect score!' : 'Try another set to practise the ones you missed.'}</p>
+          </>
+        )}
+        <button onClick={() => setExercises(null)} className="bg-gray-800 text-white px-6 py-3 rounded-full font-bold hover:bg-gray-900 inline-flex items-center gap-2">
+          <RotateCcw size={16} /> New set
+        </button>
+      </div>
+    );
+  }
+
+  const exercise = exercises[index];
+  const answered = results.length > index;
+  const onAnswered = (correct: boolean) => setResults(prev => prev.length > index ? prev : [...prev, correct]);
+
+  const next = () => {
+    if (index + 1 === exercises.length) onComplete?.(results.filter(Boolean).length, results.length);
+    setIndex(i => i + 1);
+  };
+
+  return (
+    <div className="bg-white p-8 rounded-2xl shadow-sm border border-gray-100">
+      <div className="flex justify-between items-center text-xs text-gray-400 mb-6">
+        <span className="font-bold uppercase tracking-widest">{EXERCISE_LABELS[exercise.kind]}</span>
+        <span>{index + 1} / {exercises.length} · {results.filter(Boolean).length} correct</span>
+      </div>
+
+      {exercise.kind === 'cloze' && <ClozeCard key={index} exercise={exercise} onAnswered={onAnswered} />}
+      {exercise.kind === 'match' && <MatchCard key={index} exercise={exercise} formatReading={formatReading} onAnswered={onAnswered} />}
+      {exercise.kind === 'reorder' && <ReorderCard key={index} exercise={exercise} onAnswered={onAnswered} />}
+      {exercise.kind === 'choice' && <ChoiceCard key={index} exercise={exercise} onAnswered={onAnswered} />}
+
+      {answered && (
+        <div className={`mt-6 flex items-center justify-between p-4 rounded-xl ${results[index] ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'}`}>
+          <span className="font-bold flex items-center gap-2">
+            {results[index] ? <><CheckCircle size={20} /> Correct</> : <><XCircle size={20} /> Not quite</>}
+          </span>
+          <button onClick={next} className="bg-gray-800 text-white px-5 py-2 rounded-full text-sm font-bold hover:bg-gray-900 flex items-center gap-1.5">
+            {index + 1 < exercises.length ? 'Next' : 'Results'} <ArrowRight size={16} />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface CardProps<T> {
+  exercise: T;
+  onAnswered: (correct: boolean) => void;
+}
+
+const optionClass = (option: string, picked: string | null, answer: string) => {
+  if (!picked) return 'border-gray-200 hover:border-orange-300 hover:bg-orange-50';
+  if (option === answer) return 'border-green-400 bg-green-50 text-green-800';
+  if (option === picked) return 'border-red-400 bg-red-50 text-red-800';
+  return 'border-gray-100 text-gray-300';
+};
+
+const ClozeCard: React.FC<CardProps<ClozeExercise>> = ({ exercise, onAnswered }) => {
+  const [picked, setPicked] = useState<string | null>(null);
+  const { sentence, start, end, options, answer } = exercise;
+
+  const pick = (option: string) => {
+    if (picked) return;
+    setPicked(option);
+    onAnswered(option === answer);
+  };
+
+  return (
+    <div>
+      <p className="text-3xl font-serif text-gray-900 text-center leading-relaxed mb-2">
+        {sentence.words.slice(0, start).map(w => w.char).join('')}
+        <span className={`inline-block min-w-[3rem] mx-1 border-b-4 ${picked ? (picked === answer ? 'border-green-400 text-green-700' : 'border-red-400 text-red-700') : 'border-orange-400 text-transparent'}`}>
+          {picked ? answer : '＿'.repeat(end - start)}
+        </span>
+        {sentence.words.slice(end).map(w => w.char).join('')}
+      </p>
+      <p className="text-gray-500 italic text-center mb-6">{sentence.english}</p>
+      <div className="grid grid-cols-2 gap-3">
+        {options.map(option => (
+          <button key={option} onClick={() => pick(option)} className={`p-4 rounded-xl border-2 text-2xl font-serif transition ${optionClass(option, picked, answer)}`}>
+            {option}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const ChoiceCard: React.FC<CardProps<ChoiceExercise>> = ({ exercise, onAnswered }) => {
+  const [picked, setPicked] = useState<string | null>(null);
+  const { sentence, options, answer } = exercise;
+
+  const pick = (option: string) => {
+    if (picked) return;
+    setPicked(option);
+    onAnswered(option === answer);
+  };
+
+  return (
+    <div>
+      <p className="text-xl font-medium text-gray-800 text-center mb-6">{sentence.english}</p>
+      <div className="space-y-3">
+        {options.map(option => (
+          <button key={option} onClick={() => pick(option)} className={`w-full p-4 rounded-xl border-2 text-xl font-serif text-left transition ${optionClass(option, picked, answer)}`}>
+            {option}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const ReorderCard: React.FC<CardProps<ReorderExercise>> = ({ exercise, onAnswered }) => {
+  // Positions in exercise.pieces, so repeated words stay distinct
+  const [built, setBuilt] = useState<number[]>([]);
+  const { sentence, pieces, answer } = exercise;
+  const done = built.length === pieces.length;
+  const correct = done && built.map(i => pieces[i]).join('') === answer.join('');
+
+  const place = (i: number) => {
+    if (done) return;
+    const next = [...built, i];
+    setBuilt(next);
+    if (next.length === pieces.length) onAnswered(next.map(p => pieces[p]).join('') === answer.join(''));
+  };
+
+  const unplace = (i: number) => {
+    if (done) return;
+    setBuilt(prev => prev.filter(p => p !== i));
+  };
+
+  return (
+    <div>
+      <p className="text-gray-500 italic text-center mb-6">{sentence.english || 'Put the words in order.'}</p>
+      <div className={`min-h-[4.5rem] p-3 rounded-xl border-2 border-dashed flex flex-wrap gap-2 mb-4 ${done ? (correct ? 'border-green-400 bg-green-50' : 'border-red-400 bg-red-50') : 'border-gray-200'}`}>
+        {built.map(i => (
+          <button key={i} onClick={() => unplace(i)} className="px-3 py-2 bg-white rounded-lg shadow-sm text-2xl font-serif text-gray-900 border border-gray-200">
+            {pieces[i]}
+          </button>
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-2 justify-center">
+        {pieces.map((piece, i) => (
+          <button key={i} onClick={() => place(i)} disabled={built.includes(i)} className="px-3 py-2 bg-orange-50 rounded-lg text-2xl font-serif text-gray-900 border border-orange-200 hover:bg-orange-100 disabled:opacity-0">
+            {piece}
+          </button>
+        ))}
+      </div>
+      {done && !correct && <p className="text-center mt-4 text-gray-600">Answer: <span className="font-serif text-xl text-gray-900">{answer.join('')}</span></p>}
+    </div>
+  );
+};
+
+const MatchCard: React.FC<CardProps<MatchExercise> & { formatReading: (reading: string) => string }> = ({ exercise, formatReading, onAnswered }) => {
+  const { pairs } = exercise;
+  const readings = useMemo(() => shuffle(pairs.map(p => p.reading)), [pairs]);
+  const [selectedChar, setSelectedChar] = useState<string | null>(null);
+  const [matched, setMatched] = useState<Set<string>>(new Set());
+  const [mistakes, setMistakes] = useState(0);
+  const [wrongReading, setWrongReading] = useState<string | null>(null);
+
+  const pickReading = (reading: string) => {
+    if (!selectedChar) return;
+    const pair = pairs.find(p => p.char === selectedChar)!;
+    if (pair.reading !== reading) {
+      setMistakes(m => m + 1);
+      setWrongReading(reading);
+      setTimeout(() => setWrongReading(null), 600);
+      return;
+    }
+    const next = new Set(matched).add(pair.char);
+    setMatched(next);
+    setSelectedChar(null);
+    // Every pair gets matched in the end; only a clean run counts as correct
+    if (next.size === pairs.length) onAnswered(mistakes === 0);
+  };
+
+  const isReadingMatched = (reading: string) => pairs.some(p => p.reading === reading && matched.has(p.char));
+
+  return (
+    <div>
+      <p className="text-gray-500 text-center mb-6 text-sm">Tap a character, then its reading.{mistakes > 0 && <span className="text-red-500"> {mistakes} mistake{mistakes !== 1 ? 's' : ''}</span>}</p>
+      <div className="grid grid-cols-2 gap-6">
+        <div className="space-y-3">
+          {pairs.map(({ char }) => (
+            <button key={char} onClick={() => !matched.has(char) && setSelectedChar(char)} className={`w-full p-3 rounded-xl border-2 text-3xl font-serif transition ${matched.has(char) ? 'border-green-300 bg-green-50 text-green-700' : selectedChar === char ? 'border-orange-500 bg-orange-50' : 'border-gray-200 hover:border-orange-300'}`}>
+              {char}
+            </button>
+          ))}
+        </div>
+        <div className="space-y-3">
+          {readings.map(reading => (
+            <button key={reading} onClick={() => !isReadingMatched(reading) && pickReading(reading)} className={`w-full p-3 rounded-xl border-2 text-lg font-bold transition h-[3.75rem] ${isReadingMatched(reading) ? 'border-green-300 bg-green-50 text-green-700' : wrongReading === reading ? 'border-red-400 bg-red-50 text-red-700' : 'border-gray-200 text-teal-700 hover:border-teal-300'}`}>
+              {formatReading(reading)}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExerciseSession;
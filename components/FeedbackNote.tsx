@@ -0,0 +1,31 @@
+import React from 'react';
+import { MessageSquare, Pause, Volume2 } from 'lucide-react';
+import { SentenceFeedback } from '../types';
+
+interface Props {
+  note: SentenceFeedback;
+  isPlaying: boolean;
+  onPlay: () => void;
+}
+
+// The teacher's comment on the recording the student submitted for a sentence
+const FeedbackNote: React.FC<Props> = ({ note, isPlaying, onPlay }) => (
+  <div className="mt-3 p-3 bg-indigo-50 border border-indigo-100 rounded-xl text-sm flex gap-3 items-start print:hidden">
+    <MessageSquare size={16} className="text-indigo-500 shrink-0 mt-0.5" />
+    <div className="flex-1">
+      <p className="text-[10px] font-bold text-indigo-400 uppercase tracking-widest mb-1">Teacher feedback</p>
+      {note.text && <p className="text-indigo-900 whitespace-pre-wrap">{note.text}</p>}
+    </div>
+    {note.audioBase64 && (
+      <button
+        onClick={onPlay}
+        className={`p-2 rounded-full shrink-0 ${isPlaying ? 'bg-indigo-500 text-white' : 'bg-white text-indigo-600 border border-indigo-200 hover:bg-indigo-100'}`}
+        title="Play spoken feedback"
+      >
+        {isPlaying ? <Pause size={14} /> : <Volume2 size={14} />}
+      </button>
+    )}
+  </div>
+);
+
+export default FeedbackNote;
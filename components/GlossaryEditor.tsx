@@ -0,0 +1,78 @@
+import React from 'react';
+import { BookMarked, Sparkles, Plus, X } from 'lucide-react';
+import { GlossaryEntry, LessonLanguage, Sentence } from '../types';
+import { extractGlossary, mergeGlossary, createGlossaryEntry } from '../services/glossary';
+import { showsJyutping, showsPinyin } from '../services/lessonLanguage';
+import { isValidJyutping } from '../services/jyutping';
+
+interface Props {
+  glossary: GlossaryEntry[];
+  sentences: Sentence[];
+  language: LessonLanguage;
+  onChange: (glossary: GlossaryEntry[]) => void;
+}
+
+const sentenceText = (s: Sentence) => s.words.map(w => w.char).join('');
+
+const GlossaryEditor: React.FC<Props> = ({ glossary, sentences, language, onChange }) => {
+  const updateEntry = (id: string, patch: Partial<GlossaryEntry>) => {
+    onChange(glossary.map(e => e.id === id ? { ...e, ...patch } : e));
+  };
+
+  const handleExtract = () => {
+    const merged = mergeGlossary(glossary, extractGlossary(sentences, language));
+    if (merged.length === glossary.length) alert('没有发现新的词语。');
+    onChange(merged);
+  };
+
+  const hasInvalidJyutping = (entry: GlossaryEntry) => entry.jyutping.trim().split(/\s+/).some(s => s && !isValidJyutping(s));
+
+  const inputClass = "text-sm p-2 border border-gray-100 rounded-lg outline-none focus:ring-2 focus:ring-teal-100 min-w-0";
+
+  return (
+    <div className="border border-gray-100 rounded-[2.5rem] p-8 shadow-sm bg-white">
+      <div className="flex justify-between items-center mb-6 gap-2 flex-wrap">
+        <h3 className="font-bold text-gray-800 flex items-center gap-2"><BookMarked size={18} className="text-teal-600"/> 课程词汇表 <span className="text-xs text-gray-400 font-normal">（{glossary.length} 个词条，学生“我的词汇”中可查）</span></h3>
+        <div className="flex gap-2">
+          <button onClick={handleExtract} disabled={sentences.length === 0} className="text-xs font-bold text-teal-600 bg-teal-50 px-3 py-1.5 rounded-full hover:bg-teal-100 flex items-center gap-1.5 disabled:opacity-40">
+            <Sparkles size={14}/> 从句子提取词汇
+          </button>
+          <button onClick={() => onChange([...glossary, createGlossaryEntry()])} className="text-xs font-bold text-gray-600 bg-gray-50 px-3 py-1.5 rounded-full hover:bg-gray-100 flex items-center gap-1.5">
+            <Plus size={14}/> 添加词条
+          </button>
+        </div>
+      </div>
+
+      {glossary.length === 0 ? (
+        <p className="text-sm text-gray-400 text-center py-6">还没有词条。点击“从句子提取词汇”自动生成，再逐条修改。</p>
+      ) : (
+        <div className="space-y-2">
+          {glossary.map(entry => (
+            <div key={entry.id} className="flex gap-2 items-center">
+              <input type="text" value={entry.headword} onChange={(e) => updateEntry(entry.id, { headword: e.target.value })} className={`${inputClass} w-24 font-serif text-lg`} placeholder="词语"/>
+              {showsJyutping(language) && (
+                <input type="text" value={entry.jyutping} onChange={(e) => updateEntry(entry.id, { jyutping: e.target.value })} className={`${inputClass} w-32 font-bold ${hasInvalidJyutping(entry) ? 'text-red-600 bg-red-50' : 'text-teal-600'}`} placeholder="粤拼"/>
+              )}
+              {showsPinyin(language) && (
+                <input type="text" value={entry.pinyin || ''} onChange={(e) => updateEntry(entry.id, { pinyin: e.target.value })} className={`${inputClass} w-32 font-bold text-orange-600`} placeholder="拼音"/>
+              )}
+              <input type="text" value={entry.english} onChange={(e) => updateEntry(entry.id, { english: e.target.value })} className={`${inputClass} flex-1`} placeholder="英文释义"/>
+              <select
+                value={entry.exampleSentenceId || ''}
+                onChange={(e) => updateEntry(entry.id, { exampleSentenceId: e.target.value || undefined })}
+                className={`${inputClass} w-40 text-xs text-gray-600`}
+                title="例句"
+              >
+                <option value="">无例句</option>
+                {sentences.map((s, idx) => <option key={s.id} value={s.id}>{idx + 1}. {sentenceText(s).slice(0, 12)}</option>)}
+              </select>
+              <button onClick={() => onChange(glossary.filter(e => e.id !== entry.id))} className="p-1.5 text-gray-300 hover:text-red-500 rounded-full"><X size={16}/></button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GlossaryEditor;
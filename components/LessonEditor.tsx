@@ -1,10 +1,25 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useData } from '../contexts/DataContext';
-import { generateLessonContent } from '../services/geminiService';
-import { Lesson, Sentence, AppMode, Word } from '../types';
+import { generateLessonContent } from '../services/aiService';
+import { synthesizeSpeechCached } from '../services/ttsCache';
+import { annotateReadings, isPolyphone } from '../services/jyutpingDictionary';
+import { isValidJyutping, convertText, Romanisation, ROMANISATION_LABELS } from '../services/jyutping';
+import { isValidPinyin, normalizePinyin } from '../services/pinyin';
+import { showsJyutping, showsPinyin, pinyinDisplay } from '../services/lessonLanguage';
+import { Lesson, LessonLanguage, Sentence, AppMode, Word, GlossaryEntry } from '../types';
 import AudioRecorder from './AudioRecorder';
-import { ArrowLeft, Wand2, Save, Loader2, Printer, AlertCircle, RefreshCw, Clock, Edit3, Sparkles, Languages, Type as TypeIcon, Check, X } from 'lucide-react';
+import PassageSplitter from './PassageSplitter';
+import SyllableAligner from './SyllableAligner';
+import SegmentEditor from './SegmentEditor';
+import GlossaryEditor from './GlossaryEditor';
+import { hasTimings, clearTimings } from '../services/syllableTiming';
+import { segmentWords } from '../services/segmentation';
+import { sentenceAudio } from '../services/audioStore';
+import { ArrowLeft, Wand2, Save, Loader2, Printer, AlertCircle, RefreshCw, Clock, Edit3, Sparkles, Languages, Type as TypeIcon, Check, X, Scissors, Hand, AudioLines, Split } from 'lucide-react';
+
+const QUOTA_COOLDOWN_SEC = 50;
+const CUSTOM_READING = '__custom__';
 
 interface Props {
   onNavigate: (mode: AppMode) => void;
@@ -15,8 +30,9 @@ const LessonEditor: React.FC<Props> = ({ onNavigate, editLesson }) => {
   const { addLesson, updateLesson } = useData();
   const [title, setTitle] = useState(editLesson?.title || '');
   const [inputText, setInputText] = useState('');
-  const [mode, setMode] = useState<'cantonese' | 'mandarin'>('cantonese');
+  const [mode, setMode] = useState<LessonLanguage>(editLesson?.language || 'cantonese');
   const [sentences, setSentences] = useState<Sentence[]>(editLesson?.sentences || []);
+  const [glossary, setGlossary] = useState<GlossaryEntry[]>(editLesson?.glossary || []);
   const [isProcessing, setIsProcessing] = useState(false);
   const [step, setStep] = useState<1 | 2>(editLesson ? 2 : 1);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
@@ -25,6 +41,22 @@ const LessonEditor: React.FC<Props> = ({ onNavigate, editLesson }) => {
   // Bulk Edit State
   const [bulkEditId, setBulkEditId] = useState<string | null>(null);
   const [bulkEditText, setBulkEditText] = useState('');
+  const [bulkEditSystem, setBulkEditSystem] = useState<Romanisation>('jyutping');
+  const [bulkEditField, setBulkEditField] = useState<'jyutping' | 'pinyin'>('jyutping');
+
+  const [showPassageSplitter, setShowPassageSplitter] = useState(false);
+  const [aligningSentenceId, setAligningSentenceId] = useState<string | null>(null);
+  const [segmentingIds, setSegmentingIds] = useState<string[]>([]);
+
+  // TTS State
+  const [generatingIds, setGeneratingIds] = useState<string[]>([]);
+  const [ttsBatch, setTtsBatch] = useState<{ total: number; done: number; failed: number; isRunning: boolean } | null>(null);
+  const [ttsCooldown, setTtsCooldown] = useState(0);
+  const [isSaving, setIsSaving] = useState(false);
+  const ttsCancelRef = useRef(false);
+
+  // Leaving the editor stops a running batch
+  useEffect(() => () => { ttsCancelRef.current = true; }, []);
 
   useEffect(() => {
     let timer: any;
@@ -96,7 +128,9 @@ const LessonEditor: React.FC<Props> = ({ onNavigate, editLesson }) => {
     return {
         id: `sent-manual-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
         english: '',
-        words
+        // The bundled dictionary only knows Cantonese readings
+        words: showsJyutping(mode) ? annotateReadings(words) : words,
+        segments: segmentWords(words)
     };
   };
 
@@ -104,20 +138,26 @@ const LessonEditor: React.FC<Props> = ({ onNavigate, editLesson }) => {
     setSentences(prev => prev.map(s => s.id === id ? { ...s, ...field } : s));
   };
 
-  const openBulkEdit = (sentence: Sentence) => {
+  const openBulkEdit = (sentence: Sentence, field: 'jyutping' | 'pinyin') => {
     setBulkEditId(sentence.id);
+    setBulkEditField(field);
     const currentPhonetics = sentence.words
       .filter(w => /[\u4e00-\u9fa5]/.test(w.char))
-      .map(w => w.selectedJyutping)
+      .map(w => field === 'pinyin' ? w.pinyin || '' : w.selectedJyutping)
       .join(' ');
     setBulkEditText(currentPhonetics);
+    setBulkEditSystem('jyutping');
   };
 
   const applyBulkEdit = (id: string) => {
     const sentence = sentences.find(s => s.id === id);
     if (!sentence) return;
 
-    const phonetics = bulkEditText.trim().split(/\s+/);
+    // Yale or IPA pasted from other material is stored as Jyutping, tone-marked Pinyin as numbered Pinyin;
+    // unparseable tokens are kept as typed
+    const phonetics = bulkEditField === 'jyutping'
+      ? convertText(bulkEditText, bulkEditSystem, 'jyutping').result
+      : bulkEditText.trim().split(/\s+/).map(p => normalizePinyin(p) || p);
     let phoneticIdx = 0;
     
     const updatedWords = sentence.words.map(word => {
@@ -125,7 +165,9 @@ const LessonEditor: React.FC<Props> = ({ onNavigate, editLesson }) => {
         if (/[\u4e00-\u9fa5]/.test(word.char)) {
             const val = phonetics[phoneticIdx] || '';
             phoneticIdx++;
-            return { ...word, selectedJyutping: val };
+            if (bulkEditField === 'pinyin') return { ...word, pinyin: val };
+            // Typing a reading out in full counts as confirming it
+            return { ...word, selectedJyutping: val, needsReview: false };
         }
         return word;
     });
@@ -134,16 +176,129 @@ const LessonEditor: React.FC<Props> = ({ onNavigate, editLesson }) => {
     setBulkEditId(null);
   };
 
-  const saveLesson = () => {
+  // Any explicit choice by the teacher settles a flagged polyphone
+  const setWordReading = (sentenceId: string, wIdx: number, reading: string) => {
+    setSentences(prev => prev.map(s => s.id !== sentenceId ? s : {
+      ...s,
+      words: s.words.map((w, i) => i === wIdx ? { ...w, selectedJyutping: reading, needsReview: false } : w)
+    }));
+  };
+
+  const setWordPinyin = (sentenceId: string, wIdx: number, pinyin: string) => {
+    setSentences(prev => prev.map(s => s.id !== sentenceId ? s : {
+      ...s,
+      words: s.words.map((w, i) => i === wIdx ? { ...w, pinyin } : w)
+    }));
+  };
+
+  const unconfirmedCount = showsJyutping(mode) ? sentences.reduce((n, s) => n + s.words.filter(w => w.needsReview).length, 0) : 0;
+
+  const isInvalidJyutping = (word: Word) => showsJyutping(mode) && !!word.selectedJyutping.trim() && !isValidJyutping(word.selectedJyutping);
+  const isInvalidPinyin = (word: Word) => showsPinyin(mode) && !!word.pinyin?.trim() && !isValidPinyin(word.pinyin);
+  const isInvalidReading = (word: Word) => isInvalidJyutping(word) || isInvalidPinyin(word);
+  const invalidReadings = sentences.flatMap(s => s.words.flatMap(w => [
+    ...(isInvalidJyutping(w) ? [w.selectedJyutping] : []),
+    ...(isInvalidPinyin(w) ? [w.pinyin!] : [])
+  ]));
+
+  // Typos like "nei7" or "hao6" must not reach students, so nothing leaves the editor until they are fixed
+  const blockIfInvalid = () => {
+    if (invalidReadings.length === 0) return false;
+    alert(`有 ${invalidReadings.length} 个拼音无效（${[...new Set(invalidReadings)].slice(0, 5).join('、')}），已用红色标出，请修正后再保存或导出。`);
+    return true;
+  };
+
+  const handlePrint = () => {
+    if (blockIfInvalid()) return;
+    window.print();
+  };
+
+  // New audio invalidates any karaoke timings tapped against the old recording
+  const setSentenceAudio = (id: string, audioBase64: string) => {
+    setSentences(prev => prev.map(s => s.id === id ? { ...s, audioBase64, audioId: undefined, words: clearTimings(s.words) } : s));
+  };
+
+  // Homophone substitution: the teacher can feed TTS different characters that are pronounced correctly
+  const ttsTextFor = (sentence: Sentence) => sentence.ttsReplacementText?.trim() || sentence.words.map(w => w.char).join('');
+
+  const handleGenerateSpeech = async (sentence: Sentence) => {
+    setGeneratingIds(prev => [...prev, sentence.id]);
+    try {
+      const audio = await synthesizeSpeechCached(ttsTextFor(sentence));
+      setSentenceAudio(sentence.id, audio);
+    } catch (error: any) {
+      alert(error.message === "QUOTA_EXHAUSTED" ? "API 额度暂满，请稍后再试。" : error.message);
+    } finally {
+      setGeneratingIds(prev => prev.filter(id => id !== sentence.id));
+    }
+  };
+
+  const handleFillMissingAudio = async () => {
+    const queue = sentences
+      .filter(s => !sentenceAudio(s))
+      .map(s => ({ id: s.id, text: ttsTextFor(s) }))
+      .filter(item => item.text.trim());
+    if (queue.length === 0) return;
+
+    ttsCancelRef.current = false;
+    setTtsBatch({ total: queue.length, done: 0, failed: 0, isRunning: true });
+
+    for (const item of queue) {
+      while (!ttsCancelRef.current) {
+        setGeneratingIds(prev => [...prev, item.id]);
+        try {
+          const audio = await synthesizeSpeechCached(item.text);
+          setSentenceAudio(item.id, audio);
+          setTtsBatch(prev => prev && { ...prev, done: prev.done + 1 });
+          break;
+        } catch (error: any) {
+          if (error.message !== "QUOTA_EXHAUSTED") {
+            setTtsBatch(prev => prev && { ...prev, failed: prev.failed + 1 });
+            break;
+          }
+          // Free tier is limited per minute: wait it out, then retry the same sentence
+          for (let sec = QUOTA_COOLDOWN_SEC; sec > 0 && !ttsCancelRef.current; sec--) {
+            setTtsCooldown(sec);
+            await new Promise(resolve => setTimeout(resolve, 1000));
+          }
+          setTtsCooldown(0);
+        } finally {
+          setGeneratingIds(prev => prev.filter(id => id !== item.id));
+        }
+      }
+      if (ttsCancelRef.current) break;
+    }
+
+    setTtsCooldown(0);
+    setTtsBatch(prev => prev && { ...prev, isRunning: false });
+  };
+
+  const applyPassageSplit = (audioBySentenceId: Record<string, string>) => {
+    setSentences(prev => prev.map(s => audioBySentenceId[s.id] ? { ...s, audioBase64: audioBySentenceId[s.id], audioId: undefined, words: clearTimings(s.words) } : s));
+    setShowPassageSplitter(false);
+  };
+
+  const saveLesson = async () => {
+    if (isSaving) return;
     if (!title.trim()) { alert("请输入课程标题"); return; }
+    if (blockIfInvalid()) return;
+    if (unconfirmedCount > 0 && !window.confirm(`还有 ${unconfirmedCount} 个多音字未确认读音，仍要保存吗？`)) return;
+    // Spread the original so fields this screen doesn't edit (e.g. mediaUrl) survive a save
     const lessonData: Lesson = {
+      ...editLesson,
       id: editLesson?.id || `lesson-${Date.now()}`,
       title,
       createdAt: editLesson?.createdAt || Date.now(),
-      sentences
+      language: mode,
+      sentences,
+      // Entries whose example sentence was deleted keep the word but lose the link
+      glossary: glossary.map(e => e.exampleSentenceId && !sentences.some(s => s.id === e.exampleSentenceId) ? { ...e, exampleSentenceId: undefined } : e)
     };
-    if (editLesson) updateLesson(lessonData);
-    else addLesson(lessonData);
+    // New recordings go into the audio store first, which takes a while when they are re-encoded
+    setIsSaving(true);
+    if (editLesson) await updateLesson(lessonData);
+    else await addLesson(lessonData);
+    setIsSaving(false);
     onNavigate(AppMode.TEACHER_DASHBOARD);
   };
 
@@ -170,7 +325,8 @@ const LessonEditor: React.FC<Props> = ({ onNavigate, editLesson }) => {
                       <div className="flex flex-wrap gap-x-6 gap-y-6 mb-4 items-end">
                           {s.words.map((w, wi) => (
                               <div key={wi} className="flex flex-col items-center">
-                                  <span className="text-base font-bold text-teal-600 mb-1">{w.selectedJyutping}</span>
+                                  {showsJyutping(mode) && <span className="text-base font-bold text-teal-600 mb-1">{w.selectedJyutping}</span>}
+                                  {showsPinyin(mode) && <span className="text-base font-bold text-orange-600 mb-1">{pinyinDisplay(w)}</span>}
                                   <span className="text-4xl font-serif text-gray-900">{w.char}</span>
                               </div>
                           ))}
@@ -202,6 +358,7 @@ const LessonEditor: React.FC<Props> = ({ onNavigate, editLesson }) => {
           <div className="flex p-1 bg-gray-100 rounded-2xl border border-gray-200">
              <button onClick={() => setMode('cantonese')} className={`flex-1 py-3 rounded-xl text-sm font-bold flex items-center justify-center gap-2 transition-all ${mode === 'cantonese' ? 'bg-white text-teal-600 shadow-sm' : 'text-gray-500'}`}><Languages size={18}/> 粤语 (Jyutping)</button>
              <button onClick={() => setMode('mandarin')} className={`flex-1 py-3 rounded-xl text-sm font-bold flex items-center justify-center gap-2 transition-all ${mode === 'mandarin' ? 'bg-white text-orange-600 shadow-sm' : 'text-gray-500'}`}><TypeIcon size={18}/> 普通话 (Pinyin)</button>
+             <button onClick={() => setMode('bilingual')} className={`flex-1 py-3 rounded-xl text-sm font-bold flex items-center justify-center gap-2 transition-all ${mode === 'bilingual' ? 'bg-white text-indigo-600 shadow-sm' : 'text-gray-500'}`}><Languages size={18}/> 双语</button>
           </div>
         </div>
       </div>
@@ -240,7 +397,7 @@ const LessonEditor: React.FC<Props> = ({ onNavigate, editLesson }) => {
             <button 
                 onClick={handleAIProcess} 
                 disabled={isProcessing || !inputText.trim() || retryCountdown > 0} 
-                className={`flex justify-center items-center gap-3 py-5 rounded-[2rem] font-bold text-lg transition-all active:scale-95 disabled:opacity-50 shadow-xl ${mode === 'cantonese' ? 'bg-teal-600 text-white shadow-teal-600/20' : 'bg-orange-600 text-white shadow-orange-600/20'}`}
+                className={`flex justify-center items-center gap-3 py-5 rounded-[2rem] font-bold text-lg transition-all active:scale-95 disabled:opacity-50 shadow-xl ${mode === 'mandarin' ? 'bg-orange-600 text-white shadow-orange-600/20' : 'bg-teal-600 text-white shadow-teal-600/20'}`}
             >
                 {isProcessing ? <><Loader2 className="animate-spin" /> 正在深度分析文本...</> : <><Wand2 /> AI 智能识别 (粤拼/拼音)</>}
             </button>
@@ -251,6 +408,59 @@ const LessonEditor: React.FC<Props> = ({ onNavigate, editLesson }) => {
         </div>
       ) : (
         <div className="space-y-12 no-print animate-fade-in pb-20">
+          {sentences.length > 0 && (
+            <div className="flex justify-end gap-2 -mb-6">
+              {(unconfirmedCount > 0 || invalidReadings.length > 0) && (
+                <div className="mr-auto flex gap-2">
+                  {invalidReadings.length > 0 && (
+                    <span className="text-xs font-bold text-red-600 bg-red-50 px-4 py-2 rounded-full flex items-center gap-1.5"><AlertCircle size={14}/> {invalidReadings.length} 个拼音无效</span>
+                  )}
+                  {unconfirmedCount > 0 && (
+                    <span className="text-xs font-bold text-amber-700 bg-amber-50 px-4 py-2 rounded-full flex items-center gap-1.5"><AlertCircle size={14}/> {unconfirmedCount} 个多音字待确认读音</span>
+                  )}
+                </div>
+              )}
+              <button onClick={handleFillMissingAudio} disabled={ttsBatch?.isRunning || sentences.every(s => sentenceAudio(s))} className="text-xs font-bold text-indigo-600 bg-indigo-50 px-4 py-2 rounded-full hover:bg-indigo-100 flex items-center gap-1.5 disabled:opacity-40">
+                <AudioLines size={14}/> AI 补全缺失语音
+              </button>
+              <button onClick={() => setShowPassageSplitter(true)} className="text-xs font-bold text-teal-600 bg-teal-50 px-4 py-2 rounded-full hover:bg-teal-100 flex items-center gap-1.5">
+                <Scissors size={14}/> 整段录音自动分句
+              </button>
+            </div>
+          )}
+          {ttsBatch && (
+            <div className="bg-indigo-50 border border-indigo-100 rounded-3xl p-5 flex flex-col gap-3 animate-fade-in">
+              <div className="flex justify-between items-center text-sm">
+                <span className="font-bold text-indigo-900 flex items-center gap-2">
+                  {ttsBatch.isRunning && <Loader2 size={16} className="animate-spin"/>}
+                  AI 语音生成 {ttsBatch.done}/{ttsBatch.total}
+                  {ttsBatch.failed > 0 && <span className="text-red-500 text-xs">（{ttsBatch.failed} 句失败）</span>}
+                </span>
+                {ttsBatch.isRunning ? (
+                  <button onClick={() => { ttsCancelRef.current = true; }} className="text-xs font-bold text-indigo-500 hover:text-indigo-800">停止</button>
+                ) : (
+                  <button onClick={() => setTtsBatch(null)} className="text-indigo-300 hover:text-indigo-700"><X size={16}/></button>
+                )}
+              </div>
+              <div className="h-2 bg-white rounded-full overflow-hidden">
+                <div className="h-full bg-indigo-500 transition-all" style={{ width: `${((ttsBatch.done + ttsBatch.failed) / ttsBatch.total) * 100}%` }}></div>
+              </div>
+              {ttsCooldown > 0 && (
+                <p className="text-xs text-amber-700 flex items-center gap-1.5"><Clock size={14}/> API 额度暂满，{ttsCooldown} 秒后自动继续...</p>
+              )}
+            </div>
+          )}
+          {aligningSentenceId && sentences.find(s => s.id === aligningSentenceId) && (
+            <SyllableAligner
+              sentence={sentences.find(s => s.id === aligningSentenceId)!}
+              language={mode}
+              onSave={(words) => { updateSentence(aligningSentenceId, { words }); setAligningSentenceId(null); }}
+              onClose={() => setAligningSentenceId(null)}
+            />
+          )}
+          {showPassageSplitter && (
+            <PassageSplitter sentences={sentences} onApply={applyPassageSplit} onClose={() => setShowPassageSplitter(false)} />
+          )}
           <div className="space-y-8">
             {sentences.map((sentence) => (
               <div key={sentence.id} className="border border-gray-100 rounded-[2.5rem] p-8 shadow-sm bg-white hover:border-teal-200 transition-all relative">
@@ -259,11 +469,27 @@ const LessonEditor: React.FC<Props> = ({ onNavigate, editLesson }) => {
                 <div className="flex justify-between items-center mb-6">
                     <span className="text-[10px] font-black text-gray-300 uppercase tracking-[0.2em]">Sentence {sentences.indexOf(sentence) + 1}</span>
                     <div className="flex gap-2">
-                        <button 
-                            onClick={() => openBulkEdit(sentence)} 
-                            className="text-xs font-bold text-teal-600 bg-teal-50 px-3 py-1.5 rounded-full hover:bg-teal-100 flex items-center gap-1.5"
+                        {showsJyutping(mode) && (
+                          <button 
+                              onClick={() => openBulkEdit(sentence, 'jyutping')} 
+                              className="text-xs font-bold text-teal-600 bg-teal-50 px-3 py-1.5 rounded-full hover:bg-teal-100 flex items-center gap-1.5"
+                          >
+                              <Edit3 size={14}/> {mode === 'bilingual' ? '整行编辑粤拼' : '整行编辑拼音'}
+                          </button>
+                        )}
+                        {showsPinyin(mode) && (
+                          <button 
+                              onClick={() => openBulkEdit(sentence, 'pinyin')} 
+                              className="text-xs font-bold text-orange-600 bg-orange-50 px-3 py-1.5 rounded-full hover:bg-orange-100 flex items-center gap-1.5"
+                          >
+                              <Edit3 size={14}/> 整行编辑拼音
+                          </button>
+                        )}
+                        <button
+                            onClick={() => setSegmentingIds(prev => prev.includes(sentence.id) ? prev.filter(id => id !== sentence.id) : [...prev, sentence.id])}
+                            className={`text-xs font-bold px-3 py-1.5 rounded-full flex items-center gap-1.5 ${segmentingIds.includes(sentence.id) ? 'bg-sky-600 text-white' : 'text-sky-700 bg-sky-50 hover:bg-sky-100'}`}
                         >
-                            <Edit3 size={14}/> 整行编辑拼音
+                            <Split size={14}/> 分词{sentence.segments?.length ? ` (${sentence.segments.length})` : ''}
                         </button>
                         <button 
                             onClick={() => setSentences(prev => prev.filter(s => s.id !== sentence.id))}
@@ -277,37 +503,82 @@ const LessonEditor: React.FC<Props> = ({ onNavigate, editLesson }) => {
                 {/* Words Row with Character Display */}
                 <div className="flex flex-wrap gap-x-4 gap-y-8 mb-8 items-end">
                   {sentence.words.map((word, wIdx) => (
-                    <div key={wIdx} className="flex flex-col items-center">
-                        <input 
-                          type="text" 
-                          value={word.selectedJyutping} 
-                          onChange={(e) => {
-                             const newWords = [...sentence.words];
-                             newWords[wIdx].selectedJyutping = e.target.value;
-                             updateSentence(sentence.id, { words: newWords });
-                          }}
-                          className={`text-xs font-black text-center w-14 mb-1 border-none focus:ring-0 p-0 bg-transparent placeholder-gray-200 ${mode === 'cantonese' ? 'text-teal-600' : 'text-orange-600'}`}
-                          placeholder="..."
-                        />
+                    <div key={wIdx} className={`flex flex-col items-center rounded-lg ${isInvalidReading(word) ? 'bg-red-50 ring-2 ring-red-300 px-1' : word.needsReview ? 'bg-amber-50 ring-2 ring-amber-300 px-1' : ''}`} title={isInvalidJyutping(word) ? '粤拼无效：请检查声母、韵母和声调 (1-6)' : isInvalidPinyin(word) ? '拼音无效：请检查拼写和声调 (1-5)' : word.needsReview ? '多音字：请确认读音' : undefined}>
+                        {!showsJyutping(mode) ? null : isPolyphone(word) && word.jyutping.includes(word.selectedJyutping) ? (
+                          <select
+                            value={word.selectedJyutping}
+                            onChange={(e) => setWordReading(sentence.id, wIdx, e.target.value === CUSTOM_READING ? '' : e.target.value)}
+                            className={`text-xs font-black text-center w-16 mb-1 border-none focus:ring-0 p-0 bg-transparent cursor-pointer ${word.needsReview ? 'text-amber-700' : 'text-teal-600'}`}
+                          >
+                            {word.jyutping.map(j => <option key={j} value={j}>{j}</option>)}
+                            <option value={CUSTOM_READING}>其他…</option>
+                          </select>
+                        ) : (
+                          <input 
+                            type="text" 
+                            value={word.selectedJyutping} 
+                            onChange={(e) => setWordReading(sentence.id, wIdx, e.target.value)}
+                            className={`text-xs font-black text-center w-14 mb-1 border-none focus:ring-0 p-0 bg-transparent placeholder-gray-200 ${isInvalidJyutping(word) ? 'text-red-600' : 'text-teal-600'}`}
+                            placeholder="..."
+                          />
+                        )}
+                        {showsPinyin(mode) && (
+                          // Tone marks and "v" for ü are accepted while typing and stored as numbered Pinyin
+                          <input
+                            type="text"
+                            value={word.pinyin || ''}
+                            onChange={(e) => setWordPinyin(sentence.id, wIdx, e.target.value)}
+                            onBlur={(e) => setWordPinyin(sentence.id, wIdx, normalizePinyin(e.target.value) || e.target.value.trim())}
+                            className={`text-xs font-black text-center w-14 mb-1 border-none focus:ring-0 p-0 bg-transparent placeholder-gray-200 ${isInvalidPinyin(word) ? 'text-red-600' : 'text-orange-600'}`}
+                            placeholder="..."
+                            title={pinyinDisplay(word) || undefined}
+                          />
+                        )}
                         <span className="text-3xl font-serif text-gray-800">{word.char}</span>
+                        {word.needsReview && (
+                          <button onClick={() => setWordReading(sentence.id, wIdx, word.selectedJyutping)} className="text-[10px] font-bold text-amber-700 hover:text-amber-900 flex items-center gap-0.5 mt-0.5"><Check size={10}/> 确认</button>
+                        )}
                     </div>
                   ))}
                 </div>
 
+                {segmentingIds.includes(sentence.id) && (
+                    <SegmentEditor words={sentence.words} segments={sentence.segments} onChange={(segments) => updateSentence(sentence.id, { segments })} />
+                )}
+
                 {/* Bulk Edit Overlay */}
                 {bulkEditId === sentence.id && (
                     <div className="absolute inset-0 z-10 bg-white/95 rounded-[2.5rem] flex flex-col p-8 animate-fade-in border-2 border-teal-500">
                         <div className="flex justify-between items-center mb-4">
-                            <h4 className="font-bold text-gray-800 flex items-center gap-2"><Edit3 size={18} className="text-teal-600"/> 批量编辑拼音</h4>
-                            <p className="text-[10px] text-gray-400 uppercase font-black tracking-widest">空格分隔每个字</p>
+                            <h4 className="font-bold text-gray-800 flex items-center gap-2"><Edit3 size={18} className="text-teal-600"/> {bulkEditField === 'pinyin' ? '批量编辑普通话拼音' : '批量编辑粤拼'}</h4>
+                            <div className="flex items-center gap-3">
+                                {bulkEditField === 'jyutping' && (
+                                    <select value={bulkEditSystem} onChange={(e) => setBulkEditSystem(e.target.value as Romanisation)} className="text-xs font-bold text-gray-600 border border-gray-200 rounded-lg px-2 py-1" title="粘贴内容使用的拼音方案，应用时自动转换为粤拼">
+                                        {(Object.keys(ROMANISATION_LABELS) as Romanisation[]).map(r => <option key={r} value={r}>{ROMANISATION_LABELS[r]}</option>)}
+                                    </select>
+                                )}
+                                <p className="text-[10px] text-gray-400 uppercase font-black tracking-widest">空格分隔每个字</p>
+                            </div>
                         </div>
                         <textarea 
                             autoFocus
                             value={bulkEditText}
                             onChange={(e) => setBulkEditText(e.target.value)}
                             className="flex-1 p-6 border-2 border-teal-100 rounded-2xl outline-none focus:border-teal-500 font-mono text-lg leading-relaxed bg-teal-50/30"
-                            placeholder="例如：nei5 hou2 ma3..."
+                            placeholder={bulkEditField === 'pinyin' ? '例如：ni3 hao3 ma5 或 nǐ hǎo ma...' : '例如：nei5 hou2 maa3...'}
                         />
+                        {bulkEditField === 'pinyin' && bulkEditText.trim() && (() => {
+                            const unknown = bulkEditText.trim().split(/\s+/).filter(p => !isValidPinyin(p));
+                            return unknown.length > 0 && (
+                                <p className="mt-2 text-xs font-bold text-red-600 flex items-center gap-1.5"><AlertCircle size={14}/> 无法识别：{unknown.join('、')}</p>
+                            );
+                        })()}
+                        {bulkEditField === 'jyutping' && bulkEditText.trim() && (() => {
+                            const unknown = convertText(bulkEditText, bulkEditSystem, 'jyutping').unknown;
+                            return unknown.length > 0 && (
+                                <p className="mt-2 text-xs font-bold text-red-600 flex items-center gap-1.5"><AlertCircle size={14}/> 无法识别：{unknown.join('、')}</p>
+                            );
+                        })()}
                         <div className="mt-4 flex gap-3">
                             <button onClick={() => applyBulkEdit(sentence.id)} className="flex-1 bg-teal-600 text-white py-4 rounded-xl font-bold flex items-center justify-center gap-2 hover:bg-teal-700 shadow-lg"><Check size={20}/> 应用修改</button>
                             <button onClick={() => setBulkEditId(null)} className="px-6 py-4 border border-gray-200 text-gray-500 rounded-xl font-bold hover:bg-gray-50">取消</button>
@@ -325,11 +596,39 @@ const LessonEditor: React.FC<Props> = ({ onNavigate, editLesson }) => {
                           placeholder="输入英文翻译..."
                         />
                     </div>
+
+                    <div className="flex items-center gap-2">
+                        <input
+                          type="text"
+                          value={sentence.ttsReplacementText || ''}
+                          onChange={(e) => updateSentence(sentence.id, { ttsReplacementText: e.target.value })}
+                          className="flex-1 bg-indigo-50/30 px-4 py-2.5 rounded-2xl border-none outline-none focus:ring-2 focus:ring-indigo-100 text-sm text-gray-700 placeholder-gray-300"
+                          placeholder="AI 配音替换文本（可选：用同音字纠正读音）"
+                        />
+                        <button
+                          onClick={() => handleGenerateSpeech(sentence)}
+                          disabled={generatingIds.includes(sentence.id) || !ttsTextFor(sentence).trim()}
+                          className="shrink-0 text-xs font-bold text-indigo-600 bg-indigo-50 px-3 py-2.5 rounded-2xl hover:bg-indigo-100 flex items-center gap-1.5 disabled:opacity-50"
+                        >
+                          {generatingIds.includes(sentence.id) ? <Loader2 size={14} className="animate-spin"/> : <AudioLines size={14}/>} AI 配音
+                        </button>
+                    </div>
                     
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                         <div className="bg-gray-50/50 p-4 rounded-[1.5rem] flex justify-between items-center border border-gray-50">
                           <span className="text-[10px] font-black text-gray-400 uppercase tracking-widest">老师录音</span>
-                          <AudioRecorder existingAudio={sentence.audioBase64} onSave={(base64) => updateSentence(sentence.id, { audioBase64: base64 })} />
+                          <div className="flex items-center gap-2">
+                            {sentenceAudio(sentence) && (
+                              <button
+                                onClick={() => setAligningSentenceId(sentence.id)}
+                                className={`text-[10px] font-bold px-2.5 py-1.5 rounded-full flex items-center gap-1 ${hasTimings(sentence.words) ? 'bg-teal-600 text-white' : 'bg-white text-teal-600 border border-teal-100 hover:bg-teal-50'}`}
+                                title="逐字对齐，用于学生端卡拉OK高亮"
+                              >
+                                <Hand size={12}/> {hasTimings(sentence.words) ? '已对齐' : '逐字对齐'}
+                              </button>
+                            )}
+                            <AudioRecorder existingAudio={sentenceAudio(sentence)} onSave={(base64) => setSentenceAudio(sentence.id, base64)} />
+                          </div>
                         </div>
                         <div className="bg-orange-50/30 p-4 rounded-[1.5rem] border border-orange-50">
                           <textarea 
@@ -345,13 +644,15 @@ const LessonEditor: React.FC<Props> = ({ onNavigate, editLesson }) => {
             ))}
           </div>
 
+          <GlossaryEditor glossary={glossary} sentences={sentences} language={mode} onChange={setGlossary} />
+
           {/* Action Bar */}
           <div className="fixed bottom-8 left-1/2 -translate-x-1/2 w-full max-w-2xl px-6 flex gap-4 z-50">
-              <button onClick={() => window.print()} className="flex-1 py-5 bg-white border-2 border-teal-600 text-teal-600 rounded-[2rem] font-bold flex items-center justify-center gap-3 shadow-2xl hover:bg-teal-50 transition-all active:scale-95">
+              <button onClick={handlePrint} className="flex-1 py-5 bg-white border-2 border-teal-600 text-teal-600 rounded-[2rem] font-bold flex items-center justify-center gap-3 shadow-2xl hover:bg-teal-50 transition-all active:scale-95">
                 <Printer size={22} /> 导出 PDF
               </button>
-              <button onClick={saveLesson} className="flex-1 py-5 bg-teal-600 text-white rounded-[2rem] hover:bg-teal-700 font-bold flex items-center justify-center gap-3 shadow-2xl transition-all active:scale-95">
-                <Save size={22} /> 保存课程
+              <button onClick={saveLesson} disabled={isSaving} className="flex-1 py-5 bg-teal-600 text-white rounded-[2rem] hover:bg-teal-700 font-bold flex items-center justify-center gap-3 shadow-2xl transition-all active:scale-95 disabled:opacity-60">
+                {isSaving ? <Loader2 size={22} className="animate-spin" /> : <Save size={22} />} {isSaving ? '保存中...' : '保存课程'}
               </button>
           </div>
         </div>
@@ -0,0 +1,232 @@
+import React, { useState, useRef, useMemo, useEffect } from 'react';
+import { Mic, Square, Loader2, Play, Check, X, Upload, Scissors } from 'lucide-react';
+import { Sentence } from '../types';
+import { startBoostedRecording, RecordingSession } from '../services/audioCapture';
+import { decodeAudioSource, toMono, resampleToMono, encodeWavDataUrl } from '../services/audioUtils';
+import { detectPauses, findSpeechBounds, proposeCutPoints } from '../services/passageSplitter';
+
+interface Props {
+  sentences: Sentence[];
+  onApply: (audioBySentenceId: Record<string, string>) => void;
+  onClose: () => void;
+}
+
+const WIDTH = 800;
+const HEIGHT = 140;
+const OUTPUT_RATE = 24000;
+const MIN_SEGMENT_SEC = 0.2;
+
+const PassageSplitter: React.FC<Props> = ({ sentences, onApply, onClose }) => {
+  const [phase, setPhase] = useState<'idle' | 'recording' | 'processing' | 'editing'>('idle');
+  const [buffer, setBuffer] = useState<AudioBuffer | null>(null);
+  const [edges, setEdges] = useState<number[]>([]); // sentences.length + 1 boundaries in seconds
+  const [dragging, setDragging] = useState<number | null>(null);
+  const [playingIdx, setPlayingIdx] = useState<number | null>(null);
+
+  const sessionRef = useRef<RecordingSession | null>(null);
+  const svgRef = useRef<SVGSVGElement | null>(null);
+  const playbackCtxRef = useRef<AudioContext | null>(null);
+  const playbackNodeRef = useRef<AudioBufferSourceNode | null>(null);
+
+  useEffect(() => () => {
+    playbackNodeRef.current?.stop();
+    playbackCtxRef.current?.close();
+  }, []);
+
+  const analyse = async (src: string) => {
+    setPhase('processing');
+    try {
+      const decoded = await decodeAudioSource(src);
+      const mono = toMono(decoded);
+      const pauses = detectPauses(mono, decoded.sampleRate);
+      const bounds = findSpeechBounds(mono, decoded.sampleRate, pauses);
+      const cuts = proposeCutPoints(pauses, bounds, sentences);
+      setBuffer(decoded);
+      setEdges([bounds.start, ...cuts, bounds.end]);
+      setPhase('editing');
+    } catch (e) {
+      console.error("Passage analysis failed", e);
+      alert("无法读取这段录音，请重试。");
+      setPhase('idle');
+    }
+  };
+
+  const startRecording = async () => {
+    try {
+      sessionRef.current = await startBoostedRecording();
+      setPhase('recording');
+    } catch (err) {
+      console.error("Error accessing microphone:", err);
+      alert("Microphone access is required to record audio.");
+    }
+  };
+
+  const stopRecording = async () => {
+    if (!sessionRef.current) return;
+    const session = sessionRef.current;
+    sessionRef.current = null;
+    const blob = await session.stop();
+    await analyse(URL.createObjectURL(blob));
+  };
+
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) await analyse(URL.createObjectURL(file));
+  };
+
+  // Min/max per pixel column for drawing
+  const waveformPath = useMemo(() => {
+    if (!buffer) return '';
+    const mono = toMono(buffer);
+    const perColumn = Math.max(1, Math.floor(mono.length / WIDTH));
+    let d = '';
+    for (let x = 0; x < WIDTH; x++) {
+      let min = 0, max = 0;
+      for (let i = x * perColumn; i < (x + 1) * perColumn && i < mono.length; i++) {
+        if (mono[i] < min) min = mono[i];
+        if (mono[i] > max) max = mono[i];
+      }
+      d += `M${x},${(HEIGHT / 2) * (1 - max)} L${x},${(HEIGHT / 2) * (1 - min)} `;
+    }
+    return d;
+  }, [buffer]);
+
+  const duration = buffer?.duration || 1;
+  const xFor = (t: number) => (t / duration) * WIDTH;
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (dragging === null || !svgRef.current) return;
+    const rect = svgRef.current.getBoundingClientRect();
+    const t = ((e.clientX - rect.left) / rect.width) * duration;
+    setEdges(prev => {
+      const next = [...prev];
+      const lower = dragging > 0 ? prev[dragging - 1] + MIN_SEGMENT_SEC : 0;
+      const upper = dragging < prev.length - 1 ? prev[dragging + 1] - MIN_SEGMENT_SEC : duration;
+      next[dragging] = Math.min(upper, Math.max(lower, t));
+      return next;
+    });
+  };
+
+  const playSegment = (idx: number) => {
+    if (!buffer) return;
+    playbackNodeRef.current?.stop();
+    if (playingIdx === idx) {
+      setPlayingIdx(null);
+      return;
+    }
+    if (!playbackCtxRef.current) {
+      const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+      playbackCtxRef.current = new AudioContextClass();
+    }
+    const ctx = playbackCtxRef.current!;
+    const node = ctx.createBufferSource();
+    node.buffer = buffer;
+    node.connect(ctx.destination);
+    node.onended = () => {
+      if (playbackNodeRef.current === node) setPlayingIdx(null);
+    };
+    node.start(0, edges[idx], edges[idx + 1] - edges[idx]);
+    playbackNodeRef.current = node;
+    setPlayingIdx(idx);
+  };
+
+  const handleConfirm = async () => {
+    if (!buffer) return;
+    setPhase('processing');
+    try {
+      const samples = await resampleToMono(buffer, OUTPUT_RATE);
+      const result: Record<string, string> = {};
+      sentences.forEach((s, i) => {
+        const from = Math.floor(edges[i] * OUTPUT_RATE);
+        const to = Math.min(samples.length, Math.ceil(edges[i + 1] * OUTPUT_RATE));
+        result[s.id] = encodeWavDataUrl(samples.subarray(from, to), OUTPUT_RATE);
+      });
+      onApply(result);
+    } catch (e) {
+      console.error("Failed to cut passage", e);
+      alert("切分失败，请重试。");
+      setPhase('editing');
+    }
+  };
+
+  const previewText = (s: Sentence) => s.words.map(w => w.char).join('').slice(0, 12);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-[60] flex items-center justify-center p-4">
+      <div className="bg-white rounded-[2rem] shadow-2xl max-w-4xl w-full p-8 animate-fade-in max-h-[90vh] overflow-auto">
+        <div className="flex justify-between items-center mb-6">
+          <h3 className="text-xl font-bold text-gray-800 flex items-center gap-2"><Scissors className="text-teal-600" size={22}/> 整段录音自动分句</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-700"><X /></button>
+        </div>
+
+        {(phase === 'idle' || phase === 'recording') && (
+          <div className="text-center py-10 space-y-6">
+            <p className="text-sm text-gray-500">一口气朗读全部 {sentences.length} 个句子，句与句之间稍作停顿，系统会自动找到切分点。</p>
+            {phase === 'recording' ? (
+              <button onClick={stopRecording} className="mx-auto flex items-center gap-3 px-8 py-4 rounded-full bg-red-600 text-white font-bold text-lg animate-pulse shadow-xl">
+                <Square size={22} fill="currentColor" /> 结束录音
+              </button>
+            ) : (
+              <div className="flex flex-col items-center gap-4">
+                <button onClick={startRecording} className="flex items-center gap-3 px-8 py-4 rounded-full bg-teal-600 text-white font-bold text-lg hover:bg-teal-700 shadow-xl">
+                  <Mic size={22} /> 开始录制整段
+                </button>
+                <label className="flex items-center gap-2 text-xs font-bold text-gray-500 cursor-pointer hover:text-teal-600">
+                  <Upload size={14} /> 或上传已有录音文件
+                  <input type="file" accept="audio/*" className="hidden" onChange={handleFileUpload} />
+                </label>
+              </div>
+            )}
+          </div>
+        )}
+
+        {phase === 'processing' && (
+          <div className="flex items-center justify-center gap-3 py-16 text-gray-500"><Loader2 className="animate-spin" /> 正在分析录音...</div>
+        )}
+
+        {phase === 'editing' && buffer && (
+          <div className="space-y-6">
+            <p className="text-xs text-gray-500">拖动竖线调整每句的起止位置，点击句子编号试听。</p>
+            <svg
+              ref={svgRef}
+              viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+              className="w-full bg-gray-50 rounded-2xl border border-gray-100 touch-none select-none"
+              onPointerMove={handlePointerMove}
+              onPointerUp={() => setDragging(null)}
+              onPointerLeave={() => setDragging(null)}
+            >
+              {sentences.map((_, i) => (
+                <rect key={i} x={xFor(edges[i])} y={0} width={Math.max(0, xFor(edges[i + 1]) - xFor(edges[i]))} height={HEIGHT} fill={i % 2 === 0 ? '#ccfbf1' : '#ffedd5'} opacity={playingIdx === i ? 1 : 0.6} />
+              ))}
+              <path d={waveformPath} stroke="#6b7280" strokeWidth={1} />
+              {edges.map((t, i) => (
+                <g key={i} onPointerDown={() => setDragging(i)} className="cursor-ew-resize">
+                  <line x1={xFor(t)} x2={xFor(t)} y1={0} y2={HEIGHT} stroke={dragging === i ? '#dc2626' : '#0d9488'} strokeWidth={2} />
+                  <rect x={xFor(t) - 6} y={HEIGHT / 2 - 12} width={12} height={24} rx={4} fill={dragging === i ? '#dc2626' : '#0d9488'} />
+                </g>
+              ))}
+            </svg>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+              {sentences.map((s, i) => (
+                <button key={s.id} onClick={() => playSegment(i)} className={`flex items-center gap-3 text-left px-4 py-2 rounded-xl border text-sm transition ${playingIdx === i ? 'bg-teal-600 text-white border-teal-600' : 'bg-white border-gray-100 hover:border-teal-300'}`}>
+                  <Play size={14} className="shrink-0" />
+                  <span className="font-black text-xs opacity-60">{i + 1}</span>
+                  <span className="truncate font-serif">{previewText(s)}</span>
+                  <span className="ml-auto text-[10px] opacity-60">{(edges[i + 1] - edges[i]).toFixed(1)}s</span>
+                </button>
+              ))}
+            </div>
+
+            <div className="flex gap-3">
+              <button onClick={handleConfirm} className="flex-1 bg-teal-600 text-white py-4 rounded-xl font-bold flex items-center justify-center gap-2 hover:bg-teal-700 shadow-lg"><Check size={20}/> 写入每个句子的录音</button>
+              <button onClick={() => { setBuffer(null); setPhase('idle'); }} className="px-6 py-4 border border-gray-200 text-gray-500 rounded-xl font-bold hover:bg-gray-50">重新录制</button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PassageSplitter;
@@ -0,0 +1,113 @@
+import React, { useState, useEffect } from 'react';
+import { Loader2 } from 'lucide-react';
+import { LessonLanguage, Word } from '../types';
+import { primaryReading } from '../services/lessonLanguage';
+import { getPitchTrack, toChaoScale, segmentSyllables, PitchTrack, SyllableSpan } from '../services/pitch';
+
+interface Props {
+  words: Word[];
+  language: LessonLanguage;
+  teacherAudio?: string;
+  studentAudio?: string;
+}
+
+const WIDTH = 600;
+const HEIGHT = 110;
+const PAD_Y = 10;
+
+// Chao scale 1 (low) .. 5 (high) mapped onto the panel height
+const yFor = (level: number) => PAD_Y + ((5 - level) / 4) * (HEIGHT - PAD_Y * 2);
+
+const ContourPanel: React.FC<{ label: string; color: string; track: PitchTrack; syllables: string[]; knownSpans?: SyllableSpan[] }> = ({ label, color, track, syllables, knownSpans }) => {
+  const levels = toChaoScale(track);
+  const spans = knownSpans || segmentSyllables(track, syllables.length);
+  const xFor = (seconds: number) => (seconds / track.duration) * WIDTH;
+
+  // One path segment per continuous voiced run
+  let path = '';
+  let penDown = false;
+  levels.forEach((level, i) => {
+    if (level === null) {
+      penDown = false;
+      return;
+    }
+    path += `${penDown ? 'L' : 'M'}${xFor(i * track.hop).toFixed(1)},${yFor(level).toFixed(1)} `;
+    penDown = true;
+  });
+
+  return (
+    <div>
+      <div className="text-[10px] font-bold uppercase tracking-widest mb-1" style={{ color }}>{label}</div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT + 16}`} className="w-full bg-white rounded-lg border border-gray-100">
+        {[1, 2, 3, 4, 5].map(level => (
+          <g key={level}>
+            <line x1={0} x2={WIDTH} y1={yFor(level)} y2={yFor(level)} stroke="#f3f4f6" strokeWidth={1} />
+            <text x={4} y={yFor(level) - 2} fontSize={8} fill="#d1d5db">{level}</text>
+          </g>
+        ))}
+        {spans.map((span, i) => (
+          <g key={i}>
+            {i > 0 && <line x1={xFor(span.start)} x2={xFor(span.start)} y1={0} y2={HEIGHT} stroke="#e5e7eb" strokeDasharray="3 3" />}
+            <text x={xFor((span.start + span.end) / 2)} y={HEIGHT + 12} fontSize={10} textAnchor="middle" fill="#6b7280">{syllables[i]}</text>
+          </g>
+        ))}
+        <path d={path} fill="none" stroke={color} strokeWidth={2.5} strokeLinecap="round" strokeLinejoin="round" />
+      </svg>
+    </div>
+  );
+};
+
+const PitchContourChart: React.FC<Props> = ({ words, language, teacherAudio, studentAudio }) => {
+  const [teacherTrack, setTeacherTrack] = useState<PitchTrack | null>(null);
+  const [studentTrack, setStudentTrack] = useState<PitchTrack | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Syllable labels come from the characters that actually carry a reading
+  const readWords = words.filter(w => primaryReading(w, language));
+  const syllables = readWords.map(w => primaryReading(w, language));
+
+  // Teacher-tapped karaoke timings beat energy-based guessing, but only apply to the teacher clip
+  const teacherSpans = readWords.length > 0 && readWords.every(w => w.startMs !== undefined && w.endMs !== undefined)
+    ? readWords.map(w => ({ start: w.startMs! / 1000, end: w.endMs! / 1000 }))
+    : undefined;
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    Promise.all([
+      teacherAudio ? getPitchTrack(teacherAudio) : Promise.resolve(null),
+      studentAudio ? getPitchTrack(studentAudio) : Promise.resolve(null)
+    ])
+      .then(([t, s]) => {
+        if (cancelled) return;
+        setTeacherTrack(t);
+        setStudentTrack(s);
+      })
+      .catch(err => {
+        console.error("Pitch analysis failed", err);
+        if (!cancelled) setError("Could not analyse this recording.");
+      })
+      .finally(() => { if (!cancelled) setIsLoading(false); });
+    return () => { cancelled = true; };
+  }, [teacherAudio, studentAudio]);
+
+  if (isLoading) {
+    return <div className="flex items-center gap-2 text-xs text-gray-400 p-3"><Loader2 size={14} className="animate-spin" /> Analysing pitch...</div>;
+  }
+  if (error) return <div className="text-xs text-red-500 p-3">{error}</div>;
+
+  return (
+    <div className="space-y-3 p-3 bg-gray-50 rounded-xl border border-gray-100">
+      {teacherTrack && <ContourPanel label="Teacher" color="#0d9488" track={teacherTrack} syllables={syllables} knownSpans={teacherSpans} />}
+      {studentTrack ? (
+        <ContourPanel label="Me" color="#6366f1" track={studentTrack} syllables={syllables} />
+      ) : (
+        <p className="text-xs text-gray-400 italic">Record an attempt to see your own pitch contour here.</p>
+      )}
+    </div>
+  );
+};
+
+export default PitchContourChart;
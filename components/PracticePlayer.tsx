@@ -0,0 +1,183 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Play, Square, Gauge, Repeat, Headphones, Mic } from 'lucide-react';
+import { Sentence } from '../types';
+
+interface Props {
+  sentences: Sentence[];
+  onActiveSentenceChange: (sentenceId: string | null) => void;
+  onStart: () => void; // Lets the parent stop any single-clip playback first
+  stopToken: number; // Parent bumps this to stop the practice run
+  onClipStart?: (audio: HTMLAudioElement, sentence: Sentence) => void; // Used for karaoke highlighting
+}
+
+type PracticeMode = 'listen' | 'repeat';
+type PracticeScope = 'lesson' | 'sentence';
+
+const SPEEDS = [0.5, 0.75, 0.9, 1, 1.25];
+const LOOP_OPTIONS = [1, 2, 3, 5];
+const GAP_BETWEEN_LOOPS_MS = 600;
+
+const PracticePlayer: React.FC<Props> = ({ sentences, onActiveSentenceChange, onStart, stopToken, onClipStart }) => {
+  const [speed, setSpeed] = useState(1);
+  const [loops, setLoops] = useState(1);
+  const [mode, setMode] = useState<PracticeMode>('listen');
+  const [scope, setScope] = useState<PracticeScope>('lesson');
+  const [startIndex, setStartIndex] = useState(0);
+  const [isRunning, setIsRunning] = useState(false);
+  const [phase, setPhase] = useState<'listen' | 'your-turn' | null>(null);
+
+  const runIdRef = useRef(0);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const wakeRef = useRef<(() => void) | null>(null); // Resolves whatever the run is currently waiting on
+
+  const playable = sentences.filter(s => s.audioBase64);
+
+  const stop = () => {
+    runIdRef.current++;
+    audioRef.current?.pause();
+    audioRef.current = null;
+    wakeRef.current?.();
+    wakeRef.current = null;
+    setIsRunning(false);
+    setPhase(null);
+    onActiveSentenceChange(null);
+  };
+
+  useEffect(() => {
+    if (stopToken > 0 && isRunning) stop();
+  }, [stopToken]);
+
+  // Stop cleanly when leaving the lesson
+  useEffect(() => () => {
+    runIdRef.current++;
+    audioRef.current?.pause();
+    wakeRef.current?.();
+  }, []);
+
+  // Speed changes apply to the clip that is already playing
+  useEffect(() => {
+    if (audioRef.current) audioRef.current.playbackRate = speed;
+  }, [speed]);
+
+  const wait = (ms: number) => new Promise<void>(resolve => {
+    const timer = setTimeout(() => { wakeRef.current = null; resolve(); }, ms);
+    wakeRef.current = () => { clearTimeout(timer); resolve(); };
+  });
+
+  // Resolves with the real listening time in seconds (clip length divided by speed)
+  const playClip = (sentence: Sentence) => new Promise<number>(resolve => {
+    const audio = new Audio(sentence.audioBase64);
+    audio.playbackRate = speed;
+    // Keep the teacher's pitch when slowing down, otherwise tones get distorted
+    audio.preservesPitch = true;
+    (audio as any).webkitPreservesPitch = true;
+    audioRef.current = audio;
+    const started = Date.now();
+    const finish = () => {
+      wakeRef.current = null;
+      resolve((Date.now() - started) / 1000);
+    };
+    audio.onended = finish;
+    audio.onerror = finish;
+    wakeRef.current = finish;
+    onClipStart?.(audio, sentence);
+    audio.play().catch(finish);
+  });
+
+  const start = async () => {
+    if (playable.length === 0) return;
+    onStart();
+    const runId = ++runIdRef.current;
+    const isCancelled = () => runId !== runIdRef.current;
+    setIsRunning(true);
+
+    const queue = scope === 'lesson' ? playable.slice(startIndex) : [playable[startIndex]];
+    for (const sentence of queue) {
+      onActiveSentenceChange(sentence.id);
+      setStartIndex(playable.indexOf(sentence));
+      for (let loop = 0; loop < loops; loop++) {
+        setPhase('listen');
+        const listened = await playClip(sentence);
+        if (isCancelled()) return;
+
+        if (mode === 'repeat') {
+          // Silent gap the same length as what the student just heard
+          setPhase('your-turn');
+          await wait(listened * 1000);
+        } else {
+          await wait(GAP_BETWEEN_LOOPS_MS);
+        }
+        if (isCancelled()) return;
+      }
+    }
+
+    audioRef.current = null;
+    setIsRunning(false);
+    setPhase(null);
+    onActiveSentenceChange(null);
+    if (scope === 'lesson') setStartIndex(0);
+  };
+
+  if (playable.length === 0) return null;
+
+  const selectClass = "bg-white border border-gray-200 rounded-lg px-2 py-1.5 text-xs font-bold text-gray-700 disabled:opacity-50";
+
+  return (
+    <div className="bg-white border border-teal-100 rounded-2xl p-4 mb-8 shadow-sm print-hidden">
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          onClick={isRunning ? stop : start}
+          className={`flex items-center gap-2 px-4 py-2 rounded-full text-sm font-bold shadow-sm transition-all ${isRunning ? 'bg-gray-800 text-white' : 'bg-teal-600 text-white hover:bg-teal-700'}`}
+        >
+          {isRunning ? <><Square size={16} fill="currentColor" /> Stop</> : <><Play size={16} fill="currentColor" /> {scope === 'lesson' ? 'Play lesson' : 'Drill sentence'}</>}
+        </button>
+
+        <div className="flex p-0.5 bg-gray-100 rounded-lg">
+          {(['lesson', 'sentence'] as const).map(s => (
+            <button key={s} disabled={isRunning} onClick={() => setScope(s)} className={`px-3 py-1 rounded-md text-xs font-bold transition ${scope === s ? 'bg-white text-teal-700 shadow-sm' : 'text-gray-500'}`}>
+              {s === 'lesson' ? 'Whole lesson' : 'One sentence'}
+            </button>
+          ))}
+        </div>
+
+        <label className="flex items-center gap-1 text-xs text-gray-500">
+          {scope === 'lesson' ? 'From' : 'Sentence'}
+          <select className={selectClass} value={startIndex} disabled={isRunning} onChange={(e) => setStartIndex(Number(e.target.value))}>
+            {playable.map((s, i) => <option key={s.id} value={i}>#{sentences.indexOf(s) + 1}</option>)}
+          </select>
+        </label>
+
+        <label className="flex items-center gap-1 text-xs text-gray-500" title="Playback speed (pitch is preserved)">
+          <Gauge size={14} />
+          <select className={selectClass} value={speed} onChange={(e) => setSpeed(Number(e.target.value))}>
+            {SPEEDS.map(v => <option key={v} value={v}>{v}×</option>)}
+          </select>
+        </label>
+
+        <label className="flex items-center gap-1 text-xs text-gray-500" title="Times each sentence is played">
+          <Repeat size={14} />
+          <select className={selectClass} value={loops} disabled={isRunning} onChange={(e) => setLoops(Number(e.target.value))}>
+            {LOOP_OPTIONS.map(v => <option key={v} value={v}>{v}×</option>)}
+          </select>
+        </label>
+
+        <div className="flex p-0.5 bg-gray-100 rounded-lg">
+          <button disabled={isRunning} onClick={() => setMode('listen')} className={`flex items-center gap-1 px-3 py-1 rounded-md text-xs font-bold transition ${mode === 'listen' ? 'bg-white text-teal-700 shadow-sm' : 'text-gray-500'}`}>
+            <Headphones size={12} /> Listen
+          </button>
+          <button disabled={isRunning} onClick={() => setMode('repeat')} className={`flex items-center gap-1 px-3 py-1 rounded-md text-xs font-bold transition ${mode === 'repeat' ? 'bg-white text-teal-700 shadow-sm' : 'text-gray-500'}`}>
+            <Mic size={12} /> Listen & repeat
+          </button>
+        </div>
+      </div>
+
+      {isRunning && phase && (
+        <div className={`mt-3 text-xs font-bold ${phase === 'your-turn' ? 'text-orange-600 animate-pulse' : 'text-teal-600'}`}>
+          {phase === 'your-turn' ? 'Your turn — say it out loud!' : 'Listen...'}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PracticePlayer;
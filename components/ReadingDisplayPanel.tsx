@@ -0,0 +1,61 @@
+import React from 'react';
+import { Palette, EyeOff, Languages } from 'lucide-react';
+import { LessonLanguage } from '../types';
+import { Romanisation } from '../services/jyutping';
+import { ReadingDisplaySettings, STUDENT_ROMANISATION_LABELS, toneLegend } from '../services/readingDisplay';
+import { showsJyutping } from '../services/lessonLanguage';
+
+interface Props {
+  settings: ReadingDisplaySettings;
+  language: LessonLanguage;
+  onChange: (settings: ReadingDisplaySettings) => void;
+}
+
+const ReadingDisplayPanel: React.FC<Props> = ({ settings, language, onChange }) => {
+  const set = (patch: Partial<ReadingDisplaySettings>) => onChange({ ...settings, ...patch });
+
+  const toggleClass = (on: boolean) =>
+    `flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-bold transition ${on ? 'bg-teal-600 text-white' : 'bg-white text-gray-500 border border-gray-200 hover:bg-gray-50'}`;
+
+  return (
+    <div className="bg-white border border-gray-100 rounded-2xl p-4 mb-8 shadow-sm print-hidden">
+      <div className="flex flex-wrap items-center gap-3">
+        {showsJyutping(language) && (
+          <label className="flex items-center gap-1 text-xs text-gray-500">
+            <Languages size={14} />
+            <select
+              value={settings.romanisation}
+              onChange={(e) => set({ romanisation: e.target.value as Romanisation })}
+              className="bg-white border border-gray-200 rounded-lg px-2 py-1.5 text-xs font-bold text-gray-700"
+            >
+              {(Object.keys(STUDENT_ROMANISATION_LABELS) as Romanisation[]).map(r => (
+                <option key={r} value={r}>{STUDENT_ROMANISATION_LABELS[r]}</option>
+              ))}
+            </select>
+          </label>
+        )}
+        <button onClick={() => set({ toneColours: !settings.toneColours })} className={toggleClass(settings.toneColours)}>
+          <Palette size={14} /> Tone colours
+        </button>
+        <button onClick={() => set({ hideReading: !settings.hideReading })} className={toggleClass(settings.hideReading)}>
+          <EyeOff size={14} /> Hide reading
+        </button>
+        <button onClick={() => set({ hideEnglish: !settings.hideEnglish })} className={toggleClass(settings.hideEnglish)}>
+          <EyeOff size={14} /> Hide English
+        </button>
+      </div>
+      {settings.toneColours && (
+        <div className="flex flex-wrap gap-3 mt-3 text-xs font-bold">
+          {toneLegend(language).map(({ tone, className }) => (
+            <span key={tone} className={className}>{language === 'mandarin' && tone === 5 ? 'Neutral' : `Tone ${tone}`}</span>
+          ))}
+        </div>
+      )}
+      {(settings.hideReading || settings.hideEnglish) && (
+        <p className="mt-3 text-xs text-gray-400">Tap a character or translation to reveal it.</p>
+      )}
+    </div>
+  );
+};
+
+export default ReadingDisplayPanel;
@@ -0,0 +1,226 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Play, Loader2, CheckCircle, Repeat, Layers } from 'lucide-react';
+import { Lesson } from '../types';
+import { dbService } from '../services/db';
+import { Romanisation } from '../services/jyutping';
+import { toToneMarks } from '../services/pinyin';
+import { formatJyutpingAs } from '../services/readingDisplay';
+import { getLessonLanguage, showsJyutping, showsPinyin, pinyinDisplay } from '../services/lessonLanguage';
+import { buildCardSources, buildQueue, schedule, describeInterval, CardSource, ReviewQueue, GRADES, CARD_TYPE_LABELS } from '../services/srs';
+
+interface Props {
+  lessons: Lesson[];
+  studentId: string;
+  romanisation: Romanisation;
+}
+
+type QueueItem = ReviewQueue['due'][number];
+
+const ReviewSession: React.FC<Props> = ({ lessons, studentId, romanisation }) => {
+  const [queue, setQueue] = useState<QueueItem[] | null>(null);
+  const [summary, setSummary] = useState<{ newCount: number; totalCards: number }>({ newCount: 0, totalCards: 0 });
+  const [isRunning, setIsRunning] = useState(false);
+  const [showAnswer, setShowAnswer] = useState(false);
+  const [reviewedCount, setReviewedCount] = useState(0);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+
+  const loadQueue = async () => {
+    try {
+      const stored = await dbService.getReviewCards(studentId);
+      const q = buildQueue(buildCardSources(lessons, studentId), stored, studentId, Date.now());
+      setQueue(q.due);
+      setSummary({ newCount: q.newCount, totalCards: q.totalCards });
+    } catch (e) {
+      console.error("Failed to load review cards", e);
+      setQueue([]);
+    }
+  };
+
+  useEffect(() => {
+    setIsRunning(false);
+    loadQueue();
+  }, [lessons, studentId]);
+
+  useEffect(() => () => audioRef.current?.pause(), []);
+
+  const playAudio = (src?: string) => {
+    if (!src) return;
+    audioRef.current?.pause();
+    const audio = new Audio(src);
+    audioRef.current = audio;
+    audio.play().catch(e => console.error("Playback failed", e));
+  };
+
+  const current = isRunning ? queue?.[0] : undefined;
+
+  // Listening cards start by playing the clip
+  useEffect(() => {
+    if (current?.card.type === 'audio-meaning') playAudio(current.source.sentence?.audioBase64);
+  }, [current?.card.id]);
+
+  const handleGrade = async (grade: number) => {
+    if (!current) return;
+    const now = Date.now();
+    const updated = schedule(current.card, grade, now);
+    try {
+      await dbService.saveReview(updated, {
+        id: `review-${now}-${Math.random().toString(36).substr(2, 9)}`,
+        studentId,
+        cardId: updated.id,
+        grade,
+        reviewedAt: now,
+        interval: updated.interval
+      });
+    } catch (e) {
+      console.error("Failed to save review", e);
+      alert("Could not save your review. Storage might be full.");
+      return;
+    }
+    audioRef.current?.pause();
+    setReviewedCount(n => n + 1);
+    setShowAnswer(false);
+    // A forgotten card comes back once more at the end of this session
+    setQueue(prev => {
+      const rest = (prev || []).slice(1);
+      return grade < 3 ? [...rest, { ...current, card: updated }] : rest;
+    });
+  };
+
+  if (!queue) {
+    return <div className="flex justify-center p-12 text-gray-400"><Loader2 className="animate-spin" /></div>;
+  }
+
+  if (!current) {
+    return (
+      <div className="bg-white p-12 rounded-xl shadow-sm text-center">
+        {isRunning || reviewedCount > 0 ? (
+          <>
+            <CheckCircle size={40} className="text-green-500 mx-auto mb-3" />
+            <h3 className="text-lg font-bold text-gray-800">All done for now</h3>
+            <p className="text-gray-500 mt-1">You reviewed {reviewedCount} card{reviewedCount !== 1 ? 's' : ''}. Come back tomorrow for the next ones.</p>
+          </>
+        ) : queue.length === 0 ? (
+          <>
+            <Layers size={40} className="text-gray-300 mx-auto mb-3" />
+            <h3 className="text-lg font-bold text-gray-800">Nothing due</h3>
+            <p className="text-gray-500 mt-1">{summary.totalCards > 0 ? 'Every card is scheduled for later.' : 'Your lessons have no cards to review yet.'}</p>
+          </>
+        ) : (
+          <>
+            <Layers size={40} className="text-orange-500 mx-auto mb-3" />
+            <h3 className="text-lg font-bold text-gray-800">{queue.length} card{queue.length !== 1 ? 's' : ''} to review</h3>
+            <p className="text-gray-500 mt-1">{queue.length - summary.newCount} due · {summary.newCount} new</p>
+            <button onClick={() => { setReviewedCount(0); setIsRunning(true); }} className="mt-6 bg-orange-600 text-white px-6 py-3 rounded-full font-bold hover:bg-orange-700 shadow-sm">
+              Start review
+            </button>
+          </>
+        )}
+      </div>
+    );
+  }
+
+  const { card, source } = current;
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm p-8">
+      <div className="flex justify-between text-xs text-gray-400 mb-8">
+        <span className="font-bold uppercase tracking-widest">{CARD_TYPE_LABELS[card.type]}</span>
+        <span>{queue.length} left · {source.lesson.title}</span>
+      </div>
+
+      <div className="min-h-[180px] flex flex-col items-center justify-center text-center gap-4">
+        <CardFront source={source} onPlay={playAudio} />
+        {showAnswer && (
+          <div className="w-full border-t border-gray-100 pt-6 mt-2 flex flex-col items-center gap-3">
+            <CardBack source={source} romanisation={romanisation} onPlay={playAudio} />
+          </div>
+        )}
+      </div>
+
+      <div className="mt-8">
+        {!showAnswer ? (
+          <button onClick={() => setShowAnswer(true)} className="w-full bg-gray-800 text-white py-4 rounded-xl font-bold hover:bg-gray-900">Show answer</button>
+        ) : (
+          <div className="grid grid-cols-4 gap-2">
+            {GRADES.map(({ grade, label }) => (
+              <button key={grade} onClick={() => handleGrade(grade)} className={`py-3 rounded-xl font-bold text-sm flex flex-col items-center ${grade < 3 ? 'bg-red-50 text-red-600 hover:bg-red-100' : grade === 3 ? 'bg-amber-50 text-amber-700 hover:bg-amber-100' : 'bg-green-50 text-green-700 hover:bg-green-100'}`}>
+                {label}
+                <span className="text-[10px] font-normal opacity-70">{describeInterval(schedule(card, grade, Date.now()).interval)}</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const CardFront: React.FC<{ source: CardSource; onPlay: (src?: string) => void }> = ({ source, onPlay }) => {
+  const { type, sentence, entry } = source;
+  if (type === 'audio-meaning') {
+    return (
+      <>
+        <button onClick={() => onPlay(sentence?.audioBase64)} className="p-5 rounded-full bg-orange-100 text-orange-600 hover:bg-orange-200"><Play size={32} fill="currentColor" /></button>
+        <p className="text-gray-500">What does this mean?</p>
+      </>
+    );
+  }
+  if (type === 'chars-reading') {
+    return (
+      <>
+        <span className="text-5xl font-serif text-gray-900">{entry?.headword}</span>
+        <p className="text-gray-500">How do you say it, and what does it mean?</p>
+      </>
+    );
+  }
+  return (
+    <>
+      <span className="text-2xl font-medium text-gray-800">{entry ? entry.english : sentence?.english}</span>
+      <p className="text-gray-500 flex items-center gap-1.5"><Repeat size={14} /> Say it out loud, then check.</p>
+    </>
+  );
+};
+
+const CardBack: React.FC<{ source: CardSource; romanisation: Romanisation; onPlay: (src?: string) => void }> = ({ source, romanisation, onPlay }) => {
+  const { lesson, sentence, entry } = source;
+  const language = getLessonLanguage(lesson);
+
+  if (entry) {
+    const jyutping = entry.jyutping.split(/\s+/).filter(Boolean).map(s => formatJyutpingAs(s, romanisation)).join(' ');
+    const pinyin = (entry.pinyin || '').split(/\s+/).filter(Boolean).map(toToneMarks).join(' ');
+    return (
+      <>
+        <span className="text-4xl font-serif text-gray-900">{entry.headword}</span>
+        {showsJyutping(language) && jyutping && <span className="text-lg font-bold text-teal-600">{jyutping}</span>}
+        {showsPinyin(language) && pinyin && <span className="text-lg font-bold text-orange-600">{pinyin}</span>}
+        <p className="text-gray-700">{entry.english}</p>
+        {sentence && (
+          <button onClick={() => onPlay(sentence.audioBase64)} disabled={!sentence.audioBase64} className="text-sm text-gray-500 flex items-center gap-1.5 hover:text-orange-600 disabled:hover:text-gray-500">
+            {sentence.audioBase64 && <Play size={14} />} <span className="font-serif">{sentence.words.map(w => w.char).join('')}</span>
+          </button>
+        )}
+      </>
+    );
+  }
+
+  if (!sentence) return null;
+  return (
+    <>
+      <div className="flex flex-wrap justify-center gap-x-2 gap-y-3">
+        {sentence.words.map((w, i) => (
+          <div key={i} className="flex flex-col items-center">
+            {showsJyutping(language) && <span className="text-xs font-medium text-teal-600 h-4">{w.selectedJyutping ? formatJyutpingAs(w.selectedJyutping, romanisation) : ''}</span>}
+            {showsPinyin(language) && <span className="text-xs font-medium text-orange-600 h-4">{pinyinDisplay(w)}</span>}
+            <span className="text-2xl font-serif text-gray-900">{w.char}</span>
+          </div>
+        ))}
+      </div>
+      <p className="text-gray-700 italic">{sentence.english}</p>
+      {sentence.audioBase64 && (
+        <button onClick={() => onPlay(sentence.audioBase64)} className="text-sm font-bold text-orange-600 flex items-center gap-1.5"><Play size={14} /> Play</button>
+      )}
+    </>
+  );
+};
+
+export default ReviewSession;
@@ -0,0 +1,75 @@
+import React from 'react';
+import { RefreshCw, Link2, Scissors } from 'lucide-react';
+import { Word, WordSegment } from '../types';
+import { segmentWords, segmentText, mergeWithNext, splitSegment, POS_LABELS } from '../services/segmentation';
+
+interface Props {
+  words: Word[];
+  segments?: WordSegment[];
+  onChange: (segments: WordSegment[]) => void;
+}
+
+const SegmentEditor: React.FC<Props> = ({ words, segments = [], onChange }) => {
+  const updateSegment = (index: number, patch: Partial<WordSegment>) => {
+    onChange(segments.map((s, i) => i === index ? { ...s, ...patch } : s));
+  };
+
+  const resegment = () => {
+    if (segments.some(s => s.note) && !window.confirm('重新分词会清除已写的词语备注，确定吗？')) return;
+    onChange(segmentWords(words));
+  };
+
+  return (
+    <div className="mb-8 bg-sky-50/40 border border-sky-100 rounded-[1.5rem] p-4">
+      <div className="flex justify-between items-center mb-3">
+        <span className="text-[10px] font-black text-sky-700 uppercase tracking-widest">分词与释义（学生点击词语可查看）</span>
+        <button onClick={resegment} className="text-[10px] font-bold text-sky-700 bg-white border border-sky-100 px-2.5 py-1.5 rounded-full hover:bg-sky-50 flex items-center gap-1">
+          <RefreshCw size={12}/> {segments.length ? '按词典重新分词' : '自动分词'}
+        </button>
+      </div>
+      {segments.length > 0 && (
+        <div className="flex flex-wrap gap-3">
+          {segments.map((segment, i) => (
+            <div key={`${segment.start}-${segment.end}`} className="bg-white border border-sky-100 rounded-xl p-2.5 flex flex-col gap-1.5 w-48">
+              <div className="flex items-center justify-between">
+                <span className="text-xl font-serif text-gray-800">{segmentText(words, segment)}</span>
+                <div className="flex gap-1">
+                  {segment.end - segment.start > 1 && (
+                    <button onClick={() => onChange(splitSegment(words, segments, i))} className="p-1 text-gray-300 hover:text-sky-700 rounded" title="拆成单字"><Scissors size={12}/></button>
+                  )}
+                  {segments[i + 1]?.start === segment.end && (
+                    <button onClick={() => onChange(mergeWithNext(words, segments, i))} className="p-1 text-gray-300 hover:text-sky-700 rounded" title="与后一个词合并"><Link2 size={12}/></button>
+                  )}
+                </div>
+              </div>
+              <input
+                type="text"
+                value={segment.gloss}
+                onChange={(e) => updateSegment(i, { gloss: e.target.value })}
+                className="text-xs p-1.5 border border-gray-100 rounded-lg outline-none focus:ring-2 focus:ring-sky-100"
+                placeholder="英文释义"
+              />
+              <select
+                value={segment.pos || ''}
+                onChange={(e) => updateSegment(i, { pos: e.target.value || undefined })}
+                className="text-xs p-1 border border-gray-100 rounded-lg text-gray-600"
+              >
+                <option value="">词性…</option>
+                {Object.entries(POS_LABELS).map(([code, label]) => <option key={code} value={code}>{label.zh}</option>)}
+              </select>
+              <input
+                type="text"
+                value={segment.note || ''}
+                onChange={(e) => updateSegment(i, { note: e.target.value || undefined })}
+                className="text-xs p-1.5 border border-gray-100 rounded-lg outline-none focus:ring-2 focus:ring-orange-100 bg-orange-50/30"
+                placeholder="备注（可选）"
+              />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SegmentEditor;
@@ -0,0 +1,168 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Mic, Square, Play, Pause, Trash2, Repeat, Activity, Target, Loader2, Star } from 'lucide-react';
+import { LessonLanguage, Sentence, StudentTake } from '../types';
+import { startBoostedRecording, blobToDataUrl, RecordingSession } from '../services/audioCapture';
+import { ToneScoreResult } from '../services/toneScoring';
+import PitchContourChart from './PitchContourChart';
+
+interface Props {
+  sentence: Sentence;
+  language: LessonLanguage;
+  takes: StudentTake[];
+  playingId: string | null;
+  onPlaySequence: (sources: string[], playId: string) => void;
+  onSaveTake: (audioBase64: string) => Promise<void>;
+  onDeleteTake: (id: string) => void;
+  toneScore?: ToneScoreResult;
+  isScoring?: boolean;
+  onCheckTones?: (take: StudentTake) => void; // Omitted where tone scoring doesn't apply (Mandarin-only lessons)
+  onMarkBest?: (take: StudentTake) => void; // Picks the take that goes into the student's submission
+}
+
+const ShadowingRecorder: React.FC<Props> = ({ sentence, language, takes, playingId, onPlaySequence, onSaveTake, onDeleteTake, toneScore, isScoring, onCheckTones, onMarkBest }) => {
+  const [isRecording, setIsRecording] = useState(false);
+  const [selectedTakeId, setSelectedTakeId] = useState<string | null>(null);
+  const [showPitch, setShowPitch] = useState(false);
+  const sessionRef = useRef<RecordingSession | null>(null);
+
+  // Always compare against the newest take unless the student picked an older one
+  const latestTake = takes[takes.length - 1];
+  const selectedTake = takes.find(t => t.id === selectedTakeId) || latestTake;
+
+  useEffect(() => {
+    if (selectedTakeId && !takes.some(t => t.id === selectedTakeId)) setSelectedTakeId(null);
+  }, [takes, selectedTakeId]);
+
+  const startRecording = async () => {
+    try {
+      sessionRef.current = await startBoostedRecording();
+      setIsRecording(true);
+    } catch (err) {
+      console.error("Error accessing microphone:", err);
+      alert("Microphone access is required to record audio.");
+    }
+  };
+
+  const stopRecording = async () => {
+    if (!sessionRef.current) return;
+    const session = sessionRef.current;
+    sessionRef.current = null;
+    setIsRecording(false);
+
+    const blob = await session.stop();
+    await onSaveTake(await blobToDataUrl(blob));
+    setSelectedTakeId(null);
+  };
+
+  const compareId = (order: 'teacher-first' | 'me-first') => `${sentence.id}-ab-${order}`;
+
+  const playCompare = (order: 'teacher-first' | 'me-first') => {
+    if (!sentence.audioBase64 || !selectedTake) return;
+    const sources = order === 'teacher-first'
+      ? [sentence.audioBase64, selectedTake.audioBase64]
+      : [selectedTake.audioBase64, sentence.audioBase64];
+    onPlaySequence(sources, compareId(order));
+  };
+
+  return (
+    <div className="mt-3 print-hidden">
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        {isRecording ? (
+          <button
+            onClick={stopRecording}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-red-600 text-white font-bold animate-pulse"
+          >
+            <Square size={14} fill="currentColor" /> Stop
+          </button>
+        ) : (
+          <button
+            onClick={startRecording}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-red-50 text-red-600 border border-red-100 font-bold hover:bg-red-100"
+          >
+            <Mic size={14} /> {takes.length > 0 ? 'Record again' : 'Record my attempt'}
+          </button>
+        )}
+
+        {selectedTake && (
+          <>
+            <button
+              onClick={() => onPlaySequence([selectedTake.audioBase64], selectedTake.id)}
+              className={`flex items-center gap-1.5 px-3 py-1.5 rounded-full font-bold transition-all ${playingId === selectedTake.id ? 'bg-teal-500 text-white' : 'bg-white text-teal-600 border border-teal-100 hover:bg-teal-50'}`}
+            >
+              {playingId === selectedTake.id ? <Pause size={14} /> : <Play size={14} />} Me
+            </button>
+            {sentence.audioBase64 && (['teacher-first', 'me-first'] as const).map(order => (
+              <button
+                key={order}
+                onClick={() => playCompare(order)}
+                className={`flex items-center gap-1.5 px-3 py-1.5 rounded-full font-bold transition-all ${playingId === compareId(order) ? 'bg-indigo-500 text-white' : 'bg-white text-indigo-600 border border-indigo-100 hover:bg-indigo-50'}`}
+              >
+                <Repeat size={14} /> {order === 'teacher-first' ? 'Teacher → Me' : 'Me → Teacher'}
+              </button>
+            ))}
+          </>
+        )}
+
+        {takes.length > 1 && (
+          <select
+            value={selectedTake?.id}
+            onChange={(e) => setSelectedTakeId(e.target.value)}
+            className="px-2 py-1.5 rounded-full border border-gray-200 bg-white text-gray-600"
+          >
+            {takes.map((t, idx) => (
+              <option key={t.id} value={t.id}>{t.isBest ? '★ ' : ''}Take {idx + 1} · {new Date(t.createdAt).toLocaleTimeString()}</option>
+            ))}
+          </select>
+        )}
+
+        {selectedTake && onMarkBest && (
+          <button
+            onClick={() => onMarkBest(selectedTake)}
+            className={`flex items-center gap-1.5 px-3 py-1.5 rounded-full font-bold transition-all ${selectedTake.isBest ? 'bg-amber-400 text-white' : 'bg-white text-amber-500 border border-amber-100 hover:bg-amber-50'}`}
+            title={selectedTake.isBest ? 'This take will be submitted' : 'Submit this take to your teacher'}
+          >
+            <Star size={14} fill={selectedTake.isBest ? 'currentColor' : 'none'} /> Best
+          </button>
+        )}
+
+        {selectedTake && (
+          <button
+            onClick={() => onDeleteTake(selectedTake.id)}
+            className="p-1.5 text-gray-300 hover:text-red-500 rounded-full"
+            title="Delete this take"
+          >
+            <Trash2 size={14} />
+          </button>
+        )}
+
+        {selectedTake && onCheckTones && (
+          <button
+            onClick={() => onCheckTones(selectedTake)}
+            disabled={isScoring}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-full font-bold bg-white text-amber-600 border border-amber-100 hover:bg-amber-50 disabled:opacity-50"
+          >
+            {isScoring ? <Loader2 size={14} className="animate-spin" /> : <Target size={14} />}
+            {toneScore ? `Tones ${toneScore.score}%` : 'Check tones'}
+          </button>
+        )}
+
+        {(sentence.audioBase64 || selectedTake) && (
+          <button
+            onClick={() => setShowPitch(prev => !prev)}
+            className={`ml-auto flex items-center gap-1.5 px-3 py-1.5 rounded-full font-bold transition-all ${showPitch ? 'bg-gray-800 text-white' : 'bg-white text-gray-500 border border-gray-200 hover:bg-gray-50'}`}
+          >
+            <Activity size={14} /> Pitch
+          </button>
+        )}
+      </div>
+
+      {showPitch && (
+        <div className="mt-3">
+          <PitchContourChart words={sentence.words} language={language} teacherAudio={sentence.audioBase64} studentAudio={selectedTake?.audioBase64} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ShadowingRecorder;
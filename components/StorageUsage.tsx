@@ -0,0 +1,49 @@
+import React, { useState, useEffect } from 'react';
+import { HardDrive, ShieldCheck, ShieldAlert } from 'lucide-react';
+import { StorageStatus, getStorageStatus, hasRequestedPersistence, requestPersistence, formatBytes } from '../services/storageQuota';
+
+interface Props {
+  refreshKey: number; // Changes whenever the library does, so the figure stays current
+}
+
+const StorageUsage: React.FC<Props> = ({ refreshKey }) => {
+  const [status, setStatus] = useState<StorageStatus | null>(null);
+
+  const refresh = () => getStorageStatus().then(setStatus).catch(e => console.error("Failed to read storage estimate", e));
+
+  useEffect(() => {
+    refresh();
+  }, [refreshKey]);
+
+  // Ask once without a click; browsers that grant silently never need the button
+  useEffect(() => {
+    if (status && !status.persisted && !hasRequestedPersistence()) requestPersistence().then(refresh);
+  }, [status?.persisted]);
+
+  const handlePersist = async () => {
+    const granted = await requestPersistence();
+    if (!granted) alert("The browser declined. Bookmarking the page or installing it as an app can help; until then, export regularly as a backup.");
+    refresh();
+  };
+
+  if (!status) return null;
+  const share = status.quota ? status.usage / status.quota : 0;
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 text-xs text-gray-500 mt-2">
+      <span className="flex items-center gap-1.5">
+        <HardDrive size={14} className={share > 0.8 ? 'text-red-500' : 'text-gray-400'} />
+        <span className={share > 0.8 ? 'text-red-600 font-bold' : ''}>{formatBytes(status.usage)} of {formatBytes(status.quota)} used</span>
+      </span>
+      {status.persisted ? (
+        <span className="flex items-center gap-1 text-teal-600" title="The browser won't clear this data to free space"><ShieldCheck size={14} /> Protected</span>
+      ) : (
+        <button onClick={handlePersist} className="flex items-center gap-1 text-amber-600 hover:text-amber-700 font-bold" title="The browser may clear this data when the disk is low">
+          <ShieldAlert size={14} /> Not protected from clearing
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default StorageUsage;
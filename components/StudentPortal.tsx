@@ -1,7 +1,24 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { useData } from '../contexts/DataContext';
-import { Lesson } from '../types';
-import { ArrowLeft, Pause, Volume2, BookOpen, Trash2, Printer, CheckCircle, AlertOctagon, Lightbulb, GraduationCap } from 'lucide-react';
+import { Lesson, Sentence, StudentTake, SentenceFeedback } from '../types';
+import { dbService } from '../services/db';
+import { scoreTones, ToneScoreResult } from '../services/toneScoring';
+import ShadowingRecorder from './ShadowingRecorder';
+import PracticePlayer from './PracticePlayer';
+import ReadingDisplayPanel from './ReadingDisplayPanel';
+import WordPopup from './WordPopup';
+import VocabularyBank from './VocabularyBank';
+import ReviewSession from './ReviewSession';
+import FeedbackNote from './FeedbackNote';
+import ExerciseSession from './ExerciseSession';
+import DictationSession from './DictationSession';
+import { wordIndexAt } from '../services/syllableTiming';
+import { trackListen, trackRecording, trackScore, trackTime, buildProgressReport } from '../services/progress';
+import { buildSubmission } from '../services/submissions';
+import { groupWordIndices } from '../services/segmentation';
+import { getLessonLanguage, showsJyutping, showsPinyin, pinyinDisplay, READING_LABELS } from '../services/lessonLanguage';
+import { loadReadingDisplay, saveReadingDisplay, formatJyutpingAs, toneColourClass, ReadingDisplaySettings } from '../services/readingDisplay';
+import { ArrowLeft, Pause, Volume2, BookOpen, Trash2, Printer, CheckCircle, AlertOctagon, Lightbulb, GraduationCap, SlidersHorizontal, BookMarked, Layers, Dumbbell, Headphones, Send } from 'lucide-react';
 
 interface Props {
   onLogout: () => void;
@@ -10,13 +27,26 @@ interface Props {
 }
 
 const StudentPortal: React.FC<Props> = ({ onLogout, importMessage, studentId }) => {
-  const { lessons, deleteLesson, students, isReadOnly } = useData();
+  const { lessons, deleteLesson, students, feedback, isReadOnly } = useData();
   const [activeLesson, setActiveLesson] = useState<Lesson | null>(null);
+  const [libraryTab, setLibraryTab] = useState<'lessons' | 'vocabulary' | 'review'>('lessons');
   
   // Audio Playback State
   const [playingId, setPlayingId] = useState<string | null>(null); // Changed from playingSentenceId to generic playingId
   const audioRef = useRef<HTMLAudioElement | null>(null);
 
+  // Student's own recordings for the open lesson, grouped by sentence
+  const [takes, setTakes] = useState<StudentTake[]>([]);
+  const [toneScores, setToneScores] = useState<Record<string, ToneScoreResult>>({});
+  const [scoringSentenceId, setScoringSentenceId] = useState<string | null>(null);
+
+  // Practice player (loop / slow-down / whole lesson) state
+  const [practiceSentenceId, setPracticeSentenceId] = useState<string | null>(null);
+  const [practiceStopToken, setPracticeStopToken] = useState(0);
+
+  // Karaoke: the character currently being spoken
+  const [karaoke, setKaraoke] = useState<{ sentenceId: string; wordIndex: number } | null>(null);
+
   // Clear import message after a few seconds
   const [msg, setMsg] = useState(importMessage);
   useEffect(() => {
@@ -30,6 +60,97 @@ const StudentPortal: React.FC<Props> = ({ onLogout, importMessage, studentId })
   const currentStudent = studentId ? students.find(s => s.id === studentId) : null;
   const isInvalidStudent = studentId && !currentStudent;
   const isDataMissing = students.length === 0;
+  const takeOwnerId = currentStudent?.id || 'local';
+
+  // Reading display preferences, and what the student has tapped open while they are hidden
+  const [displaySettings, setDisplaySettings] = useState<ReadingDisplaySettings>(() => loadReadingDisplay(takeOwnerId));
+  const [showDisplayPanel, setShowDisplayPanel] = useState(false);
+  const [revealed, setRevealed] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    setDisplaySettings(loadReadingDisplay(takeOwnerId));
+  }, [takeOwnerId]);
+
+  // Hiding again starts over, so the student can re-test themselves
+  useEffect(() => {
+    setRevealed(new Set());
+  }, [activeLesson, displaySettings.hideReading, displaySettings.hideEnglish]);
+
+  const updateDisplaySettings = (settings: ReadingDisplaySettings) => {
+    setDisplaySettings(settings);
+    saveReadingDisplay(takeOwnerId, settings);
+  };
+
+  const reveal = (key: string) => setRevealed(prev => new Set(prev).add(key));
+
+  // Tap-to-define: the word whose popup is open
+  const [definition, setDefinition] = useState<{ sentenceId: string; segmentIndex: number } | null>(null);
+
+  // Lesson detail shows the reading, its exercises or dictation
+  const [detailView, setDetailView] = useState<'reading' | 'exercises' | 'dictation'>('reading');
+
+  useEffect(() => {
+    setDefinition(null);
+    setDetailView('reading');
+  }, [activeLesson]);
+
+  useEffect(() => {
+    setToneScores({});
+    if (!activeLesson) {
+        setTakes([]);
+        return;
+    }
+    dbService.getTakesForLesson(takeOwnerId, activeLesson.id)
+        .then(setTakes)
+        .catch(err => console.error("Failed to load recordings", err));
+  }, [activeLesson, takeOwnerId]);
+
+  // Time on a lesson only counts while the page is visible. Capped per tick so a sleeping laptop adds nothing.
+  useEffect(() => {
+    if (!activeLesson) return;
+    const lessonId = activeLesson.id;
+    let last = Date.now();
+    const flush = (force = false) => {
+      const now = Date.now();
+      if (force || document.visibilityState === 'visible') trackTime(takeOwnerId, lessonId, Math.min(now - last, 60000));
+      last = now;
+    };
+    const onVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') flush(true);
+      else last = Date.now();
+    };
+    const timer = setInterval(flush, 30000);
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    return () => {
+      clearInterval(timer);
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+      flush();
+    };
+  }, [activeLesson, takeOwnerId]);
+
+  // Files the student sends back to the teacher are named after them and the day
+  const downloadForTeacher = (data: unknown, prefix: string) => {
+    const safeName = currentStudent?.name.toLowerCase().replace(/[^a-z0-9]/g, '') || 'student';
+    const blob = new Blob([JSON.stringify(data, null, 2)], { type: "application/json" });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `${prefix}_${safeName}_${new Date().toISOString().slice(0, 10)}.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  const handleSendProgress = async () => {
+    if (!currentStudent) return;
+    try {
+      downloadForTeacher(await buildProgressReport(currentStudent, displayedLessons), 'progress');
+    } catch (e: any) {
+      console.error("Failed to build progress report", e);
+      alert(e.message === "NO_REPORT_KEY"
+        ? "Progress reports need a data file published just for you. Ask your teacher for your own link."
+        : "Could not create your progress report.");
+    }
+  };
 
   // FIX: Handle Mobile Back Button to close Lesson Detail instead of leaving page
   useEffect(() => {
@@ -73,23 +194,175 @@ const StudentPortal: React.FC<Props> = ({ onLogout, importMessage, studentId })
     return [];
   }, [lessons, currentStudent, studentId]);
 
-  const handlePlayAudio = (base64: string | undefined, uniquePlayId: string) => {
-    if (!base64) return;
-    
+  // Lights up each character while its slice of the sentence audio plays
+  const followAudio = (audio: HTMLAudioElement, sentence: Sentence) => {
+    const tick = () => {
+      if (audio.paused || audio.ended) {
+        setKaraoke(prev => (prev?.sentenceId === sentence.id ? null : prev));
+        return;
+      }
+      const wordIndex = wordIndexAt(sentence.words, audio.currentTime * 1000);
+      setKaraoke(prev => (prev?.sentenceId === sentence.id && prev.wordIndex === wordIndex ? prev : { sentenceId: sentence.id, wordIndex }));
+      requestAnimationFrame(tick);
+    };
+    audio.addEventListener('playing', () => requestAnimationFrame(tick), { once: true });
+  };
+
+  // Plays the clips one after another (used for teacher/student A-B comparison)
+  const handlePlaySequence = (sources: string[], uniquePlayId: string, karaokeSentence?: Sentence) => {
+    if (sources.length === 0) return;
+
     if (audioRef.current) {
       audioRef.current.pause();
+      audioRef.current = null;
       if (playingId === uniquePlayId) {
         setPlayingId(null);
         return;
       }
     }
 
-    const audio = new Audio(base64);
-    audioRef.current = audio;
     setPlayingId(uniquePlayId);
-    
-    audio.play();
-    audio.onended = () => setPlayingId(null);
+    setPracticeStopToken(t => t + 1);
+    const playAt = (index: number) => {
+      const audio = new Audio(sources[index]);
+      audioRef.current = audio;
+      if (karaokeSentence && sources[index] === karaokeSentence.audioBase64) followAudio(audio, karaokeSentence);
+      audio.onended = () => {
+        if (audioRef.current !== audio) return;
+        if (index + 1 < sources.length) {
+          // Short breath between the two voices so they don't run together
+          setTimeout(() => { if (audioRef.current === audio) playAt(index + 1); }, 400);
+        } else {
+          audioRef.current = null;
+          setPlayingId(null);
+        }
+      };
+      audio.play();
+    };
+    playAt(0);
+  };
+
+  const handlePlayAudio = (base64: string | undefined, uniquePlayId: string, karaokeSentence?: Sentence) => {
+    if (!base64) return;
+    handlePlaySequence([base64], uniquePlayId, karaokeSentence);
+  };
+
+  // Plays just one character's slice of the teacher recording
+  const handlePlaySyllable = (sentence: Sentence, wordIndex: number) => {
+    const word = sentence.words[wordIndex];
+    if (!sentence.audioBase64 || word.startMs === undefined || word.endMs === undefined) return;
+
+    audioRef.current?.pause();
+    setPracticeStopToken(t => t + 1);
+    const playId = `${sentence.id}-w${wordIndex}`;
+    const audio = new Audio(sentence.audioBase64);
+    audioRef.current = audio;
+    setPlayingId(playId);
+    setKaraoke({ sentenceId: sentence.id, wordIndex });
+    audio.currentTime = word.startMs / 1000;
+
+    const endAt = word.endMs / 1000;
+    const tick = () => {
+      if (audioRef.current !== audio) return;
+      if (audio.currentTime >= endAt || audio.ended) {
+        audio.pause();
+        audioRef.current = null;
+        setPlayingId(null);
+        setKaraoke(null);
+        return;
+      }
+      requestAnimationFrame(tick);
+    };
+    audio.play().then(() => requestAnimationFrame(tick));
+  };
+
+  const stopSingleAudio = () => {
+    if (audioRef.current) {
+      audioRef.current.pause();
+      audioRef.current = null;
+    }
+    setPlayingId(null);
+  };
+
+  // Keep the sentence being practised in view while the whole lesson plays
+  useEffect(() => {
+    if (practiceSentenceId) {
+      document.getElementById(`sentence-${practiceSentenceId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }
+  }, [practiceSentenceId]);
+
+  const handleSaveTake = async (sentenceId: string, audioBase64: string) => {
+    if (!activeLesson) return;
+    const take: StudentTake = {
+      id: `take-${Date.now()}`,
+      studentId: takeOwnerId,
+      lessonId: activeLesson.id,
+      sentenceId,
+      audioBase64,
+      createdAt: Date.now()
+    };
+    try {
+      await dbService.saveTake(take);
+      setTakes(prev => [...prev, take]);
+      trackRecording(takeOwnerId, activeLesson.id);
+      // Tone scoring works from Jyutping tones, so Mandarin-only lessons skip it
+      if (showsJyutping(getLessonLanguage(activeLesson))) handleCheckTones(take);
+    } catch (e) {
+      console.error("Failed to save recording", e);
+      alert("Error saving your recording. Storage might be full.");
+    }
+  };
+
+  // A sentence has at most one best take; picking the current one again clears it
+  const handleMarkBest = async (take: StudentTake) => {
+    const updated = takes.map(t => t.sentenceId !== take.sentenceId ? t : { ...t, isBest: t.id === take.id && !take.isBest });
+    try {
+      for (const t of updated) {
+        if (t.sentenceId === take.sentenceId && !!t.isBest !== !!takes.find(o => o.id === t.id)?.isBest) await dbService.saveTake(t);
+      }
+      setTakes(updated);
+    } catch (e) {
+      console.error("Failed to mark best take", e);
+    }
+  };
+
+  const handleSubmitRecordings = () => {
+    if (!currentStudent || !activeLesson) return;
+    const submission = buildSubmission(currentStudent, activeLesson, takes);
+    const missing = activeLesson.sentences.length - submission.takes.length;
+    if (missing > 0 && !confirm(`${missing} sentence${missing !== 1 ? 's have' : ' has'} no recording yet. Submit the other ${submission.takes.length}?`)) return;
+    downloadForTeacher(submission, 'recordings');
+  };
+
+  const handleCheckTones = async (take: StudentTake) => {
+    const sentence = activeLesson?.sentences.find(s => s.id === take.sentenceId);
+    if (!sentence) return;
+    setScoringSentenceId(sentence.id);
+    try {
+      const result = await scoreTones(sentence.words, take.audioBase64);
+      setToneScores(prev => ({ ...prev, [sentence.id]: result }));
+    } catch (e) {
+      console.error("Tone scoring failed", e);
+      alert("Could not analyse this recording.");
+    } finally {
+      setScoringSentenceId(null);
+    }
+  };
+
+  const handleDeleteTake = async (id: string) => {
+    try {
+      await dbService.deleteTake(id);
+      const removed = takes.find(t => t.id === id);
+      setTakes(prev => prev.filter(t => t.id !== id));
+      if (removed) {
+        setToneScores(prev => {
+          const { [removed.sentenceId]: _, ...rest } = prev;
+          return rest;
+        });
+      }
+    } catch (e) {
+      console.error("Failed to delete recording", e);
+    }
   };
 
   const handlePrint = () => {
@@ -154,6 +427,8 @@ const StudentPortal: React.FC<Props> = ({ onLogout, importMessage, studentId })
 
   // Lesson Detail View
   if (activeLesson) {
+    const language = getLessonLanguage(activeLesson);
+    const lessonFeedback = new Map<string, SentenceFeedback>(feedback.filter(f => f.studentId === takeOwnerId && f.lessonId === activeLesson.id).map(f => [f.sentenceId, f]));
     return (
       <div className="min-h-screen bg-gray-50 pb-20 print:bg-white print:pb-0">
         {/* CSS for Print Optimization */}
@@ -196,20 +471,68 @@ const StudentPortal: React.FC<Props> = ({ onLogout, importMessage, studentId })
           >
             <ArrowLeft size={20} /> Library
           </button>
-          <div className="flex gap-2">
-            <button 
-              onClick={handlePrint}
-              className="flex items-center gap-2 bg-teal-600 text-white px-4 py-2 rounded-full text-sm hover:bg-teal-700 shadow-sm"
-            >
-              <Printer size={16} /> Print / Save PDF
-            </button>
+          <div className="flex flex-wrap justify-end gap-2">
+            {detailView !== 'reading' && (
+              <button onClick={() => setDetailView('reading')} className="flex items-center gap-2 px-4 py-2 rounded-full text-sm shadow-sm bg-orange-600 text-white hover:bg-orange-700">
+                <BookOpen size={16} /> Reading
+              </button>
+            )}
+            {detailView !== 'exercises' && (
+              <button onClick={() => setDetailView('exercises')} className="flex items-center gap-2 px-4 py-2 rounded-full text-sm shadow-sm bg-white text-orange-600 border border-orange-200 hover:bg-orange-50">
+                <Dumbbell size={16} /> Exercises
+              </button>
+            )}
+            {detailView !== 'dictation' && (
+              <button onClick={() => setDetailView('dictation')} className="flex items-center gap-2 px-4 py-2 rounded-full text-sm shadow-sm bg-white text-orange-600 border border-orange-200 hover:bg-orange-50">
+                <Headphones size={16} /> Dictation
+              </button>
+            )}
+            {detailView === 'reading' && (
+              <>
+                {currentStudent && takes.length > 0 && (
+                  <button
+                    onClick={handleSubmitRecordings}
+                    className="flex items-center gap-2 px-4 py-2 rounded-full text-sm shadow-sm bg-white text-indigo-600 border border-indigo-200 hover:bg-indigo-50"
+                    title="Download your best takes to send to your teacher"
+                  >
+                    <Send size={16} /> Submit recordings
+                  </button>
+                )}
+                <button
+                  onClick={() => setShowDisplayPanel(prev => !prev)}
+                  className={`flex items-center gap-2 px-4 py-2 rounded-full text-sm shadow-sm ${showDisplayPanel ? 'bg-gray-800 text-white' : 'bg-white text-gray-600 border border-gray-200 hover:bg-gray-50'}`}
+                >
+                  <SlidersHorizontal size={16} /> Display
+                </button>
+                <button 
+                  onClick={handlePrint}
+                  className="flex items-center gap-2 bg-teal-600 text-white px-4 py-2 rounded-full text-sm hover:bg-teal-700 shadow-sm"
+                >
+                  <Printer size={16} /> Print / Save PDF
+                </button>
+              </>
+            )}
           </div>
         </div>
 
         <div className="max-w-3xl mx-auto p-4 md:p-8 print:max-w-none print:p-0">
-          <div id="printable-area" className="bg-white p-8 rounded-2xl shadow-sm border border-gray-100 print:shadow-none print:border-none">
+          {detailView === 'exercises' && (
+            <ExerciseSession
+              lesson={activeLesson}
+              romanisation={displaySettings.romanisation}
+              onComplete={(correct, total) => trackScore(takeOwnerId, activeLesson.id, { kind: 'exercises', correct, total })}
+            />
+          )}
+          {detailView === 'dictation' && (
+            <DictationSession
+              lesson={activeLesson}
+              onComplete={(correct, total) => trackScore(takeOwnerId, activeLesson.id, { kind: 'dictation', correct, total })}
+            />
+          )}
+          {/* Kept mounted under the drills so recordings and playback survive switching back */}
+          <div id="printable-area" className={`bg-white p-8 rounded-2xl shadow-sm border border-gray-100 print:shadow-none print:border-none ${detailView !== 'reading' ? 'hidden' : ''}`}>
             <h1 className="text-3xl font-bold text-gray-900 mb-2">{activeLesson.title}</h1>
-            <p className="text-gray-500 mb-8 text-sm">Created: {new Date(activeLesson.createdAt).toLocaleDateString()}</p>
+            <p className="text-gray-500 mb-8 text-sm">Created: {new Date(activeLesson.createdAt).toLocaleDateString()} · {READING_LABELS[language]}</p>
             
             {activeLesson.mediaUrl && (
               // Added 'print-hidden' class here to hide video/image in PDF
@@ -232,34 +555,103 @@ const StudentPortal: React.FC<Props> = ({ onLogout, importMessage, studentId })
               </div>
             )}
 
+            {showDisplayPanel && (
+              <ReadingDisplayPanel settings={displaySettings} language={language} onChange={updateDisplaySettings} />
+            )}
+
+            <PracticePlayer
+              sentences={activeLesson.sentences}
+              onActiveSentenceChange={setPracticeSentenceId}
+              onStart={stopSingleAudio}
+              onClipStart={(audio, sentence) => {
+                followAudio(audio, sentence);
+                trackListen(takeOwnerId, activeLesson.id);
+              }}
+              stopToken={practiceStopToken}
+            />
+
             <div className="space-y-8">
               {activeLesson.sentences.map((sentence) => (
                 // Added 'sentence-block' to prevent page break inside a sentence
-                <div key={sentence.id} className="group sentence-block">
+                <div key={sentence.id} id={`sentence-${sentence.id}`} className={`group sentence-block transition-all ${practiceSentenceId === sentence.id ? 'bg-teal-50 ring-2 ring-teal-300 rounded-2xl p-4 -m-4 print:bg-transparent print:ring-0 print:p-0 print:m-0' : ''}`}>
                   {/* Words Row */}
                   <div className="flex flex-wrap gap-x-3 gap-y-4 mb-3 items-end">
-                    {sentence.words.map((word, idx) => {
-                      const hasJyutping = word.jyutping && word.jyutping.length > 0;
+                    {groupWordIndices(sentence.words.length, sentence.segments).map(group => {
+                      const segmentIndex = sentence.segments?.findIndex(s => s.start === group[0]) ?? -1;
+                      const isDefining = definition?.sentenceId === sentence.id && definition.segmentIndex === segmentIndex;
                       return (
-                        <div key={idx} className="flex flex-col items-center text-center">
-                          {hasJyutping && (
-                            <span className="text-sm font-medium text-teal-600 mb-0.5">{word.selectedJyutping}</span>
-                          )}
-                          {!hasJyutping && (
-                             <div className="h-5"></div>
-                          )}
-                          <span className="text-2xl text-gray-800 font-serif leading-none">{word.char}</span>
+                        // Characters of one word sit together, with a dotted underline when it spans several
+                        <div key={group[0]} className={`flex gap-x-0.5 items-end rounded-lg ${group.length > 1 ? 'border-b-2 border-dotted border-sky-200 print:border-none' : ''} ${isDefining ? 'bg-sky-50 ring-2 ring-sky-200' : ''}`}>
+                          {group.map(idx => {
+                            const word = sentence.words[idx];
+                            const hasJyutping = word.jyutping && word.jyutping.length > 0;
+                            // Tone check overlay from the student's last scored take
+                            const toneResult = toneScores[sentence.id]?.syllables.find(s => s.wordIndex === idx);
+                            const isSpeaking = karaoke?.sentenceId === sentence.id && karaoke.wordIndex === idx;
+                            const canPlaySlice = !!sentence.audioBase64 && word.startMs !== undefined && word.endMs !== undefined;
+                            const revealKey = `${sentence.id}:${idx}`;
+                            const isHidden = displaySettings.hideReading && !revealed.has(revealKey);
+                            // Printouts always show the reading
+                            const readingClass = `text-sm font-medium mb-0.5 ${isHidden ? 'blur-sm select-none print:blur-none' : ''}`;
+                            const charColour = (displaySettings.toneColours && toneColourClass(word, language)) || 'text-gray-800';
+                            const canDefine = segmentIndex >= 0;
+                            return (
+                              <div
+                                key={idx}
+                                onClick={canPlaySlice || isHidden || canDefine ? () => {
+                                  if (isHidden) reveal(revealKey);
+                                  if (canPlaySlice) handlePlaySyllable(sentence, idx);
+                                  if (canDefine) setDefinition(isDefining ? null : { sentenceId: sentence.id, segmentIndex });
+                                } : undefined}
+                                className={`flex flex-col items-center text-center rounded-lg px-0.5 transition-colors ${canPlaySlice || isHidden || canDefine ? 'cursor-pointer hover:bg-teal-50' : ''} ${isSpeaking ? 'bg-yellow-200 print:bg-transparent' : ''}`}
+                              >
+                                {showsJyutping(language) && (hasJyutping ? (
+                                  <span className={`${readingClass} text-teal-600`}>{formatJyutpingAs(word.selectedJyutping, displaySettings.romanisation)}</span>
+                                ) : (
+                                   <div className="h-5"></div>
+                                ))}
+                                {showsPinyin(language) && (word.pinyin ? (
+                                  <span className={`${readingClass} text-orange-600`}>{pinyinDisplay(word)}</span>
+                                ) : (
+                                   <div className="h-5"></div>
+                                ))}
+                                <span className={`text-2xl ${charColour} font-serif leading-none ${toneResult ? `border-b-4 pb-0.5 print:border-none ${toneResult.correct ? 'border-green-400' : 'border-red-400'}` : ''}`}>{word.char}</span>
+                                {toneResult && !toneResult.correct && (
+                                  <span className="text-[10px] font-bold text-red-500 mt-0.5 print:hidden" title="Tone we heard">
+                                    {toneResult.detected ? `heard ${toneResult.detected}` : '?'}
+                                  </span>
+                                )}
+                              </div>
+                            );
+                          })}
                         </div>
                       );
                     })}
                   </div>
+
+                  {definition?.sentenceId === sentence.id && sentence.segments?.[definition.segmentIndex] && (
+                    <WordPopup
+                      words={sentence.words}
+                      segment={sentence.segments[definition.segmentIndex]}
+                      language={language}
+                      romanisation={displaySettings.romanisation}
+                      onClose={() => setDefinition(null)}
+                    />
+                  )}
                   
                   {/* Translation & Audio */}
                   <div className="flex items-center justify-between bg-gray-50 rounded-lg p-3 group-hover:bg-teal-50 transition-colors print:bg-transparent print:p-0 print:block">
-                    <p className="text-gray-700 italic font-medium">{sentence.english}</p>
+                    {displaySettings.hideEnglish && !revealed.has(sentence.id) ? (
+                      <p onClick={() => reveal(sentence.id)} className="text-gray-700 italic font-medium blur-sm select-none cursor-pointer print:blur-none" title="Tap to reveal">{sentence.english}</p>
+                    ) : (
+                      <p className="text-gray-700 italic font-medium">{sentence.english}</p>
+                    )}
                     {sentence.audioBase64 ? (
                       <button
-                        onClick={() => handlePlayAudio(sentence.audioBase64, sentence.id)}
+                        onClick={() => {
+                          if (playingId !== sentence.id) trackListen(takeOwnerId, activeLesson.id);
+                          handlePlayAudio(sentence.audioBase64, sentence.id, sentence);
+                        }}
                         // Added 'print-hidden' to hide audio buttons in PDF
                         className={`p-3 rounded-full shadow-sm transition-all print-hidden ${playingId === sentence.id ? 'bg-teal-500 text-white ring-2 ring-teal-300' : 'bg-white text-teal-600 hover:bg-teal-100'}`}
                       >
@@ -268,6 +660,28 @@ const StudentPortal: React.FC<Props> = ({ onLogout, importMessage, studentId })
                     ) : null}
                   </div>
 
+                  <ShadowingRecorder
+                    sentence={sentence}
+                    language={language}
+                    takes={takes.filter(t => t.sentenceId === sentence.id)}
+                    playingId={playingId}
+                    onPlaySequence={(sources, playId) => handlePlaySequence(sources, playId, sentence)}
+                    onSaveTake={(audio) => handleSaveTake(sentence.id, audio)}
+                    onDeleteTake={handleDeleteTake}
+                    toneScore={toneScores[sentence.id]}
+                    isScoring={scoringSentenceId === sentence.id}
+                    onCheckTones={showsJyutping(language) ? handleCheckTones : undefined}
+                    onMarkBest={currentStudent ? handleMarkBest : undefined}
+                  />
+
+                  {lessonFeedback.has(sentence.id) && (
+                    <FeedbackNote
+                      note={lessonFeedback.get(sentence.id)!}
+                      isPlaying={playingId === `${sentence.id}-feedback`}
+                      onPlay={() => handlePlayAudio(lessonFeedback.get(sentence.id)!.audioBase64, `${sentence.id}-feedback`)}
+                    />
+                  )}
+
                   {/* TEACHER EXPLANATION SECTION - CONDITIONAL */}
                   {(sentence.explanationText || sentence.explanationAudio) && (
                       <div className="mt-4 ml-2 md:ml-6 p-4 bg-orange-50 border-l-4 border-orange-300 rounded-r-xl text-sm text-gray-700 flex gap-3 print:bg-transparent print:border-gray-300">
@@ -320,7 +734,14 @@ const StudentPortal: React.FC<Props> = ({ onLogout, importMessage, studentId })
                {displayedLessons.length} Lesson{displayedLessons.length !== 1 ? 's' : ''} Available
             </p>
           </div>
-          <button onClick={onLogout} className="text-orange-100 hover:text-white underline text-sm">Exit</button>
+          <div className="flex items-center gap-4">
+            {currentStudent && (
+              <button onClick={handleSendProgress} className="flex items-center gap-2 bg-white/15 hover:bg-white/25 px-4 py-2 rounded-full text-sm font-bold" title="Download a progress report to send to your teacher">
+                <Send size={16}/> Send progress
+              </button>
+            )}
+            <button onClick={onLogout} className="text-orange-100 hover:text-white underline text-sm">Exit</button>
+          </div>
         </div>
       </header>
 
@@ -333,6 +754,20 @@ const StudentPortal: React.FC<Props> = ({ onLogout, importMessage, studentId })
             </div>
         )}
 
+        {displayedLessons.length > 0 && (
+          <div className="flex p-1 bg-white rounded-xl shadow-sm mb-6 w-fit">
+            <button onClick={() => setLibraryTab('lessons')} className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-bold transition ${libraryTab === 'lessons' ? 'bg-orange-600 text-white' : 'text-gray-500 hover:text-gray-800'}`}>
+              <BookOpen size={16}/> Lessons
+            </button>
+            <button onClick={() => setLibraryTab('vocabulary')} className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-bold transition ${libraryTab === 'vocabulary' ? 'bg-orange-600 text-white' : 'text-gray-500 hover:text-gray-800'}`}>
+              <BookMarked size={16}/> My vocabulary
+            </button>
+            <button onClick={() => setLibraryTab('review')} className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-bold transition ${libraryTab === 'review' ? 'bg-orange-600 text-white' : 'text-gray-500 hover:text-gray-800'}`}>
+              <Layers size={16}/> Review
+            </button>
+          </div>
+        )}
+
         {displayedLessons.length === 0 ? (
            <div className="bg-white p-12 rounded-xl shadow-sm text-center text-gray-500 border-2 border-dashed border-gray-300">
              <div className="bg-gray-50 p-4 rounded-full inline-block mb-3">
@@ -341,6 +776,10 @@ const StudentPortal: React.FC<Props> = ({ onLogout, importMessage, studentId })
              <h3 className="text-lg font-bold text-gray-600 mb-2">No Lessons Assigned</h3>
              <p>Hi {currentStudent?.name || 'Student'}, your teacher hasn't assigned any lessons yet.</p>
            </div>
+        ) : libraryTab === 'vocabulary' ? (
+          <VocabularyBank lessons={displayedLessons} studentId={takeOwnerId} romanisation={displaySettings.romanisation} onOpenLesson={handleOpenLesson} />
+        ) : libraryTab === 'review' ? (
+          <ReviewSession lessons={displayedLessons} studentId={takeOwnerId} romanisation={displaySettings.romanisation} />
         ) : (
           <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
             {displayedLessons.map(lesson => (
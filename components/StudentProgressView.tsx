@@ -0,0 +1,73 @@
+import React from 'react';
+import { Clock, Volume2, Mic, Dumbbell, Headphones, Layers, FileWarning } from 'lucide-react';
+import { Lesson, ProgressReport } from '../types';
+import { scoreSummary, formatDuration } from '../services/progress';
+
+interface Props {
+  report?: ProgressReport;
+  lessons: Lesson[]; // The student's assigned lessons
+}
+
+const formatDate = (ms: number) => (ms ? new Date(ms).toLocaleDateString() : '—');
+
+const StudentProgressView: React.FC<Props> = ({ report, lessons }) => {
+  if (!report) {
+    return (
+      <div className="p-4 bg-gray-50 rounded-lg text-sm text-gray-500 flex items-center gap-2">
+        <FileWarning size={16} className="text-gray-400" />
+        No progress report yet. Ask the student to press "Send progress" in their library and send you the file.
+      </div>
+    );
+  }
+
+  // Assigned lessons first, then anything the report mentions that is no longer assigned
+  const rows = [
+    ...lessons.map(l => ({ lessonId: l.id, title: l.title, entry: report.lessons.find(e => e.lessonId === l.id) })),
+    ...report.lessons.filter(e => !lessons.some(l => l.id === e.lessonId)).map(e => ({ lessonId: e.lessonId, title: e.lessonTitle, entry: e }))
+  ];
+  const totalTime = report.lessons.reduce((sum, e) => sum + e.timeSpentMs, 0);
+
+  return (
+    <div>
+      <p className="text-xs text-gray-500 mb-3">
+        Report from {new Date(report.generatedAt).toLocaleString()} · {formatDuration(totalTime)} practised in total
+      </p>
+      <div className="overflow-x-auto border border-gray-100 rounded-lg">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 text-xs text-gray-500">
+            <tr>
+              <th className="text-left p-2 font-bold">Lesson</th>
+              <th className="p-2" title="Time with the lesson open"><Clock size={14} className="mx-auto" /></th>
+              <th className="p-2" title="Model recordings played"><Volume2 size={14} className="mx-auto" /></th>
+              <th className="p-2" title="Recordings made"><Mic size={14} className="mx-auto" /></th>
+              <th className="p-2" title="Exercises: best score (sets done)"><Dumbbell size={14} className="mx-auto" /></th>
+              <th className="p-2" title="Dictation: best score (attempts)"><Headphones size={14} className="mx-auto" /></th>
+              <th className="p-2" title="Review cards answered"><Layers size={14} className="mx-auto" /></th>
+              <th className="text-right p-2 font-bold">Last active</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {rows.map(({ lessonId, title, entry }) => {
+              const exercises = entry && scoreSummary(entry.scores, 'exercises');
+              const dictation = entry && scoreSummary(entry.scores, 'dictation');
+              return (
+                <tr key={lessonId} className={entry ? '' : 'text-gray-300'}>
+                  <td className="p-2 truncate max-w-[200px]">{title}</td>
+                  <td className="p-2 text-center">{entry ? formatDuration(entry.timeSpentMs) : '—'}</td>
+                  <td className="p-2 text-center">{entry?.listens ?? '—'}</td>
+                  <td className="p-2 text-center">{entry?.recordings ?? '—'}</td>
+                  <td className="p-2 text-center">{exercises ? <>{exercises.best}% <span className="text-gray-400">({exercises.attempts})</span></> : '—'}</td>
+                  <td className="p-2 text-center">{dictation ? <>{dictation.best}% <span className="text-gray-400">({dictation.attempts})</span></> : '—'}</td>
+                  <td className="p-2 text-center">{entry?.reviews ?? '—'}</td>
+                  <td className="p-2 text-right">{entry ? formatDate(entry.lastActiveAt) : 'Not opened'}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default StudentProgressView;
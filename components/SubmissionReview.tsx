@@ -0,0 +1,168 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { X, Play, Pause, Repeat, MicOff, CheckCircle } from 'lucide-react';
+import { Lesson, SentenceFeedback, SubmissionPackage } from '../types';
+import { dbService } from '../services/db';
+import { feedbackId, hasFeedbackContent } from '../services/submissions';
+import { resolveAudio, sentenceAudio } from '../services/audioStore';
+import AudioRecorder from './AudioRecorder';
+
+interface Props {
+  submission: SubmissionPackage;
+  lesson?: Lesson; // Missing if the lesson was deleted after the student submitted
+  onClose: () => void;
+}
+
+const SubmissionReview: React.FC<Props> = ({ submission, lesson, onClose }) => {
+  const [feedback, setFeedback] = useState<Record<string, SentenceFeedback>>({});
+  const [savedId, setSavedId] = useState<string | null>(null);
+  const [playingId, setPlayingId] = useState<string | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+
+  useEffect(() => {
+    dbService.getFeedbackForStudent(submission.studentId)
+      .then(all => setFeedback(Object.fromEntries(all.filter(f => f.lessonId === submission.lessonId).map(f => [f.sentenceId, f]))))
+      .catch(err => console.error("Failed to load feedback", err));
+    return () => audioRef.current?.pause();
+  }, [submission]);
+
+  // Plays the clips back to back, or stops if this button is already playing.
+  // Model clips may be audio store ids, so everything is resolved before playback starts.
+  const playSequence = async (sources: string[], playId: string) => {
+    audioRef.current?.pause();
+    audioRef.current = null;
+    if (playingId === playId) {
+      setPlayingId(null);
+      return;
+    }
+    setPlayingId(playId);
+    const urls = await Promise.all(sources.map(resolveAudio));
+    const playAt = (index: number) => {
+      const audio = new Audio(urls[index]);
+      audioRef.current = audio;
+      audio.onended = () => {
+        if (audioRef.current !== audio) return;
+        if (index + 1 < sources.length) setTimeout(() => { if (audioRef.current === audio) playAt(index + 1); }, 400);
+        else {
+          audioRef.current = null;
+          setPlayingId(null);
+        }
+      };
+      audio.play().catch(e => console.error("Playback failed", e));
+    };
+    playAt(0);
+  };
+
+  const updateFeedback = (sentenceId: string, patch: Partial<Pick<SentenceFeedback, 'text' | 'audioBase64'>>) => {
+    setFeedback(prev => {
+      const current = prev[sentenceId] || {
+        id: feedbackId(submission.studentId, submission.lessonId, sentenceId),
+        studentId: submission.studentId,
+        lessonId: submission.lessonId,
+        sentenceId,
+        text: '',
+        updatedAt: 0
+      };
+      return { ...prev, [sentenceId]: { ...current, ...patch } };
+    });
+  };
+
+  // Empty feedback is removed rather than published
+  const saveFeedback = async (sentenceId: string, patch: Partial<Pick<SentenceFeedback, 'text' | 'audioBase64'>> = {}) => {
+    const current = feedback[sentenceId];
+    const next: SentenceFeedback = {
+      id: feedbackId(submission.studentId, submission.lessonId, sentenceId),
+      studentId: submission.studentId,
+      lessonId: submission.lessonId,
+      sentenceId,
+      text: '',
+      ...current,
+      ...patch,
+      updatedAt: Date.now()
+    };
+    if (!patch.audioBase64 && 'audioBase64' in patch) delete next.audioBase64;
+    try {
+      if (hasFeedbackContent(next)) await dbService.saveFeedback(next);
+      else await dbService.deleteFeedback(next.id);
+      setFeedback(prev => ({ ...prev, [sentenceId]: next }));
+      setSavedId(sentenceId);
+      setTimeout(() => setSavedId(prev => (prev === sentenceId ? null : prev)), 2000);
+    } catch (e) {
+      console.error("Failed to save feedback", e);
+      alert("Error saving feedback. Storage might be full.");
+    }
+  };
+
+  const takeFor = (sentenceId: string) => submission.takes.find(t => t.sentenceId === sentenceId);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-3xl w-full max-h-[90vh] flex flex-col animate-fade-in">
+        <div className="p-6 border-b flex justify-between items-start">
+          <div>
+            <h3 className="text-xl font-bold text-gray-800">{submission.studentName} · {lesson?.title || submission.lessonTitle}</h3>
+            <p className="text-sm text-gray-500">Submitted {new Date(submission.generatedAt).toLocaleString()} · {submission.takes.length} recording{submission.takes.length !== 1 ? 's' : ''}. Feedback goes out with this student's next data export.</p>
+          </div>
+          <button onClick={onClose}><X /></button>
+        </div>
+
+        <div className="overflow-auto p-6 space-y-6">
+          {!lesson && <p className="text-sm text-red-600 bg-red-50 p-3 rounded-lg">This lesson no longer exists, so its sentences can't be shown.</p>}
+          {lesson?.sentences.map((sentence, idx) => {
+            const take = takeFor(sentence.id);
+            const note = feedback[sentence.id];
+            const model = sentenceAudio(sentence);
+            return (
+              <div key={sentence.id} className="border-b border-gray-100 pb-6">
+                <div className="flex gap-3 mb-3">
+                  <span className="text-xs font-bold text-gray-300 mt-1">{idx + 1}</span>
+                  <div>
+                    <p className="text-2xl font-serif text-gray-900">{sentence.words.map(w => w.char).join('')}</p>
+                    <p className="text-sm italic text-gray-500">{sentence.english}</p>
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap gap-2 text-xs mb-3 ml-6">
+                  {model && (
+                    <button onClick={() => playSequence([model], `${sentence.id}-model`)} className={`flex items-center gap-1.5 px-3 py-1.5 rounded-full font-bold ${playingId === `${sentence.id}-model` ? 'bg-teal-500 text-white' : 'bg-teal-50 text-teal-700 hover:bg-teal-100'}`}>
+                      {playingId === `${sentence.id}-model` ? <Pause size={14} /> : <Play size={14} />} Model
+                    </button>
+                  )}
+                  {take ? (
+                    <>
+                      <button onClick={() => playSequence([take.audioBase64], `${sentence.id}-take`)} className={`flex items-center gap-1.5 px-3 py-1.5 rounded-full font-bold ${playingId === `${sentence.id}-take` ? 'bg-indigo-500 text-white' : 'bg-indigo-50 text-indigo-700 hover:bg-indigo-100'}`}>
+                        {playingId === `${sentence.id}-take` ? <Pause size={14} /> : <Play size={14} />} Student
+                      </button>
+                      {model && (
+                        <button onClick={() => playSequence([model, take.audioBase64], `${sentence.id}-ab`)} className={`flex items-center gap-1.5 px-3 py-1.5 rounded-full font-bold ${playingId === `${sentence.id}-ab` ? 'bg-gray-800 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'}`}>
+                          <Repeat size={14} /> Model → Student
+                        </button>
+                      )}
+                    </>
+                  ) : (
+                    <span className="flex items-center gap-1.5 px-3 py-1.5 text-gray-400"><MicOff size={14} /> Not recorded</span>
+                  )}
+                </div>
+
+                <div className="flex gap-3 items-start ml-6">
+                  <textarea
+                    value={note?.text || ''}
+                    onChange={(e) => updateFeedback(sentence.id, { text: e.target.value })}
+                    onBlur={() => saveFeedback(sentence.id)}
+                    className="flex-1 text-sm p-3 border border-gray-200 rounded-lg outline-none focus:ring-2 focus:ring-indigo-100 min-h-[60px]"
+                    placeholder="Feedback for this sentence..."
+                  />
+                  <div className="flex flex-col items-center gap-1">
+                    <AudioRecorder existingAudio={note?.audioBase64} onSave={(audio) => saveFeedback(sentence.id, { audioBase64: audio })} />
+                    {savedId === sentence.id && <span className="text-[10px] text-green-600 flex items-center gap-1"><CheckCircle size={10} /> Saved</span>}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SubmissionReview;
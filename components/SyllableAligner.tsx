@@ -0,0 +1,184 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { X, Play, Square, Hand, Check, Gauge } from 'lucide-react';
+import { LessonLanguage, Sentence, Word } from '../types';
+import { isSyllable } from '../services/syllableTiming';
+import { primaryReading } from '../services/lessonLanguage';
+import { resolveAudio, sentenceAudio } from '../services/audioStore';
+
+interface Props {
+  sentence: Sentence;
+  language: LessonLanguage;
+  onSave: (words: Word[]) => void;
+  onClose: () => void;
+}
+
+interface Timing {
+  startMs?: number;
+  endMs?: number;
+}
+
+const SyllableAligner: React.FC<Props> = ({ sentence, language, onSave, onClose }) => {
+  const syllables = sentence.words.filter(isSyllable);
+  const [timings, setTimings] = useState<Timing[]>(syllables.map(w => ({ startMs: w.startMs, endMs: w.endMs })));
+  const [tapIdx, setTapIdx] = useState<number | null>(null); // Next syllable to tap, null when not tapping
+  const [speed, setSpeed] = useState(0.75);
+  const [previewIdx, setPreviewIdx] = useState<number | null>(null);
+  const [audioSrc, setAudioSrc] = useState<string | undefined>(undefined);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const stopAtRef = useRef<number | null>(null);
+  const tapIdxRef = useRef<number | null>(null);
+  tapIdxRef.current = tapIdx;
+
+  useEffect(() => () => audioRef.current?.pause(), []);
+
+  // Loaded up front so the play buttons can start audio straight from the click
+  useEffect(() => {
+    resolveAudio(sentenceAudio(sentence))
+      .then(setAudioSrc)
+      .catch(e => console.error("Failed to load sentence audio", e));
+  }, [sentence.audioId, sentence.audioBase64]);
+
+  const stopAudio = () => {
+    audioRef.current?.pause();
+    audioRef.current = null;
+    stopAtRef.current = null;
+    setPreviewIdx(null);
+  };
+
+  const startTapping = () => {
+    if (!audioSrc) return;
+    stopAudio();
+    const audio = new Audio(audioSrc);
+    audio.playbackRate = speed;
+    audio.preservesPitch = true;
+    audio.onended = () => {
+      // The last tapped syllable runs to the end of the clip
+      const lastTapped = (tapIdxRef.current ?? 0) - 1;
+      if (lastTapped >= 0) {
+        setTimings(prev => prev.map((t, i) => (i === lastTapped && t.endMs === undefined ? { ...t, endMs: Math.round(audio.duration * 1000) } : t)));
+      }
+      setTapIdx(null);
+      audioRef.current = null;
+    };
+    audioRef.current = audio;
+    setTimings(syllables.map(() => ({})));
+    setTapIdx(0);
+    audio.play();
+  };
+
+  const tap = () => {
+    if (tapIdx === null || !audioRef.current || tapIdx >= syllables.length) return;
+    const ms = Math.round(audioRef.current.currentTime * 1000);
+    setTimings(prev => {
+      const next = [...prev];
+      next[tapIdx] = { startMs: ms };
+      if (tapIdx > 0) next[tapIdx - 1] = { ...next[tapIdx - 1], endMs: ms };
+      return next;
+    });
+    setTapIdx(tapIdx + 1);
+  };
+
+  // Space bar taps, so the teacher can keep their eyes on the text
+  useEffect(() => {
+    if (tapIdx === null) return;
+    const onKey = (e: KeyboardEvent) => {
+      if (e.code === 'Space') {
+        e.preventDefault();
+        tap();
+      }
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  });
+
+  const playSlice = (idx: number) => {
+    const t = timings[idx];
+    if (!audioSrc || t.startMs === undefined || t.endMs === undefined) return;
+    stopAudio();
+    setTapIdx(null);
+    const audio = new Audio(audioSrc);
+    audioRef.current = audio;
+    stopAtRef.current = t.endMs / 1000;
+    setPreviewIdx(idx);
+    audio.currentTime = t.startMs / 1000;
+    const tick = () => {
+      if (audioRef.current !== audio) return;
+      if (stopAtRef.current !== null && audio.currentTime >= stopAtRef.current) {
+        stopAudio();
+        return;
+      }
+      requestAnimationFrame(tick);
+    };
+    audio.play().then(() => requestAnimationFrame(tick));
+  };
+
+  const updateTiming = (idx: number, field: keyof Timing, value: string) => {
+    const ms = value === '' ? undefined : Math.max(0, Math.round(Number(value)));
+    setTimings(prev => prev.map((t, i) => (i === idx ? { ...t, [field]: ms } : t)));
+  };
+
+  const isComplete = timings.every(t => t.startMs !== undefined && t.endMs !== undefined && t.endMs > t.startMs);
+
+  const handleSave = () => {
+    let syllableIdx = 0;
+    const words = sentence.words.map(word => {
+      if (!isSyllable(word)) return word;
+      const t = timings[syllableIdx++];
+      return { ...word, startMs: t.startMs, endMs: t.endMs };
+    });
+    onSave(words);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-[60] flex items-center justify-center p-4">
+      <div className="bg-white rounded-[2rem] shadow-2xl max-w-2xl w-full p-8 animate-fade-in max-h-[90vh] overflow-auto">
+        <div className="flex justify-between items-center mb-6">
+          <h3 className="text-xl font-bold text-gray-800 flex items-center gap-2"><Hand className="text-teal-600" size={22}/> 逐字对齐（卡拉OK高亮）</h3>
+          <button onClick={() => { stopAudio(); onClose(); }} className="text-gray-400 hover:text-gray-700"><X /></button>
+        </div>
+
+        <p className="text-xs text-gray-500 mb-4">播放录音时，每读到一个字就点一下“打点”按钮（或按空格键）。之后可以在下方逐字微调起止时间（毫秒）。</p>
+
+        <div className="flex flex-wrap gap-2 mb-6 font-serif text-3xl">
+          {syllables.map((w, i) => (
+            <span key={i} className={`px-1 rounded ${tapIdx === i ? 'bg-teal-100 ring-2 ring-teal-400' : timings[i].startMs !== undefined ? 'text-teal-700' : 'text-gray-300'}`}>{w.char}</span>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3 mb-8">
+          {tapIdx === null ? (
+            <button onClick={startTapping} disabled={!audioSrc} className="flex items-center gap-2 px-5 py-3 rounded-xl bg-teal-600 text-white font-bold hover:bg-teal-700 shadow-lg disabled:opacity-50"><Play size={18}/> 播放并开始打点</button>
+          ) : (
+            <>
+              <button onClick={tap} className="flex items-center gap-2 px-8 py-3 rounded-xl bg-orange-500 text-white font-bold text-lg active:scale-95 shadow-lg"><Hand size={20}/> 打点 ({Math.min(tapIdx + 1, syllables.length)}/{syllables.length})</button>
+              <button onClick={() => { stopAudio(); setTapIdx(null); }} className="flex items-center gap-2 px-4 py-3 rounded-xl border border-gray-200 text-gray-500 font-bold"><Square size={16}/> 停止</button>
+            </>
+          )}
+          <label className="flex items-center gap-1 text-xs text-gray-500">
+            <Gauge size={14}/>
+            <select value={speed} disabled={tapIdx !== null} onChange={(e) => setSpeed(Number(e.target.value))} className="border border-gray-200 rounded-lg px-2 py-1.5 text-xs font-bold">
+              {[0.5, 0.75, 1].map(v => <option key={v} value={v}>{v}×</option>)}
+            </select>
+          </label>
+        </div>
+
+        <div className="space-y-2 mb-8">
+          {syllables.map((w, i) => (
+            <div key={i} className="flex items-center gap-3 text-sm">
+              <span className="w-8 text-2xl font-serif text-gray-800">{w.char}</span>
+              <span className="w-16 text-xs font-bold text-teal-600">{primaryReading(w, language)}</span>
+              <input type="number" step={10} value={timings[i].startMs ?? ''} onChange={(e) => updateTiming(i, 'startMs', e.target.value)} className="w-24 p-1.5 border border-gray-200 rounded-lg text-xs font-mono" placeholder="开始"/>
+              <span className="text-gray-300">–</span>
+              <input type="number" step={10} value={timings[i].endMs ?? ''} onChange={(e) => updateTiming(i, 'endMs', e.target.value)} className="w-24 p-1.5 border border-gray-200 rounded-lg text-xs font-mono" placeholder="结束"/>
+              <button onClick={() => playSlice(i)} disabled={timings[i].startMs === undefined || timings[i].endMs === undefined} className={`p-1.5 rounded-full disabled:opacity-30 ${previewIdx === i ? 'bg-teal-600 text-white' : 'text-teal-600 hover:bg-teal-50'}`}><Play size={14}/></button>
+            </div>
+          ))}
+        </div>
+
+        <button onClick={handleSave} disabled={!isComplete} className="w-full bg-teal-600 text-white py-4 rounded-xl font-bold flex items-center justify-center gap-2 hover:bg-teal-700 shadow-lg disabled:opacity-40"><Check size={20}/> 保存对齐结果</button>
+      </div>
+    </div>
+  );
+};
+
+export default SyllableAligner;
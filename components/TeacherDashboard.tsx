@@ -1,15 +1,27 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useData } from '../contexts/DataContext';
-import { Lesson, AppMode, Student } from '../types';
-import { Plus, Users, Trash2, Edit, History, Link as LinkIcon, UserPlus, X, Download, UploadCloud, Eye, RefreshCw, FileJson, Printer, CheckCircle, Lightbulb } from 'lucide-react';
+import { Lesson, AppMode, Student, ProgressReport, SubmissionPackage } from '../types';
+import { Plus, Users, Trash2, Edit, History, Link as LinkIcon, UserPlus, X, Download, UploadCloud, Eye, RefreshCw, FileJson, Printer, CheckCircle, Lightbulb, Settings, FileUp, TrendingUp, Mic, KeyRound, AudioLines } from 'lucide-react';
+import AISettingsModal from './AISettingsModal';
+import ChangePassphraseModal from './ChangePassphraseModal';
+import AudioSettingsModal from './AudioSettingsModal';
+import StorageUsage from './StorageUsage';
+import StudentProgressView from './StudentProgressView';
+import SubmissionReview from './SubmissionReview';
+import { getLessonLanguage, showsJyutping, showsPinyin, pinyinDisplay, READING_LABELS } from '../services/lessonLanguage';
+import { dbService } from '../services/db';
+import { isProgressReport, verifyProgressReport } from '../services/progress';
+import { isSubmissionPackage } from '../services/submissions';
+import { MIN_FILE_PASSPHRASE_LENGTH, encryptWithPassphrase, encryptWithDataKey } from '../services/encryption';
+import { buildBundle } from '../services/dataBundle';
 
 interface Props {
   onNavigate: (mode: AppMode, data?: any) => void;
 }
 
 const TeacherDashboard: React.FC<Props> = ({ onNavigate }) => {
-  const { lessons, students, addStudent, deleteStudent, assignLesson, deleteLesson, getLessonById, exportSystemData, exportStudentData } = useData();
+  const { lessons, students, addStudent, deleteStudent, assignLesson, deleteLesson, getLessonById, exportSystemData, exportStudentData, getStudentDataKey } = useData();
   const [activeTab, setActiveTab] = useState<'lessons' | 'students'>('lessons');
   const [newStudentName, setNewStudentName] = useState('');
   const [assigningStudentId, setAssigningStudentId] = useState<string | null>(null);
@@ -17,11 +29,34 @@ const TeacherDashboard: React.FC<Props> = ({ onNavigate }) => {
   const [showPreviewModal, setShowPreviewModal] = useState(false);
   const [copiedId, setCopiedId] = useState<string | null>(null);
   const [printingLesson, setPrintingLesson] = useState<Lesson | null>(null);
+  const [showAISettings, setShowAISettings] = useState(false);
+  const [showChangePassphrase, setShowChangePassphrase] = useState(false);
+  const [showAudioSettings, setShowAudioSettings] = useState(false);
+
+  // Progress reports students have sent back, by student id
+  const [progressReports, setProgressReports] = useState<Record<string, ProgressReport>>({});
+  const [progressStudentId, setProgressStudentId] = useState<string | null>(null);
+  const reportInputRef = useRef<HTMLInputElement>(null);
+
+  // Recording submissions, newest first, and the one being reviewed
+  const [submissions, setSubmissions] = useState<SubmissionPackage[]>([]);
+  const [reviewingSubmission, setReviewingSubmission] = useState<SubmissionPackage | null>(null);
+
+  useEffect(() => {
+    dbService.getProgressReports()
+      .then(reports => setProgressReports(Object.fromEntries(reports.map(r => [r.studentId, r]))))
+      .catch(err => console.error("Failed to load progress reports", err));
+    dbService.getSubmissions()
+      .then(list => setSubmissions(list.sort((a, b) => b.generatedAt - a.generatedAt)))
+      .catch(err => console.error("Failed to load submissions", err));
+  }, []);
   
   const [exportScope, setExportScope] = useState<'all' | 'single'>('all');
   const [selectedStudentForExport, setSelectedStudentForExport] = useState<string>('');
   const [dataFileName, setDataFileName] = useState('student_data.json');
   const [isEditingFilename, setIsEditingFilename] = useState(false);
+  const [encryption, setEncryption] = useState<'none' | 'passphrase' | 'link'>('none');
+  const [exportPassphrase, setExportPassphrase] = useState('');
 
   useEffect(() => {
     if (exportScope === 'all') {
@@ -53,25 +88,94 @@ const TeacherDashboard: React.FC<Props> = ({ onNavigate }) => {
       queryParams.set('studentId', studentId);
       queryParams.set('data', targetFile);
       
-      const url = `${baseUrl}?${queryParams.toString()}`;
+      // Students who have had a link-encrypted file carry its key in the fragment
+      const dataKey = students.find(s => s.id === studentId)?.dataKey;
+      const url = `${baseUrl}?${queryParams.toString()}${dataKey ? `#key=${dataKey}` : ''}`;
       navigator.clipboard.writeText(url).then(() => {
           setCopiedId(studentId);
           setTimeout(() => setCopiedId(null), 3000);
       });
   };
 
+  const isSingleExport = exportScope === 'single' && !!selectedStudentForExport;
+
   const performExport = async () => {
-      let data = (exportScope === 'single' && selectedStudentForExport) 
+    try {
+      let data = isSingleExport
         ? await exportStudentData(selectedStudentForExport) 
         : await exportSystemData();
 
-      const blob = new Blob([JSON.stringify(data, null, 2)], { type: "application/json" });
+      let blob: Blob;
+      if (encryption === 'passphrase') blob = new Blob([JSON.stringify(await encryptWithPassphrase(data, exportPassphrase))], { type: "application/json" });
+      else if (encryption === 'link') {
+        // Only one student's file can use their link key; an export asked to be encrypted never goes out in plain text
+        if (!isSingleExport) throw new Error("LINK_NEEDS_STUDENT");
+        blob = new Blob([JSON.stringify(await encryptWithDataKey(data, await getStudentDataKey(selectedStudentForExport)))], { type: "application/json" });
+      }
+      // Still named .json, whatever the content: links already given to students point at that
+      // name, and the loader tells a zip bundle from JSON by its first bytes
+      else blob = new Blob([await buildBundle(data)], { type: "application/zip" });
+
       const link = document.createElement('a');
       link.href = URL.createObjectURL(blob);
       link.download = dataFileName; 
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
+    } catch (e: any) {
+      console.error("Failed to export data", e);
+      alert(e.message === 'PASSPHRASE_TOO_SHORT' ? `The passphrase needs at least ${MIN_FILE_PASSPHRASE_LENGTH} characters.`
+        : e.message === 'LINK_NEEDS_STUDENT' ? "Choose a student first: link encryption uses that student's key."
+        : "Export failed.");
+    }
+  };
+
+  const importSubmission = async (data: SubmissionPackage) => {
+    const student = students.find(s => s.id === data.studentId);
+    if (!student) {
+      alert(`These recordings belong to a student who isn't in your class (${data.studentName}).`);
+      return;
+    }
+    await dbService.saveSubmission(data);
+    setSubmissions(prev => [data, ...prev.filter(s => s.id !== data.id)]);
+    setActiveTab('students');
+    setReviewingSubmission(data);
+  };
+
+  // Students send back two kinds of file: progress reports and recording submissions
+  const handleImportStudentFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const data = JSON.parse(await file.text());
+      if (isSubmissionPackage(data)) {
+        await importSubmission(data);
+        return;
+      }
+      if (!isProgressReport(data)) {
+        alert("This file is not a progress report or a recording submission.");
+        return;
+      }
+      const student = students.find(s => s.id === data.studentId);
+      if (!student) {
+        alert(`This report belongs to a student who isn't in your class (${data.studentName}).`);
+        return;
+      }
+      if (!(await verifyProgressReport(data, student))) {
+        alert(`The signature on ${data.studentName}'s report doesn't match. The file was edited, or it was made from an old data file.`);
+        return;
+      }
+      const existing = progressReports[student.id];
+      if (existing && existing.generatedAt > data.generatedAt && !confirm(`You already have a newer report from ${student.name}. Replace it with this older one?`)) return;
+      await dbService.saveProgressReport(data);
+      setProgressReports(prev => ({ ...prev, [student.id]: data }));
+      setActiveTab('students');
+      setProgressStudentId(student.id);
+    } catch (err) {
+      console.error("Failed to import student file", err);
+      alert("Could not read this file.");
+    }
   };
 
   const handlePrint = (lesson: Lesson) => {
@@ -97,7 +201,7 @@ const TeacherDashboard: React.FC<Props> = ({ onNavigate }) => {
         <div id="printable-area" className="fixed inset-0 bg-white z-[9999] p-10 overflow-auto">
             <div className="border-b-4 border-teal-600 pb-4 mb-8">
                 <h1 className="text-4xl font-bold text-gray-900">{printingLesson.title}</h1>
-                <p className="text-teal-600 font-bold uppercase tracking-widest text-sm mt-1">Student Handout • YuetYu Tutor</p>
+                <p className="text-teal-600 font-bold uppercase tracking-widest text-sm mt-1">Student Handout • {READING_LABELS[getLessonLanguage(printingLesson)]} • YuetYu Tutor</p>
             </div>
             <div className="space-y-12">
                 {printingLesson.sentences.map((s, idx) => (
@@ -105,7 +209,8 @@ const TeacherDashboard: React.FC<Props> = ({ onNavigate }) => {
                         <div className="flex flex-wrap gap-x-6 gap-y-8 mb-6 items-end">
                             {s.words.map((w, wi) => (
                                 <div key={wi} className="flex flex-col items-center">
-                                    <span className="text-base font-bold text-teal-600 mb-1">{w.selectedJyutping}</span>
+                                    {showsJyutping(getLessonLanguage(printingLesson)) && <span className="text-base font-bold text-teal-600 mb-1">{w.selectedJyutping}</span>}
+                                    {showsPinyin(getLessonLanguage(printingLesson)) && <span className="text-base font-bold text-orange-600 mb-1">{pinyinDisplay(w)}</span>}
                                     <span className="text-4xl font-serif text-gray-900">{w.char}</span>
                                 </div>
                             ))}
@@ -131,18 +236,24 @@ const TeacherDashboard: React.FC<Props> = ({ onNavigate }) => {
 
       <header className="mb-8 bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
         <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
-            <div><h1 className="text-3xl font-bold text-gray-800">Teacher Dashboard</h1><p className="text-gray-600 mt-1">Manage lessons and students.</p></div>
-            <button onClick={handleCreateLesson} className="flex items-center gap-2 bg-teal-600 text-white px-5 py-3 rounded-xl hover:bg-teal-700 transition shadow-md font-bold"><Plus size={20} />Create Lesson</button>
+            <div><h1 className="text-3xl font-bold text-gray-800">Teacher Dashboard</h1><p className="text-gray-600 mt-1">Manage lessons and students.</p><StorageUsage refreshKey={lessons.length + submissions.length} /></div>
+            <div className="flex gap-2">
+                <button onClick={() => setShowAISettings(true)} className="flex items-center gap-2 bg-white border border-gray-200 text-gray-600 px-4 py-3 rounded-xl hover:bg-gray-50 transition font-bold" title="AI provider settings"><Settings size={20} />AI</button>
+                <button onClick={() => setShowAudioSettings(true)} className="flex items-center gap-2 bg-white border border-gray-200 text-gray-600 px-4 py-3 rounded-xl hover:bg-gray-50 transition font-bold" title="Audio storage settings"><AudioLines size={20} />Audio</button>
+                <button onClick={() => setShowChangePassphrase(true)} className="flex items-center gap-2 bg-white border border-gray-200 text-gray-600 px-4 py-3 rounded-xl hover:bg-gray-50 transition font-bold" title="Change the teacher passphrase"><KeyRound size={20} /></button>
+                <button onClick={handleCreateLesson} className="flex items-center gap-2 bg-teal-600 text-white px-5 py-3 rounded-xl hover:bg-teal-700 transition shadow-md font-bold"><Plus size={20} />Create Lesson</button>
+            </div>
         </div>
         
         {/* 导出工具栏 */}
         <div className="mt-6 bg-gradient-to-r from-orange-50 to-amber-50 border border-orange-200 rounded-xl p-5">
-            <div className="flex items-start gap-3 mb-4"><div className="bg-orange-100 p-2 rounded-full text-orange-600 mt-1"><UploadCloud size={24}/></div><div><h3 className="font-bold text-orange-900 text-lg">Publish Data</h3><p className="text-sm text-orange-800/80">Export student-specific JSON for better privacy and speed.</p></div></div>
+            <div className="flex items-start gap-3 mb-4"><div className="bg-orange-100 p-2 rounded-full text-orange-600 mt-1"><UploadCloud size={24}/></div><div><h3 className="font-bold text-orange-900 text-lg">Publish Data</h3><p className="text-sm text-orange-800/80">Export student-specific bundles for better privacy and speed.</p></div></div>
             <div className="flex flex-col md:flex-row gap-4 items-end bg-white/50 p-4 rounded-lg border border-orange-100">
-                <div className="flex-1 w-full md:w-auto"><label className="block text-xs font-bold text-orange-900 mb-1">Export Mode</label><div className="flex gap-2 p-1 bg-white rounded-lg border border-orange-200"><button onClick={() => setExportScope('all')} className={`flex-1 py-1.5 px-3 rounded-md text-sm font-medium transition ${exportScope === 'all' ? 'bg-orange-100 text-orange-800' : 'text-gray-500'}`}>All</button><button onClick={() => { setExportScope('single'); if(students.length > 0 && !selectedStudentForExport) setSelectedStudentForExport(students[0].id); }} className={`flex-1 py-1.5 px-3 rounded-md text-sm font-medium transition ${exportScope === 'single' ? 'bg-orange-100 text-orange-800' : 'text-gray-500'}`}>Single Student</button></div></div>
+                <div className="flex-1 w-full md:w-auto"><label className="block text-xs font-bold text-orange-900 mb-1">Export Mode</label><div className="flex gap-2 p-1 bg-white rounded-lg border border-orange-200"><button onClick={() => { setExportScope('all'); if (encryption === 'link') setEncryption('none'); }} className={`flex-1 py-1.5 px-3 rounded-md text-sm font-medium transition ${exportScope === 'all' ? 'bg-orange-100 text-orange-800' : 'text-gray-500'}`}>All</button><button onClick={() => { setExportScope('single'); if(students.length > 0 && !selectedStudentForExport) setSelectedStudentForExport(students[0].id); }} className={`flex-1 py-1.5 px-3 rounded-md text-sm font-medium transition ${exportScope === 'single' ? 'bg-orange-100 text-orange-800' : 'text-gray-500'}`}>Single Student</button></div></div>
                 {exportScope === 'single' && <div className="flex-1 w-full md:w-auto animate-fade-in"><label className="block text-xs font-bold text-orange-900 mb-1">Select Student</label><select className="w-full p-2 border border-orange-300 rounded-lg text-sm bg-white" value={selectedStudentForExport} onChange={(e) => setSelectedStudentForExport(e.target.value)}>{students.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}</select></div>}
                 <div className="flex-1 w-full md:w-auto"><label className="block text-xs font-bold text-orange-900 mb-1">Filename</label>{isEditingFilename ? <div className="flex items-center gap-1"><input type="text" value={dataFileName} onChange={(e) => setDataFileName(e.target.value)} className="w-full p-1.5 border border-orange-300 rounded text-sm"/><button onClick={() => setIsEditingFilename(false)} className="bg-teal-100 text-teal-700 px-2 py-1.5 rounded text-xs font-bold">OK</button></div> : <div className="flex items-center justify-between bg-white border border-orange-200 rounded px-3 py-1.5 cursor-pointer hover:border-orange-400 group" onClick={() => setIsEditingFilename(true)}><code className="text-sm font-mono text-gray-700 truncate max-w-[150px]">{dataFileName}</code><Edit size={12} className="text-gray-300 group-hover:text-orange-500"/></div>}</div>
-                <div className="flex gap-2"><button onClick={() => setShowPreviewModal(true)} disabled={exportScope === 'single' && !selectedStudentForExport} className="p-2 bg-white border border-gray-300 text-gray-600 rounded-lg hover:bg-gray-50"><Eye size={20}/></button><button onClick={() => setShowExportGuide(true)} disabled={exportScope === 'single' && !selectedStudentForExport} className="px-4 py-2 bg-orange-600 text-white font-bold rounded-lg hover:bg-orange-700 shadow-md flex items-center gap-2"><Download size={18}/> Export</button></div>
+                <div className="flex-1 w-full md:w-auto"><label className="block text-xs font-bold text-orange-900 mb-1">Encryption</label><select className="w-full p-2 border border-orange-300 rounded-lg text-sm bg-white" value={encryption} onChange={(e) => setEncryption(e.target.value as 'none' | 'passphrase' | 'link')}><option value="none">None</option><option value="passphrase">Passphrase</option>{exportScope === 'single' && <option value="link">Student's link</option>}</select>{encryption === 'passphrase' && <input type="password" autoComplete="new-password" value={exportPassphrase} onChange={(e) => setExportPassphrase(e.target.value)} placeholder={`${MIN_FILE_PASSPHRASE_LENGTH}+ characters`} className="w-full mt-2 p-1.5 border border-orange-300 rounded text-sm"/>}</div>
+                <div className="flex gap-2"><button onClick={() => setShowPreviewModal(true)} disabled={exportScope === 'single' && !selectedStudentForExport} className="p-2 bg-white border border-gray-300 text-gray-600 rounded-lg hover:bg-gray-50"><Eye size={20}/></button><button onClick={() => setShowExportGuide(true)} disabled={(exportScope === 'single' && !selectedStudentForExport) || (encryption === 'passphrase' && exportPassphrase.length < MIN_FILE_PASSPHRASE_LENGTH)} className="px-4 py-2 bg-orange-600 text-white font-bold rounded-lg hover:bg-orange-700 shadow-md flex items-center gap-2 disabled:opacity-50"><Download size={18}/> Export</button></div>
             </div>
         </div>
       </header>
@@ -161,12 +272,21 @@ const TeacherDashboard: React.FC<Props> = ({ onNavigate }) => {
         </div>
       )}
 
+      {showAISettings && <AISettingsModal onClose={() => setShowAISettings(false)} />}
+      {showChangePassphrase && <ChangePassphraseModal onClose={() => setShowChangePassphrase(false)} />}
+      {showAudioSettings && <AudioSettingsModal onClose={() => setShowAudioSettings(false)} />}
+
+      {reviewingSubmission && <SubmissionReview submission={reviewingSubmission} lesson={getLessonById(reviewingSubmission.lessonId)} onClose={() => setReviewingSubmission(null)} />}
+
       {showExportGuide && (
         <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
             <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full p-8 animate-fade-in text-center">
                 <Download size={48} className="text-teal-600 mx-auto mb-4"/>
                 <h3 className="text-2xl font-bold text-gray-800 mb-2">Ready to Export</h3>
                 <p className="text-gray-600 mb-6 text-sm">Download <strong>{dataFileName}</strong> and upload it to the <code>public</code> folder in your GitHub repo.</p>
+                {encryption === 'passphrase' && <p className="text-orange-800 bg-orange-50 p-3 rounded-lg mb-6 text-sm">The file is encrypted. Give the passphrase to your students separately; they will be asked for it when they open their link.</p>}
+                {!isSingleExport && <p className="text-orange-800 bg-orange-50 p-3 rounded-lg mb-6 text-sm">Whole-class files leave out the keys students sign progress reports with. Students who should send reports need their own Single Student export.</p>}
+                {encryption === 'link' && <p className="text-orange-800 bg-orange-50 p-3 rounded-lg mb-6 text-sm">The file only opens through this student's link, which carries the key. Copy the link again from My Students after downloading.</p>}
                 <div className="flex flex-col gap-3">
                     <button onClick={() => { performExport(); setShowExportGuide(false); }} className="w-full bg-teal-600 text-white py-4 rounded-xl font-bold text-lg hover:bg-teal-700">Download File</button>
                     <button onClick={() => setShowExportGuide(false)} className="text-gray-400 text-sm">Cancel</button>
@@ -202,12 +322,17 @@ const TeacherDashboard: React.FC<Props> = ({ onNavigate }) => {
               <UserPlus size={24} className="text-indigo-600" />
               <input type="text" placeholder="Add new student..." className="flex-1 text-lg outline-none" value={newStudentName} onChange={(e) => setNewStudentName(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && handleAddStudent()}/>
               <button onClick={handleAddStudent} className="bg-indigo-600 text-white px-6 py-2 rounded-lg font-bold">Add</button>
+              <button onClick={() => reportInputRef.current?.click()} className="border border-indigo-200 text-indigo-600 px-4 py-2 rounded-lg font-bold flex items-center gap-2 hover:bg-indigo-50" title="Import a progress report or recordings a student sent you"><FileUp size={18}/> Import Student File</button>
+              <input ref={reportInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImportStudentFile} />
            </div>
            {students.map(student => (
                <div key={student.id} className="bg-white border border-gray-200 rounded-xl shadow-sm overflow-hidden">
                   <div className="p-4 bg-gray-50 border-b flex justify-between items-center">
                      <div className="flex items-center gap-3"><div className="w-10 h-10 bg-indigo-500 rounded-full flex items-center justify-center text-white font-bold">{student.name.charAt(0)}</div><h3 className="font-bold text-gray-800">{student.name}</h3></div>
                      <div className="flex gap-2">
+                         <button onClick={() => setProgressStudentId(progressStudentId === student.id ? null : student.id)} className={`px-4 py-2 rounded-lg text-sm font-bold flex items-center gap-2 transition-all ${progressStudentId === student.id ? 'bg-indigo-100 text-indigo-700' : 'bg-white border border-gray-200 text-gray-600 hover:bg-gray-50'}`}>
+                            <TrendingUp size={16}/> Progress{progressReports[student.id] && <span className="text-xs font-normal text-gray-400">{new Date(progressReports[student.id].generatedAt).toLocaleDateString()}</span>}
+                         </button>
                          <button onClick={() => copyStudentLink(student.id, student.name)} className={`px-4 py-2 rounded-lg text-sm font-bold flex items-center gap-2 transition-all ${copiedId === student.id ? 'bg-green-600 text-white' : 'bg-indigo-600 text-white hover:bg-indigo-700'}`}>
                             {copiedId === student.id ? <><CheckCircle size={16}/> Copied!</> : <><LinkIcon size={16}/> Copy Link</>}
                          </button>
@@ -215,6 +340,8 @@ const TeacherDashboard: React.FC<Props> = ({ onNavigate }) => {
                      </div>
                   </div>
                   <div className="p-4">
+                     {submissions.some(s => s.studentId === student.id) && <div className="flex flex-wrap gap-2 mb-4">{submissions.filter(s => s.studentId === student.id).map(s => <button key={s.id} onClick={() => setReviewingSubmission(s)} className="px-3 py-1.5 bg-indigo-50 text-indigo-700 rounded-lg text-xs font-bold flex items-center gap-1.5 hover:bg-indigo-100"><Mic size={12}/> {getLessonById(s.lessonId)?.title || s.lessonTitle} · {new Date(s.generatedAt).toLocaleDateString()}</button>)}</div>}
+                     {progressStudentId === student.id && <div className="mb-4"><StudentProgressView report={progressReports[student.id]} lessons={student.assignedLessonIds.map(getLessonById).filter((l): l is Lesson => !!l)} /></div>}
                      <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-4">{student.assignedLessonIds.map(lid => <div key={lid} className="p-2 bg-white border rounded-lg text-sm truncate">{getLessonById(lid)?.title}</div>)}</div>
                      <div className="mt-2 pt-2 border-t">{assigningStudentId === student.id ? <div className="flex gap-2"><select className="flex-1 p-2 border rounded-lg text-sm" onChange={(e) => {assignLesson(student.id, e.target.value); setAssigningStudentId(null);}} defaultValue=""><option value="" disabled>Select lesson...</option>{lessons.filter(l => !student.assignedLessonIds.includes(l.id)).map(l => <option key={l.id} value={l.id}>{l.title}</option>)}</select><button onClick={() => setAssigningStudentId(null)} className="text-gray-400"><X size={20}/></button></div> : <button onClick={() => setAssigningStudentId(student.id)} className="text-indigo-600 text-sm font-bold">+ Assign Lesson</button>}</div>
                   </div>
@@ -0,0 +1,102 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Search, Star, BookOpen } from 'lucide-react';
+import { Lesson } from '../types';
+import { Romanisation } from '../services/jyutping';
+import { toToneMarks } from '../services/pinyin';
+import { formatJyutpingAs } from '../services/readingDisplay';
+import { buildVocabulary, matchesVocabularyQuery, loadStarredVocabulary, saveStarredVocabulary } from '../services/glossary';
+
+interface Props {
+  lessons: Lesson[];
+  studentId: string;
+  romanisation: Romanisation;
+  onOpenLesson: (lesson: Lesson) => void;
+}
+
+const VocabularyBank: React.FC<Props> = ({ lessons, studentId, romanisation, onOpenLesson }) => {
+  const [query, setQuery] = useState('');
+  const [starredOnly, setStarredOnly] = useState(false);
+  const [starred, setStarred] = useState<Set<string>>(() => loadStarredVocabulary(studentId));
+
+  useEffect(() => {
+    setStarred(loadStarredVocabulary(studentId));
+  }, [studentId]);
+
+  const items = useMemo(() => buildVocabulary(lessons), [lessons]);
+  const visible = items.filter(item => (!starredOnly || starred.has(item.key)) && matchesVocabularyQuery(item, query));
+
+  const toggleStar = (key: string) => {
+    const next = new Set<string>(starred);
+    if (next.has(key)) next.delete(key);
+    else next.add(key);
+    setStarred(next);
+    saveStarredVocabulary(studentId, next);
+  };
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row gap-3 mb-6">
+        <div className="flex-1 relative">
+          <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            className="w-full pl-9 pr-3 py-2.5 rounded-xl border border-gray-200 outline-none focus:ring-2 focus:ring-orange-200"
+            placeholder="Search characters, Jyutping or English..."
+          />
+        </div>
+        <button
+          onClick={() => setStarredOnly(prev => !prev)}
+          className={`flex items-center justify-center gap-2 px-4 py-2.5 rounded-xl text-sm font-bold transition ${starredOnly ? 'bg-orange-600 text-white' : 'bg-white text-gray-600 border border-gray-200 hover:bg-gray-50'}`}
+        >
+          <Star size={16} fill={starredOnly ? 'currentColor' : 'none'} /> Starred ({items.filter(i => starred.has(i.key)).length})
+        </button>
+      </div>
+
+      {visible.length === 0 ? (
+        <div className="bg-white p-12 rounded-xl shadow-sm text-center text-gray-500 border-2 border-dashed border-gray-300">
+          {items.length === 0 ? 'Your lessons have no vocabulary lists yet.' : 'No words match.'}
+        </div>
+      ) : (
+        <div className="bg-white rounded-xl shadow-sm divide-y divide-gray-100">
+          {visible.map(({ key, entry, sources }) => {
+            const jyutping = entry.jyutping.split(/\s+/).filter(Boolean).map(s => formatJyutpingAs(s, romanisation)).join(' ');
+            const pinyin = (entry.pinyin || '').split(/\s+/).filter(Boolean).map(toToneMarks).join(' ');
+            const example = sources.find(s => s.example)?.example;
+            return (
+              <div key={key} className="p-4 flex gap-4 items-start">
+                <button onClick={() => toggleStar(key)} className={`mt-1 ${starred.has(key) ? 'text-orange-500' : 'text-gray-300 hover:text-orange-400'}`} title={starred.has(key) ? 'Unstar' : 'Star'}>
+                  <Star size={18} fill={starred.has(key) ? 'currentColor' : 'none'} />
+                </button>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-baseline gap-3 flex-wrap">
+                    <span className="text-2xl font-serif text-gray-900">{entry.headword}</span>
+                    {jyutping && <span className="text-sm font-bold text-teal-600">{jyutping}</span>}
+                    {pinyin && <span className="text-sm font-bold text-orange-600">{pinyin}</span>}
+                  </div>
+                  <p className="text-gray-700">{entry.english}</p>
+                  {example && (
+                    <p className="text-sm text-gray-500 mt-1 truncate">
+                      <span className="font-serif">{example.words.map(w => w.char).join('')}</span>
+                      {example.english && <span className="italic"> — {example.english}</span>}
+                    </p>
+                  )}
+                  <div className="flex flex-wrap gap-1.5 mt-2">
+                    {sources.map(({ lesson }) => (
+                      <button key={lesson.id} onClick={() => onOpenLesson(lesson)} className="text-[10px] font-bold text-orange-700 bg-orange-50 px-2 py-0.5 rounded-full hover:bg-orange-100 flex items-center gap-1">
+                        <BookOpen size={10} /> {lesson.title}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VocabularyBank;
@@ -0,0 +1,44 @@
+import React from 'react';
+import { X, Lightbulb } from 'lucide-react';
+import { LessonLanguage, Word, WordSegment } from '../types';
+import { Romanisation } from '../services/jyutping';
+import { showsJyutping, showsPinyin, pinyinDisplay } from '../services/lessonLanguage';
+import { formatJyutpingAs } from '../services/readingDisplay';
+import { segmentText, POS_LABELS } from '../services/segmentation';
+
+interface Props {
+  words: Word[];
+  segment: WordSegment;
+  language: LessonLanguage;
+  romanisation: Romanisation;
+  onClose: () => void;
+}
+
+const WordPopup: React.FC<Props> = ({ words, segment, language, romanisation, onClose }) => {
+  const chars = words.slice(segment.start, segment.end);
+  const jyutping = chars.map(w => formatJyutpingAs(w.selectedJyutping, romanisation)).filter(Boolean).join(' ');
+  const pinyin = chars.map(pinyinDisplay).filter(Boolean).join(' ');
+
+  return (
+    <div className="relative mb-3 bg-white border border-sky-100 rounded-2xl shadow-lg p-4 animate-fade-in print:hidden">
+      <button onClick={onClose} className="absolute top-3 right-3 text-gray-300 hover:text-gray-600"><X size={16} /></button>
+      <div className="flex items-baseline gap-3 flex-wrap pr-6">
+        <span className="text-3xl font-serif text-gray-900">{segmentText(words, segment)}</span>
+        {showsJyutping(language) && jyutping && <span className="text-sm font-bold text-teal-600">{jyutping}</span>}
+        {showsPinyin(language) && pinyin && <span className="text-sm font-bold text-orange-600">{pinyin}</span>}
+        {segment.pos && POS_LABELS[segment.pos] && (
+          <span className="text-[10px] font-bold uppercase tracking-widest text-sky-700 bg-sky-50 px-2 py-0.5 rounded-full">{POS_LABELS[segment.pos].en}</span>
+        )}
+      </div>
+      <p className="mt-2 text-gray-700">{segment.gloss || <span className="italic text-gray-400">No definition yet.</span>}</p>
+      {segment.note && (
+        <div className="mt-3 p-3 bg-orange-50 border-l-4 border-orange-300 rounded-r-xl text-sm text-gray-800 flex gap-2">
+          <Lightbulb size={16} className="text-orange-500 shrink-0 mt-0.5" />
+          <span className="whitespace-pre-wrap">{segment.note}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WordPopup;
@@ -1,10 +1,15 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { Lesson, Student, ClassroomData } from '../types';
-import { dbService } from '../services/db';
+import { Lesson, Student, ClassroomData, SentenceFeedback } from '../types';
+import { dbService, SCHEMA_VERSION } from '../services/db';
+import { createReportKey } from '../services/progress';
+import { createDataKey } from '../services/encryption';
+import { storeLessonAudio, inlineLessonAudio, pruneAudio } from '../services/audioStore';
+import { DATA_FORMAT_VERSION } from '../services/dataBundle';
 
 interface DataContextType {
   lessons: Lesson[];
   students: Student[];
+  feedback: SentenceFeedback[]; // Teacher comments published in the loaded data file (Student Mode)
   isLoading: boolean;
   isReadOnly: boolean; // True if loaded from static JSON
   loadStaticData: (data: ClassroomData) => void; // For Student Mode
@@ -18,6 +23,7 @@ interface DataContextType {
   getLessonById: (id: string) => Lesson | undefined;
   exportSystemData: () => Promise<ClassroomData>; // For Teacher Export (All Data)
   exportStudentData: (studentId: string) => Promise<ClassroomData>; // For Teacher Export (Single Student)
+  getStudentDataKey: (studentId: string) => Promise<string>; // Link key for encrypted exports, created on first use
 }
 
 const DataContext = createContext<DataContextType | undefined>(undefined);
@@ -27,6 +33,7 @@ const OLD_LOCAL_STORAGE_KEY = 'yuetyu_tutor_data_v1';
 export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [lessons, setLessons] = useState<Lesson[]>([]);
   const [students, setStudents] = useState<Student[]>([]);
+  const [feedback, setFeedback] = useState<SentenceFeedback[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isReadOnly, setIsReadOnly] = useState(false);
 
@@ -42,7 +49,15 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         // Attempt migration if user has old data
         await dbService.migrateFromLocalStorage(OLD_LOCAL_STORAGE_KEY);
 
-        const loadedLessons = await dbService.getAllLessons();
+        // Lessons saved before the audio store held their recordings inline; move them out once.
+        // No re-encoding here, as that would hold up startup for the length of every clip.
+        const loadedLessons: Lesson[] = [];
+        for (const lesson of await dbService.getAllLessons()) {
+          const stored = await storeLessonAudio(lesson, false);
+          if (stored !== lesson) await dbService.saveLesson(stored);
+          loadedLessons.push(stored);
+        }
+        await pruneAudio(loadedLessons);
         const loadedStudents = await dbService.getAllStudents();
         
         // Sort lessons by date desc
@@ -63,18 +78,48 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     setIsReadOnly(true);
     setLessons(data.lessons || []);
     setStudents(data.students || []);
+    setFeedback(data.feedback || []);
     setIsLoading(false);
   };
 
+  // Students added before progress reports have no signing key; they get one on their next export
+  const withReportKeys = async (list: Student[]): Promise<Student[]> => {
+    if (list.every(s => s.reportKey)) return list;
+    const keyed = list.map(s => s.reportKey ? s : { ...s, reportKey: createReportKey() });
+    for (const student of keyed.filter((s, i) => s !== list[i])) await dbService.saveStudent(student);
+    setStudents(prev => prev.map(s => keyed.find(k => k.id === s.id) || s));
+    return keyed;
+  };
+
+  // Link keys open encrypted files, so they stay out of the files themselves
+  const withoutDataKeys = (list: Student[]): Student[] => list.map(({ dataKey: _, ...student }) => student);
+
+  // A report key lets whoever holds it sign reports as that student, so it only goes in the student's own file
+  const withoutReportKeys = (list: Student[]): Student[] => list.map(({ reportKey: _, ...student }) => student);
+
+  const getStudentDataKey = async (studentId: string): Promise<string> => {
+    const student = (await dbService.getAllStudents()).find(s => s.id === studentId);
+    if (!student) throw new Error(`Student with ID ${studentId} not found`);
+    if (student.dataKey) return student.dataKey;
+    const keyed = { ...student, dataKey: createDataKey() };
+    await dbService.saveStudent(keyed);
+    setStudents(prev => prev.map(s => (s.id === studentId ? { ...s, dataKey: keyed.dataKey } : s)));
+    return keyed.dataKey;
+  };
+
   const exportSystemData = async (): Promise<ClassroomData> => {
     // CRITICAL FIX: Fetch directly from IndexedDB to ensure we export exactly what is saved.
-    const dbLessons = await dbService.getAllLessons();
+    const dbLessons = await Promise.all((await dbService.getAllLessons()).map(inlineLessonAudio));
     const dbStudents = await dbService.getAllStudents();
+    const dbFeedback = await dbService.getAllFeedback();
 
     return {
         generatedAt: Date.now(),
-        students: dbStudents,
-        lessons: dbLessons
+        schemaVersion: SCHEMA_VERSION,
+        formatVersion: DATA_FORMAT_VERSION,
+        students: withoutReportKeys(withoutDataKeys(dbStudents)),
+        lessons: dbLessons,
+        feedback: dbFeedback
     };
   };
 
@@ -83,24 +128,30 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     const dbLessons = await dbService.getAllLessons();
     const dbStudents = await dbService.getAllStudents();
 
-    const student = dbStudents.find(s => s.id === studentId);
-    if (!student) throw new Error(`Student with ID ${studentId} not found`);
+    const found = dbStudents.find(s => s.id === studentId);
+    if (!found) throw new Error(`Student with ID ${studentId} not found`);
+    const [student] = await withReportKeys([found]);
 
     // Filter lessons to only those assigned to this student
-    const relevantLessons = dbLessons.filter(l => student.assignedLessonIds.includes(l.id));
+    const relevantLessons = await Promise.all(dbLessons.filter(l => student.assignedLessonIds.includes(l.id)).map(inlineLessonAudio));
+    const studentFeedback = (await dbService.getFeedbackForStudent(studentId)).filter(f => student.assignedLessonIds.includes(f.lessonId));
 
     return {
         generatedAt: Date.now(),
-        students: [student],
-        lessons: relevantLessons
+        schemaVersion: SCHEMA_VERSION,
+        formatVersion: DATA_FORMAT_VERSION,
+        students: withoutDataKeys([student]),
+        lessons: relevantLessons,
+        feedback: studentFeedback
     };
   };
 
   const addLesson = async (lesson: Lesson) => {
     if (isReadOnly) return;
     try {
-      await dbService.saveLesson(lesson);
-      setLessons(prev => [lesson, ...prev]);
+      const stored = await storeLessonAudio(lesson);
+      await dbService.saveLesson(stored);
+      setLessons(prev => [stored, ...prev]);
     } catch (e) {
       console.error("Failed to save lesson", e);
       alert("Error saving lesson. Storage might be full.");
@@ -110,8 +161,9 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   const updateLesson = async (updatedLesson: Lesson) => {
     if (isReadOnly) return;
     try {
-      await dbService.saveLesson(updatedLesson);
-      setLessons(prev => prev.map(l => l.id === updatedLesson.id ? updatedLesson : l));
+      const stored = await storeLessonAudio(updatedLesson);
+      await dbService.saveLesson(stored);
+      setLessons(prev => prev.map(l => l.id === stored.id ? stored : l));
     } catch (e) {
       console.error("Failed to update lesson", e);
       alert("Error updating lesson.");
@@ -133,7 +185,8 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     const newStudent: Student = {
       id: `student-${Date.now()}`,
       name,
-      assignedLessonIds: []
+      assignedLessonIds: [],
+      reportKey: createReportKey()
     };
     try {
       await dbService.saveStudent(newStudent);
@@ -181,11 +234,13 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     <DataContext.Provider value={{
       lessons,
       students,
+      feedback,
       isLoading,
       isReadOnly,
       loadStaticData,
       exportSystemData,
       exportStudentData,
+      getStudentDataKey,
       addLesson,
       updateLesson,
       deleteLesson,
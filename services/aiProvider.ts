@@ -0,0 +1,68 @@
+import { LessonLanguage, Sentence } from '../types';
+import { createGeminiProvider } from './providers/geminiProvider';
+import { createOpenAICompatibleProvider } from './providers/openAICompatibleProvider';
+import { createMockProvider } from './providers/mockProvider';
+
+// Every AI backend (lesson analysis + TTS) implements this interface.
+// Providers throw Error("QUOTA_EXHAUSTED") on rate limits so the editor can back off.
+
+export type AIProviderId = 'gemini' | 'openai-compatible' | 'mock';
+
+export type AnalyzedSentence = Omit<Sentence, 'id'>;
+
+export interface AIProvider {
+  id: AIProviderId;
+  analyzeLesson: (text: string, language: LessonLanguage) => Promise<AnalyzedSentence[]>;
+  synthesizeSpeech: (text: string) => Promise<string>; // Returns an audio data URL
+}
+
+export interface AISettings {
+  provider: AIProviderId;
+  apiKey: string; // Empty means "use the build-time key" for Gemini
+  baseUrl: string; // OpenAI-compatible only, e.g. http://localhost:8000/v1
+  textModel: string;
+  speechModel: string;
+  voice: string;
+}
+
+export const DEFAULT_AI_SETTINGS: Record<AIProviderId, AISettings> = {
+  'gemini': { provider: 'gemini', apiKey: '', baseUrl: '', textModel: 'gemini-3-flash-preview', speechModel: 'gemini-2.5-flash-preview-tts', voice: 'Puck' },
+  'openai-compatible': { provider: 'openai-compatible', apiKey: '', baseUrl: 'http://localhost:8000/v1', textModel: '', speechModel: '', voice: 'alloy' },
+  'mock': { provider: 'mock', apiKey: '', baseUrl: '', textModel: 'fixtures', speechModel: 'tone-synth', voice: 'mock' }
+};
+
+const SETTINGS_KEY = 'yuetyu_ai_settings_v1';
+
+export const loadAISettings = (): AISettings => {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    if (raw) {
+      const saved = JSON.parse(raw);
+      const defaults = DEFAULT_AI_SETTINGS[saved.provider as AIProviderId];
+      if (defaults) return { ...defaults, ...saved };
+    }
+  } catch (e) {
+    console.error("Failed to read AI settings", e);
+  }
+  return DEFAULT_AI_SETTINGS['gemini'];
+};
+
+export const saveAISettings = (settings: AISettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const createProvider = (settings: AISettings): AIProvider => {
+  switch (settings.provider) {
+    case 'openai-compatible': return createOpenAICompatibleProvider(settings);
+    case 'mock': return createMockProvider();
+    default: return createGeminiProvider(settings);
+  }
+};
+
+export const getActiveProvider = (): AIProvider => createProvider(loadAISettings());
+
+// Different providers/voices produce different audio for the same text
+export const getSpeechCacheScope = (): string => {
+  const settings = loadAISettings();
+  return `${settings.provider}:${settings.speechModel}:${settings.voice}`;
+};
@@ -0,0 +1,23 @@
+import { LessonLanguage, Sentence } from "../types";
+import { getActiveProvider } from "./aiProvider";
+import { annotateReadings } from "./jyutpingDictionary";
+import { segmentWords } from "./segmentation";
+
+// Entry points used by the UI; the teacher's settings decide which backend answers.
+
+export const generateLessonContent = async (text: string, language: LessonLanguage): Promise<Sentence[]> => {
+  const sentences = await getActiveProvider().analyzeLesson(text, language);
+  return sentences.map((s, idx) => ({
+    ...s,
+    // Models return a single reading; the dictionary supplies the alternatives and flags polyphones
+    words: language !== 'mandarin' ? annotateReadings(s.words) : s.words,
+    // Backends that don't segment (or got it wrong) fall back to the bundled word list
+    segments: s.segments || segmentWords(s.words),
+    id: `sent-${Date.now()}-${idx}`
+  }));
+};
+
+export const generateCantoneseSpeech = async (text: string): Promise<string> => {
+  if (!text || !text.trim()) throw new Error("Text is empty");
+  return getActiveProvider().synthesizeSpeech(text);
+};
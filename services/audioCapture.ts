@@ -0,0 +1,74 @@
+// Shared microphone capture pipeline used by the teacher recorder and the student shadowing takes.
+
+export interface RecordingSession {
+  // Stops the recorder, releases the microphone and resolves with the recorded clip
+  stop: () => Promise<Blob>;
+}
+
+export const startBoostedRecording = async (): Promise<RecordingSession> => {
+  // 1. Get the raw microphone stream
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+
+  // 2. Setup Web Audio API to process the audio (Boost volume)
+  const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+  const audioContext: AudioContext = new AudioContextClass();
+
+  const source = audioContext.createMediaStreamSource(stream);
+
+  // 2a. Add a Compressor (Standardizes volume, prevents distortion when we boost it)
+  const compressor = audioContext.createDynamicsCompressor();
+  compressor.threshold.value = -24;
+  compressor.knee.value = 30;
+  compressor.ratio.value = 12;
+  compressor.attack.value = 0.003;
+  compressor.release.value = 0.25;
+
+  // 2b. Add a Gain Node (Volume Booster)
+  const gainNode = audioContext.createGain();
+  // Boost volume by 300% (3.0). Standard mics are usually too quiet compared to YouTube.
+  gainNode.gain.value = 3.0;
+
+  // 2c. Connect the graph: Source -> Compressor -> Gain -> Destination
+  const destination = audioContext.createMediaStreamDestination();
+  source.connect(compressor);
+  compressor.connect(gainNode);
+  gainNode.connect(destination);
+
+  // 3. Record from the PROCESSED stream (destination), not the raw stream
+  const recorder = new MediaRecorder(destination.stream);
+  const chunks: Blob[] = [];
+
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) {
+      chunks.push(event.data);
+    }
+  };
+
+  const stopped = new Promise<Blob>((resolve) => {
+    recorder.onstop = () => {
+      // Cleanup Audio Context
+      audioContext.close();
+      // Stop all tracks on the source stream to turn off the mic light
+      stream.getTracks().forEach(track => track.stop());
+      resolve(new Blob(chunks, { type: 'audio/webm' }));
+    };
+  });
+
+  recorder.start();
+
+  return {
+    stop: () => {
+      if (recorder.state !== 'inactive') recorder.stop();
+      return stopped;
+    }
+  };
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
@@ -0,0 +1,150 @@
+import { Lesson, Sentence } from '../types';
+import { dbService } from './db';
+import { blobToDataUrl } from './audioCapture';
+import { decodeAudioSource } from './audioUtils';
+
+// Lesson recordings are kept in their own IndexedDB store as Blobs, keyed by a SHA-256 of the clip,
+// and sentences point at them by id. Lessons then load without their audio, and a clip is only read
+// when someone plays it. Published files still carry audio inline, as students don't have the store.
+
+export interface AudioSettings {
+  opusBitrate: number; // bits per second; 0 keeps clips as recorded
+}
+
+export const OPUS_BITRATES = [0, 16000, 24000, 32000, 48000];
+
+const SETTINGS_KEY = 'yuetyu_audio_settings_v1';
+const PRUNE_AFTER_MS = 7 * 24 * 60 * 60 * 1000;
+const OPUS_MIME = 'audio/webm;codecs=opus';
+
+export const loadAudioSettings = (): AudioSettings => {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    if (raw) return { opusBitrate: 0, ...JSON.parse(raw) };
+  } catch (e) {
+    console.error("Failed to read audio settings", e);
+  }
+  return { opusBitrate: 0 };
+};
+
+export const saveAudioSettings = (settings: AudioSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// Store ids are the hex SHA-256 of the clip
+const AUDIO_ID = /^[0-9a-f]{64}$/;
+
+const hashBlob = async (blob: Blob) =>
+  [...new Uint8Array(await crypto.subtle.digest('SHA-256', await blob.arrayBuffer()))].map(b => b.toString(16).padStart(2, '0')).join('');
+
+// MediaRecorder is the only Opus encoder browsers offer, and it runs in real time: the clip is
+// played silently into it, so re-encoding takes as long as the clip. The original is kept if the
+// browser can't encode Opus or the result comes out larger.
+const reencodeOpus = async (blob: Blob, bitrate: number): Promise<Blob> => {
+  if (typeof MediaRecorder === 'undefined' || !MediaRecorder.isTypeSupported(OPUS_MIME)) return blob;
+  const url = URL.createObjectURL(blob);
+  const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+  const context: AudioContext = new AudioContextClass();
+  try {
+    const buffer = await decodeAudioSource(url);
+    await context.resume();
+    if (context.state !== 'running') return blob;
+
+    const source = context.createBufferSource();
+    const destination = context.createMediaStreamDestination();
+    source.buffer = buffer;
+    source.connect(destination);
+    const recorder = new MediaRecorder(destination.stream, { mimeType: OPUS_MIME, audioBitsPerSecond: bitrate });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+    source.onended = () => recorder.stop();
+    recorder.start();
+    source.start();
+    await stopped;
+
+    const encoded = new Blob(chunks, { type: 'audio/webm' });
+    return encoded.size > 0 && encoded.size < blob.size ? encoded : blob;
+  } catch (e) {
+    console.error("Opus re-encoding failed, keeping the original clip", e);
+    return blob;
+  } finally {
+    context.close();
+    URL.revokeObjectURL(url);
+  }
+};
+
+// Hashes the clip as given, not as stored, so saving the same recording again finds it
+// without re-encoding it (the encoder doesn't produce identical bytes twice)
+export const storeAudio = async (dataUrl: string, reencode = true): Promise<string> => {
+  const blob = await (await fetch(dataUrl)).blob();
+  const id = await hashBlob(blob);
+  if (!(await dbService.hasAudio(id))) {
+    const { opusBitrate } = loadAudioSettings();
+    const stored = reencode && opusBitrate ? await reencodeOpus(blob, opusBitrate) : blob;
+    await dbService.saveAudio({ id, blob: stored, createdAt: Date.now() });
+  }
+  return id;
+};
+
+const objectUrls = new Map<string, Promise<string | undefined>>();
+
+// Turns an audio source into something an <audio> element can play: store ids are read on first
+// use and kept as object URLs for the session, anything else (data URLs, links) passes through
+export const resolveAudio = (source?: string): Promise<string | undefined> => {
+  if (!source) return Promise.resolve(undefined);
+  if (!AUDIO_ID.test(source)) return Promise.resolve(source);
+  if (!objectUrls.has(source)) {
+    objectUrls.set(source, dbService.getAudio(source)
+      .then(audio => audio && URL.createObjectURL(audio.blob))
+      .catch(e => {
+        objectUrls.delete(source);
+        throw e;
+      }));
+  }
+  return objectUrls.get(source)!;
+};
+
+// The sentence's reading as an audio source for resolveAudio
+export const sentenceAudio = (sentence: Sentence): string | undefined => sentence.audioId || sentence.audioBase64 || undefined;
+
+// Moves inline recordings into the store. Clips are stored one at a time, since re-encoding plays them.
+export const storeLessonAudio = async (lesson: Lesson, reencode = true): Promise<Lesson> => {
+  if (!lesson.sentences.some(s => s.audioBase64 || s.explanationAudio)) return lesson;
+  const sentences: Sentence[] = [];
+  for (const { audioBase64, explanationAudio, ...sentence } of lesson.sentences) {
+    sentences.push({
+      ...sentence,
+      ...(audioBase64 ? { audioId: await storeAudio(audioBase64, reencode) } : {}),
+      ...(explanationAudio ? { explanationAudioId: await storeAudio(explanationAudio, reencode) } : {})
+    });
+  }
+  return { ...lesson, sentences };
+};
+
+// The reverse, for published files
+export const inlineLessonAudio = async (lesson: Lesson): Promise<Lesson> => {
+  if (!lesson.sentences.some(s => s.audioId || s.explanationAudioId)) return lesson;
+  const inline = async (id: string) => {
+    const audio = await dbService.getAudio(id);
+    return audio ? blobToDataUrl(audio.blob) : undefined;
+  };
+  const sentences = await Promise.all(lesson.sentences.map(async ({ audioId, explanationAudioId, ...sentence }) => ({
+    ...sentence,
+    ...(audioId ? { audioBase64: await inline(audioId) } : {}),
+    ...(explanationAudioId ? { explanationAudio: await inline(explanationAudioId) } : {})
+  })));
+  return { ...lesson, sentences };
+};
+
+// Deletes week-old clips no saved lesson refers to (replaced recordings, deleted lessons). Newer ones
+// are left alone: a save that failed partway, or is still running in another tab, may have stored
+// its clips but not yet the lesson that refers to them.
+export const pruneAudio = async (lessons: Lesson[], now = Date.now()): Promise<void> => {
+  const used = new Set(lessons.flatMap(l => l.sentences.flatMap(s => [s.audioId, s.explanationAudioId])));
+  for (const id of await dbService.getAudioIdsCreatedBefore(now - PRUNE_AFTER_MS)) {
+    if (!used.has(id)) await dbService.deleteAudio(id);
+  }
+};
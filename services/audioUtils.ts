@@ -0,0 +1,78 @@
+// Decoding and encoding helpers shared by the audio features (pitch, tone scoring, passage splitting).
+
+let sharedContext: AudioContext | null = null;
+
+const getDecodeContext = (): AudioContext => {
+  if (!sharedContext) {
+    const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+    sharedContext = new AudioContextClass();
+  }
+  return sharedContext;
+};
+
+// Accepts data URLs, blob URLs or plain file URLs
+export const decodeAudioSource = async (src: string): Promise<AudioBuffer> => {
+  const res = await fetch(src);
+  const bytes = await res.arrayBuffer();
+  return getDecodeContext().decodeAudioData(bytes);
+};
+
+// Mixes all channels down to a single Float32Array
+export const toMono = (buffer: AudioBuffer): Float32Array => {
+  if (buffer.numberOfChannels === 1) return buffer.getChannelData(0);
+  const out = new Float32Array(buffer.length);
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let i = 0; i < data.length; i++) out[i] += data[i] / buffer.numberOfChannels;
+  }
+  return out;
+};
+
+// Renders the buffer to mono at the target rate (speech doesn't need 48kHz and it halves file size)
+export const resampleToMono = async (buffer: AudioBuffer, targetRate: number): Promise<Float32Array> => {
+  const length = Math.ceil(buffer.duration * targetRate);
+  const offline = new OfflineAudioContext(1, length, targetRate);
+  const source = offline.createBufferSource();
+  source.buffer = buffer;
+  source.connect(offline.destination);
+  source.start();
+  const rendered = await offline.startRendering();
+  return rendered.getChannelData(0);
+};
+
+const writeString = (view: DataView, offset: number, value: string) => {
+  for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+};
+
+// 16-bit PCM WAV, returned as a data URL so it can go straight into Sentence.audioBase64
+export const encodeWavDataUrl = (samples: Float32Array, sampleRate: number): string => {
+  const dataSize = samples.length * 2;
+  const buffer = new ArrayBuffer(44 + dataSize);
+  const dv = new DataView(buffer);
+
+  writeString(dv, 0, 'RIFF');
+  dv.setUint32(4, 36 + dataSize, true);
+  writeString(dv, 8, 'WAVE');
+  writeString(dv, 12, 'fmt ');
+  dv.setUint32(16, 16, true);
+  dv.setUint16(20, 1, true);
+  dv.setUint16(22, 1, true);
+  dv.setUint32(24, sampleRate, true);
+  dv.setUint32(28, sampleRate * 2, true);
+  dv.setUint16(32, 2, true);
+  dv.setUint16(34, 16, true);
+  writeString(dv, 36, 'data');
+  dv.setUint32(40, dataSize, true);
+
+  for (let i = 0; i < samples.length; i++) {
+    const clamped = Math.max(-1, Math.min(1, samples[i]));
+    dv.setInt16(44 + i * 2, clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff, true);
+  }
+
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return 'data:audio/wav;base64,' + btoa(binary);
+};
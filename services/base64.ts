@@ -0,0 +1,10 @@
+// Base64 for binary data in exported files, where payloads run to megabytes
+
+export const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  // Chunked, as spreading a multi-megabyte array into one call overflows the stack
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary);
+};
+
+export const fromBase64 = (text: string) => Uint8Array.from(atob(text), c => c.charCodeAt(0));
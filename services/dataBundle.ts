@@ -0,0 +1,88 @@
+import { compressToUint8Array, decompressFromUint8Array } from 'lz-string';
+import { BundleManifest, ClassroomData } from '../types';
+import { createZip, isZip, readZip } from './zip';
+import { fromBase64, toBase64 } from './base64';
+
+// Published data files as a zip: an lz-string compressed manifest plus each distinct recording
+// as its own file. Inlined base64 audio made the old JSON files tens of megabytes, and the same
+// clip (a word reused across lessons, cached TTS) was repeated every time it appeared.
+
+export const BUNDLE_VERSION = 1;
+
+// Version of the ClassroomData inside, which the loader checks. The schema version is stamped too,
+// but a database migration such as a new index doesn't change what a file holds, and students'
+// cached copies of the app shouldn't refuse files they can read. Bump this when the contents change shape.
+export const DATA_FORMAT_VERSION = 1;
+const MANIFEST_PATH = 'manifest.lz';
+const MEDIA_REF_PREFIX = 'bundle-media:';
+
+const AUDIO_DATA_URL = /^data:(audio\/[^,]*?);base64,/;
+
+const EXTENSIONS: Record<string, string> = { wav: 'wav', 'x-wav': 'wav', webm: 'webm', ogg: 'ogg', mpeg: 'mp3', mp4: 'm4a', aac: 'aac' };
+
+const extensionFor = (mimeType: string) => EXTENSIONS[mimeType.split(';')[0].split('/')[1]] || 'bin';
+
+const contentHash = async (bytes: Uint8Array) =>
+  [...new Uint8Array(await crypto.subtle.digest('SHA-256', bytes))].slice(0, 16).map(b => b.toString(16).padStart(2, '0')).join('');
+
+// Rebuilds a JSON value with every string passed through `replace`
+const mapStrings = (value: any, replace: (text: string) => string): any => {
+  if (typeof value === 'string') return replace(value);
+  if (Array.isArray(value)) return value.map(v => mapStrings(v, replace));
+  if (value && typeof value === 'object') return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, mapStrings(v, replace)]));
+  return value;
+};
+
+const collectStrings = (value: any, found: Set<string>) => {
+  if (typeof value === 'string') found.add(value);
+  else if (Array.isArray(value)) value.forEach(v => collectStrings(v, found));
+  else if (value && typeof value === 'object') Object.values(value).forEach(v => collectStrings(v, found));
+};
+
+export const isBundle = isZip;
+
+export const buildBundle = async (data: ClassroomData): Promise<Uint8Array> => {
+  const strings = new Set<string>();
+  collectStrings(data, strings);
+
+  const refs = new Map<string, string>(); // data URL -> zip path
+  const media: Record<string, string> = {};
+  const files = new Map<string, Uint8Array>();
+  for (const text of strings) {
+    const match = text.match(AUDIO_DATA_URL);
+    if (!match) continue;
+    const bytes = fromBase64(text.slice(match[0].length));
+    const path = `media/${await contentHash(bytes)}.${extensionFor(match[1])}`;
+    refs.set(text, path);
+    media[path] = match[1];
+    files.set(path, bytes);
+  }
+
+  const manifest: BundleManifest = {
+    format: 'yuetyu-bundle',
+    version: BUNDLE_VERSION,
+    media,
+    data: mapStrings(data, text => (refs.has(text) ? MEDIA_REF_PREFIX + refs.get(text) : text))
+  };
+  return createZip([
+    { name: MANIFEST_PATH, data: compressToUint8Array(JSON.stringify(manifest)) },
+    ...[...files].map(([name, bytes]) => ({ name, data: bytes }))
+  ]);
+};
+
+export const readBundle = async (bytes: Uint8Array): Promise<ClassroomData> => {
+  const entries = await readZip(bytes);
+  const packed = entries.get(MANIFEST_PATH);
+  if (!packed) throw new Error("INVALID_BUNDLE");
+  const manifest: BundleManifest = JSON.parse(decompressFromUint8Array(packed) || 'null');
+  if (manifest?.format !== 'yuetyu-bundle') throw new Error("INVALID_BUNDLE");
+  if (manifest.version > BUNDLE_VERSION) throw new Error("UNSUPPORTED_BUNDLE_VERSION");
+
+  // Each clip is encoded once, however many places refer to it
+  const dataUrls = new Map<string, string>();
+  for (const [path, mimeType] of Object.entries(manifest.media)) {
+    const file = entries.get(path);
+    if (file) dataUrls.set(MEDIA_REF_PREFIX + path, `data:${mimeType};base64,${toBase64(file)}`);
+  }
+  return mapStrings(manifest.data, text => dataUrls.get(text) ?? text);
+};
@@ -0,0 +1,173 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect } from 'vitest';
+import {
+  runMigrations, SCHEMA_VERSION, STORE_LESSONS, STORE_STUDENTS, STORE_TAKES, STORE_TTS_CACHE, STORE_REVIEW_CARDS, STORE_REVIEW_LOG,
+  STORE_PROGRESS, STORE_PROGRESS_REPORTS, STORE_SUBMISSIONS, STORE_FEEDBACK, STORE_TEACHER_AUTH, STORE_AUDIO
+} from './db';
+
+// Each test builds its own database at the version before a step, fills it with records,
+// then reopens it at the step's version, the way a browser that last ran an older release would.
+
+let dbCount = 0;
+
+const openAt = (name: string, version: number): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(name, version);
+    request.onupgradeneeded = (event) => runMigrations(request.result, request.transaction!, event.oldVersion, version);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const put = (db: IDBDatabase, storeName: string, records: any[]): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, 'readwrite');
+    records.forEach(r => transaction.objectStore(storeName).put(r));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+
+const getAll = (db: IDBDatabase, storeName: string, indexName?: string, query?: IDBValidKey): Promise<any[]> =>
+  new Promise((resolve, reject) => {
+    const store = db.transaction(storeName, 'readonly').objectStore(storeName);
+    const request = indexName ? store.index(indexName).getAll(query) : store.getAll();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const storeNames = (db: IDBDatabase) => [...db.objectStoreNames].sort();
+
+const storeShape = (db: IDBDatabase, storeName: string) => {
+  const store = db.transaction(storeName, 'readonly').objectStore(storeName);
+  const indexes = Object.fromEntries([...store.indexNames].map(name => [name, store.index(name).keyPath]));
+  return { keyPath: store.keyPath, indexes };
+};
+
+// Opens at `version - 1`, lets `seed` write to it, then upgrades to `version`
+const upgradeTo = async (version: number, seed: (db: IDBDatabase) => Promise<void> = async () => {}): Promise<IDBDatabase> => {
+  const name = `migration-test-${++dbCount}`;
+  if (version > 1) {
+    const before = await openAt(name, version - 1);
+    await seed(before);
+    before.close();
+  }
+  const db = await openAt(name, version);
+  expect(db.version).toBe(version);
+  return db;
+};
+
+const lesson = { id: 'lesson-1', title: '飲茶', createdAt: 1, sentences: [] };
+const student = { id: 'student-1', name: 'Ada', assignedLessonIds: ['lesson-1'] };
+const take = (id: string, studentId: string, lessonId: string, createdAt = 1) => ({ id, studentId, lessonId, sentenceId: 's1', audioBase64: 'data:audio/webm;base64,', createdAt });
+
+describe('database migrations', () => {
+  it('v1 creates the lesson and student stores', async () => {
+    const db = await upgradeTo(1);
+    expect(storeNames(db)).toEqual([STORE_LESSONS, STORE_STUDENTS].sort());
+    expect(storeShape(db, STORE_LESSONS)).toEqual({ keyPath: 'id', indexes: {} });
+    expect(storeShape(db, STORE_STUDENTS)).toEqual({ keyPath: 'id', indexes: {} });
+    db.close();
+  });
+
+  it('v2 adds student takes indexed by lesson and keeps lessons and students', async () => {
+    const db = await upgradeTo(2, async (v1) => {
+      await put(v1, STORE_LESSONS, [lesson]);
+      await put(v1, STORE_STUDENTS, [student]);
+    });
+    expect(storeShape(db, STORE_TAKES)).toEqual({ keyPath: 'id', indexes: { lessonId: 'lessonId' } });
+    expect(await getAll(db, STORE_LESSONS)).toEqual([lesson]);
+    expect(await getAll(db, STORE_STUDENTS)).toEqual([student]);
+    db.close();
+  });
+
+  it('v3 adds the TTS cache keyed by text and keeps takes', async () => {
+    const db = await upgradeTo(3, async (v2) => {
+      await put(v2, STORE_TAKES, [take('take-1', 'student-1', 'lesson-1')]);
+    });
+    expect(storeShape(db, STORE_TTS_CACHE)).toEqual({ keyPath: 'key', indexes: {} });
+    expect(await getAll(db, STORE_TAKES, 'lessonId', 'lesson-1')).toEqual([take('take-1', 'student-1', 'lesson-1')]);
+    db.close();
+  });
+
+  it('v4 adds review cards and the review log, both indexed by student', async () => {
+    const cached = { key: 'yue|早晨', audioBase64: 'data:audio/wav;base64,', createdAt: 1 };
+    const db = await upgradeTo(4, async (v3) => {
+      await put(v3, STORE_TTS_CACHE, [cached]);
+    });
+    expect(storeShape(db, STORE_REVIEW_CARDS)).toEqual({ keyPath: 'id', indexes: { studentId: 'studentId' } });
+    expect(storeShape(db, STORE_REVIEW_LOG)).toEqual({ keyPath: 'id', indexes: { studentId: 'studentId' } });
+    expect(await getAll(db, STORE_TTS_CACHE)).toEqual([cached]);
+    db.close();
+  });
+
+  it('v5 adds lesson progress indexed by student and progress reports keyed by student', async () => {
+    const card = { id: 'student-1|lesson-1|s1|english-say', studentId: 'student-1', lessonId: 'lesson-1', sourceId: 's1', type: 'english-say', ease: 2.5, interval: 0, repetitions: 0, dueAt: 1 };
+    const db = await upgradeTo(5, async (v4) => {
+      await put(v4, STORE_REVIEW_CARDS, [card]);
+    });
+    expect(storeShape(db, STORE_PROGRESS)).toEqual({ keyPath: 'id', indexes: { studentId: 'studentId' } });
+    expect(storeShape(db, STORE_PROGRESS_REPORTS)).toEqual({ keyPath: 'studentId', indexes: {} });
+    expect(await getAll(db, STORE_REVIEW_CARDS, 'studentId', 'student-1')).toEqual([card]);
+    db.close();
+  });
+
+  it('v6 adds submissions and feedback indexed by student', async () => {
+    const progress = { id: 'student-1|lesson-1', studentId: 'student-1', lessonId: 'lesson-1', listens: 3, recordings: 1, scores: [], timeSpentMs: 0, firstOpenedAt: 1, lastActiveAt: 1 };
+    const db = await upgradeTo(6, async (v5) => {
+      await put(v5, STORE_PROGRESS, [progress]);
+    });
+    expect(storeShape(db, STORE_SUBMISSIONS)).toEqual({ keyPath: 'id', indexes: {} });
+    expect(storeShape(db, STORE_FEEDBACK)).toEqual({ keyPath: 'id', indexes: { studentId: 'studentId' } });
+    expect(await getAll(db, STORE_PROGRESS, 'studentId', 'student-1')).toEqual([progress]);
+    db.close();
+  });
+
+  it('v7 adds the teacher credential store', async () => {
+    const feedback = { id: 'feedback-1', studentId: 'student-1', lessonId: 'lesson-1', sentenceId: 's1', text: '好', createdAt: 1 };
+    const db = await upgradeTo(7, async (v6) => {
+      await put(v6, STORE_FEEDBACK, [feedback]);
+    });
+    expect(storeShape(db, STORE_TEACHER_AUTH)).toEqual({ keyPath: 'id', indexes: {} });
+    expect(await getAll(db, STORE_FEEDBACK, 'studentId', 'student-1')).toEqual([feedback]);
+    db.close();
+  });
+
+  it('v8 adds the audio blob store indexed by creation time', async () => {
+    const credential = { id: 'teacher', salt: '00', hash: '00', iterations: 1, failedAttempts: 0, lockedUntil: 0, updatedAt: 1 };
+    const db = await upgradeTo(8, async (v7) => {
+      await put(v7, STORE_TEACHER_AUTH, [credential]);
+    });
+    expect(storeShape(db, STORE_AUDIO)).toEqual({ keyPath: 'id', indexes: { createdAt: 'createdAt' } });
+    expect(await getAll(db, STORE_TEACHER_AUTH)).toEqual([credential]);
+    db.close();
+  });
+
+  it('v9 indexes existing takes by student and lesson', async () => {
+    const takes = [
+      take('take-1', 'student-1', 'lesson-1', 2),
+      take('take-2', 'student-2', 'lesson-1', 1),
+      take('take-3', 'student-1', 'lesson-2', 3),
+      take('take-4', 'student-1', 'lesson-1', 4)
+    ];
+    const db = await upgradeTo(9, async (v8) => {
+      await put(v8, STORE_TAKES, takes);
+    });
+    expect(storeShape(db, STORE_TAKES)).toEqual({
+      keyPath: 'id',
+      indexes: { lessonId: 'lessonId', studentLesson: ['studentId', 'lessonId'] }
+    });
+    const found = await getAll(db, STORE_TAKES, 'studentLesson', ['student-1', 'lesson-1']);
+    expect(found.map(t => t.id).sort()).toEqual(['take-1', 'take-4']);
+    expect(await getAll(db, STORE_TAKES, 'studentLesson', ['student-2', 'lesson-2'])).toEqual([]);
+    db.close();
+  });
+
+  it('a new browser runs every step up to the latest version', async () => {
+    const db = await openAt(`migration-test-${++dbCount}`, SCHEMA_VERSION);
+    expect(storeNames(db)).toEqual([
+      STORE_LESSONS, STORE_STUDENTS, STORE_TAKES, STORE_TTS_CACHE, STORE_REVIEW_CARDS, STORE_REVIEW_LOG,
+      STORE_PROGRESS, STORE_PROGRESS_REPORTS, STORE_SUBMISSIONS, STORE_FEEDBACK, STORE_TEACHER_AUTH, STORE_AUDIO
+    ].sort());
+    expect(storeShape(db, STORE_TAKES).indexes).toHaveProperty('studentLesson');
+    db.close();
+  });
+});
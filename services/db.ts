@@ -1,34 +1,132 @@
-import { Lesson, Student } from '../types';
+import { Lesson, Student, StudentTake, CachedSpeech, ReviewCard, ReviewLogEntry, LessonProgress, ProgressReport, SubmissionPackage, SentenceFeedback, TeacherCredential, StoredAudio } from '../types';
 
 const DB_NAME = 'YuetYuTutorDB';
-const DB_VERSION = 1;
-const STORE_LESSONS = 'lessons';
-const STORE_STUDENTS = 'students';
+export const STORE_LESSONS = 'lessons';
+export const STORE_STUDENTS = 'students';
+export const STORE_TAKES = 'studentTakes';
+export const STORE_TTS_CACHE = 'ttsCache';
+export const STORE_REVIEW_CARDS = 'reviewCards';
+export const STORE_REVIEW_LOG = 'reviewLog';
+export const STORE_PROGRESS = 'lessonProgress';
+export const STORE_PROGRESS_REPORTS = 'progressReports';
+export const STORE_SUBMISSIONS = 'submissions';
+export const STORE_FEEDBACK = 'feedback';
+export const STORE_TEACHER_AUTH = 'teacherAuth';
+export const STORE_AUDIO = 'audioBlobs';
+
+interface Migration {
+  version: number;
+  upgrade: (db: IDBDatabase, transaction: IDBTransaction) => void;
+}
+
+// Schema history, oldest first. Each step takes the database from the previous version to its own,
+// so a browser that skipped releases replays every step it missed. Add new steps at the end and
+// never edit a released one: some browser out there is still at that version.
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    upgrade: (db) => {
+      db.createObjectStore(STORE_LESSONS, { keyPath: 'id' });
+      db.createObjectStore(STORE_STUDENTS, { keyPath: 'id' });
+    }
+  },
+  {
+    version: 2,
+    upgrade: (db) => {
+      const takes = db.createObjectStore(STORE_TAKES, { keyPath: 'id' });
+      takes.createIndex('lessonId', 'lessonId', { unique: false });
+    }
+  },
+  {
+    version: 3,
+    upgrade: (db) => {
+      db.createObjectStore(STORE_TTS_CACHE, { keyPath: 'key' });
+    }
+  },
+  {
+    version: 4,
+    upgrade: (db) => {
+      const cards = db.createObjectStore(STORE_REVIEW_CARDS, { keyPath: 'id' });
+      cards.createIndex('studentId', 'studentId', { unique: false });
+      const log = db.createObjectStore(STORE_REVIEW_LOG, { keyPath: 'id' });
+      log.createIndex('studentId', 'studentId', { unique: false });
+    }
+  },
+  {
+    version: 5,
+    upgrade: (db) => {
+      const progress = db.createObjectStore(STORE_PROGRESS, { keyPath: 'id' });
+      progress.createIndex('studentId', 'studentId', { unique: false });
+      db.createObjectStore(STORE_PROGRESS_REPORTS, { keyPath: 'studentId' });
+    }
+  },
+  {
+    version: 6,
+    upgrade: (db) => {
+      db.createObjectStore(STORE_SUBMISSIONS, { keyPath: 'id' });
+      const feedback = db.createObjectStore(STORE_FEEDBACK, { keyPath: 'id' });
+      feedback.createIndex('studentId', 'studentId', { unique: false });
+    }
+  },
+  {
+    version: 7,
+    upgrade: (db) => {
+      db.createObjectStore(STORE_TEACHER_AUTH, { keyPath: 'id' });
+    }
+  },
+  {
+    version: 8,
+    upgrade: (db) => {
+      const audio = db.createObjectStore(STORE_AUDIO, { keyPath: 'id' });
+      audio.createIndex('createdAt', 'createdAt', { unique: false });
+    }
+  },
+  {
+    // Takes were looked up by lesson and then filtered by student in memory
+    version: 9,
+    upgrade: (_db, transaction) => {
+      transaction.objectStore(STORE_TAKES).createIndex('studentLesson', ['studentId', 'lessonId'], { unique: false });
+    }
+  }
+];
+
+// Stamped into exported files alongside DATA_FORMAT_VERSION, which is what the loader checks
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// Runs every step after `oldVersion` up to `newVersion`, in order, inside one upgrade transaction
+export const runMigrations = (db: IDBDatabase, transaction: IDBTransaction, oldVersion: number, newVersion = SCHEMA_VERSION) => {
+  for (const migration of MIGRATIONS) {
+    if (migration.version > oldVersion && migration.version <= newVersion) migration.upgrade(db, transaction);
+  }
+};
 
 class DBService {
   private db: IDBDatabase | null = null;
 
   async init(): Promise<void> {
     return new Promise((resolve, reject) => {
-      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      const request = indexedDB.open(DB_NAME, SCHEMA_VERSION);
 
       request.onerror = (event) => {
         console.error("IndexedDB error:", request.error);
         reject("Could not open database");
       };
 
-      request.onupgradeneeded = (event) => {
-        const db = (event.target as IDBOpenDBRequest).result;
-        if (!db.objectStoreNames.contains(STORE_LESSONS)) {
-          db.createObjectStore(STORE_LESSONS, { keyPath: 'id' });
-        }
-        if (!db.objectStoreNames.contains(STORE_STUDENTS)) {
-          db.createObjectStore(STORE_STUDENTS, { keyPath: 'id' });
-        }
+      request.onupgradeneeded = (event) => runMigrations(request.result, request.transaction!, event.oldVersion);
+
+      request.onblocked = () => {
+        console.warn("Database upgrade is waiting for another tab with an older version to close");
       };
 
       request.onsuccess = (event) => {
-        this.db = (event.target as IDBOpenDBRequest).result;
+        const db = (event.target as IDBOpenDBRequest).result;
+        // A newer version opened in another tab can't upgrade while this connection stays open
+        db.onversionchange = () => {
+          db.close();
+          this.db = null;
+          alert("YuetYu Tutor was updated in another tab. Please reload this page.");
+        };
+        this.db = db;
         resolve();
       };
     });
@@ -94,6 +192,260 @@ class DBService {
     });
   }
 
+  // Student takes live in IndexedDB even when the portal runs read-only from static JSON
+  async getTakesForLesson(studentId: string, lessonId: string): Promise<StudentTake[]> {
+    return new Promise((resolve, reject) => {
+      const store = this.getStore(STORE_TAKES, 'readonly');
+      const request = store.index('studentLesson').getAll([studentId, lessonId]);
+      request.onsuccess = () => {
+        const takes: StudentTake[] = request.result || [];
+        resolve(takes.sort((a, b) => a.createdAt - b.createdAt));
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async saveTake(take: StudentTake): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const store = this.getStore(STORE_TAKES, 'readwrite');
+      const request = store.put(take);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async deleteTake(id: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const store = this.getStore(STORE_TAKES, 'readwrite');
+      const request = store.delete(id);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async getCachedSpeech(key: string): Promise<CachedSpeech | undefined> {
+    return new Promise((resolve, reject) => {
+      const store = this.getStore(STORE_TTS_CACHE, 'readonly');
+      const request = store.get(key);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async saveCachedSpeech(entry: CachedSpeech): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const store = this.getStore(STORE_TTS_CACHE, 'readwrite');
+      const request = store.put(entry);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // Review progress, like takes, is the student's own and is written even in read-only mode
+  async getReviewCards(studentId: string): Promise<ReviewCard[]> {
+    return new Promise((resolve, reject) => {
+      const store = this.getStore(STORE_REVIEW_CARDS, 'readonly');
+      const request = store.index('studentId').getAll(studentId);
+      request.onsuccess = () => resolve(request.result || []);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // Card and log entry are written in one transaction so the history never disagrees with the schedule
+  async saveReview(card: ReviewCard, entry: ReviewLogEntry): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.db) throw new Error("Database not initialized");
+      const transaction = this.db.transaction([STORE_REVIEW_CARDS, STORE_REVIEW_LOG], 'readwrite');
+      transaction.objectStore(STORE_REVIEW_CARDS).put(card);
+      transaction.objectStore(STORE_REVIEW_LOG).put(entry);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  async getReviewLog(studentId: string): Promise<ReviewLogEntry[]> {
+    return new Promise((resolve, reject) => {
+      const store = this.getStore(STORE_REVIEW_LOG, 'readonly');
+      const request = store.index('studentId').getAll(studentId);
+      request.onsuccess = () => resolve((request.result || []).sort((a: ReviewLogEntry, b: ReviewLogEntry) => a.reviewedAt - b.reviewedAt));
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // Student side: activity counters, written even in read-only mode
+  async getProgress(studentId: string): Promise<LessonProgress[]> {
+    return new Promise((resolve, reject) => {
+      const store = this.getStore(STORE_PROGRESS, 'readonly');
+      const request = store.index('studentId').getAll(studentId);
+      request.onsuccess = () => resolve(request.result || []);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async getLessonProgress(id: string): Promise<LessonProgress | undefined> {
+    return new Promise((resolve, reject) => {
+      const store = this.getStore(STORE_PROGRESS, 'readonly');
+      const request = store.get(id);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async saveLessonProgress(progress: LessonProgress): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const store = this.getStore(STORE_PROGRESS, 'readwrite');
+      const request = store.put(progress);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // Teacher side: the latest verified report from each student
+  async getProgressReports(): Promise<ProgressReport[]> {
+    return new Promise((resolve, reject) => {
+      const store = this.getStore(STORE_PROGRESS_REPORTS, 'readonly');
+      const request = store.getAll();
+      request.onsuccess = () => resolve(request.result || []);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async saveProgressReport(report: ProgressReport): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const store = this.getStore(STORE_PROGRESS_REPORTS, 'readwrite');
+      const request = store.put(report);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // Teacher side: recordings students submitted, and the feedback written on them
+  async getSubmissions(): Promise<SubmissionPackage[]> {
+    return new Promise((resolve, reject) => {
+      const store = this.getStore(STORE_SUBMISSIONS, 'readonly');
+      const request = store.getAll();
+      request.onsuccess = () => resolve(request.result || []);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async saveSubmission(submission: SubmissionPackage): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const store = this.getStore(STORE_SUBMISSIONS, 'readwrite');
+      const request = store.put(submission);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async getAllFeedback(): Promise<SentenceFeedback[]> {
+    return new Promise((resolve, reject) => {
+      const store = this.getStore(STORE_FEEDBACK, 'readonly');
+      const request = store.getAll();
+      request.onsuccess = () => resolve(request.result || []);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async getFeedbackForStudent(studentId: string): Promise<SentenceFeedback[]> {
+    return new Promise((resolve, reject) => {
+      const store = this.getStore(STORE_FEEDBACK, 'readonly');
+      const request = store.index('studentId').getAll(studentId);
+      request.onsuccess = () => resolve(request.result || []);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async saveFeedback(feedback: SentenceFeedback): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const store = this.getStore(STORE_FEEDBACK, 'readwrite');
+      const request = store.put(feedback);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async deleteFeedback(id: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const store = this.getStore(STORE_FEEDBACK, 'readwrite');
+      const request = store.delete(id);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async getTeacherCredential(): Promise<TeacherCredential | undefined> {
+    return new Promise((resolve, reject) => {
+      const store = this.getStore(STORE_TEACHER_AUTH, 'readonly');
+      const request = store.get('teacher');
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async saveTeacherCredential(credential: TeacherCredential): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const store = this.getStore(STORE_TEACHER_AUTH, 'readwrite');
+      const request = store.put(credential);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // Lesson audio lives apart from the lessons so that loading them doesn't load every recording
+  async getAudio(id: string): Promise<StoredAudio | undefined> {
+    return new Promise((resolve, reject) => {
+      const store = this.getStore(STORE_AUDIO, 'readonly');
+      const request = store.get(id);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // Checks for a clip by key alone, without reading its Blob
+  async hasAudio(id: string): Promise<boolean> {
+    return new Promise((resolve, reject) => {
+      const store = this.getStore(STORE_AUDIO, 'readonly');
+      const request = store.count(id);
+      request.onsuccess = () => resolve(request.result > 0);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // Walks the createdAt index with a key cursor, so no Blob is read
+  async getAudioIdsCreatedBefore(time: number): Promise<string[]> {
+    return new Promise((resolve, reject) => {
+      const store = this.getStore(STORE_AUDIO, 'readonly');
+      const request = store.index('createdAt').openKeyCursor(IDBKeyRange.upperBound(time, true));
+      const ids: string[] = [];
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return resolve(ids);
+        ids.push(cursor.primaryKey as string);
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async saveAudio(audio: StoredAudio): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const store = this.getStore(STORE_AUDIO, 'readwrite');
+      const request = store.put(audio);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async deleteAudio(id: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const store = this.getStore(STORE_AUDIO, 'readwrite');
+      const request = store.delete(id);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
   // Migration utility to move data from localStorage to IndexedDB if it exists
   async migrateFromLocalStorage(key: string): Promise<boolean> {
     const raw = localStorage.getItem(key);
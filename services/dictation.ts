@@ -0,0 +1,161 @@
+import { Word } from '../types';
+import { parseJyutping, JyutpingSyllable } from './jyutping';
+import { getReadings, toTraditional } from './jyutpingDictionary';
+import { isSyllable } from './syllableTiming';
+
+// Grades a typed dictation against a sentence's words, syllable by syllable, and tallies the
+// kinds of mistakes across a lesson so students can see the ones they keep making.
+
+export type DictationMode = 'characters' | 'jyutping';
+
+// tone: right sound, wrong tone. sound: wrong initial and/or final. character: wrong character.
+export type DictationMark = 'correct' | 'tone' | 'sound' | 'character' | 'missing' | 'extra';
+
+export type SyllablePart = 'initial' | 'final' | 'tone';
+
+export interface DictationToken {
+  mark: DictationMark;
+  wordIndex?: number; // Into Sentence.words; absent for extra input
+  expected?: string; // The character, or its Jyutping in Jyutping mode
+  typed?: string;
+  // Parts that differ from the expected reading. For a wrong character, compared against the
+  // typed character's closest reading: an empty list means a homophone.
+  parts?: SyllablePart[];
+  confusions?: Confusion[];
+}
+
+export interface Confusion {
+  part: SyllablePart;
+  expected: string;
+  typed: string;
+}
+
+export interface DictationResult {
+  mode: DictationMode;
+  tokens: DictationToken[];
+  score: number; // 0-100, share of syllables typed correctly
+}
+
+// Displays the null initial of syllables like "aa3" or "ng5"
+export const NULL_INITIAL = '∅';
+
+const compare = (expected: JyutpingSyllable, typed: JyutpingSyllable): Confusion[] => {
+  const out: Confusion[] = [];
+  if (expected.initial !== typed.initial) out.push({ part: 'initial', expected: expected.initial || NULL_INITIAL, typed: typed.initial || NULL_INITIAL });
+  if (expected.final !== typed.final) out.push({ part: 'final', expected: expected.final, typed: typed.final });
+  if (expected.tone !== typed.tone) out.push({ part: 'tone', expected: String(expected.tone), typed: String(typed.tone) });
+  return out;
+};
+
+// Alignment cost of putting `typed` where `expected` was: near-misses line up before outright swaps
+const substitutionCost = (expected: JyutpingSyllable | null, typed: JyutpingSyllable | null, same: boolean): number => {
+  if (same) return 0;
+  if (!expected || !typed) return 1;
+  const differs = compare(expected, typed).length;
+  return differs === 1 ? 0.4 : differs === 2 ? 0.7 : 1;
+};
+
+// Weighted edit distance with backtrace. Returns [expectedIndex, typedIndex] pairs; -1 marks a gap.
+const align = (n: number, m: number, cost: (i: number, j: number) => number): [number, number][] => {
+  const d: number[][] = Array.from({ length: n + 1 }, (_, i) => Array.from({ length: m + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0)));
+  for (let i = 1; i <= n; i++) {
+    for (let j = 1; j <= m; j++) {
+      d[i][j] = Math.min(d[i - 1][j - 1] + cost(i - 1, j - 1), d[i - 1][j] + 1, d[i][j - 1] + 1);
+    }
+  }
+  const pairs: [number, number][] = [];
+  let i = n;
+  let j = m;
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0 && d[i][j] === d[i - 1][j - 1] + cost(i - 1, j - 1)) {
+      pairs.push([--i, --j]);
+    } else if (i > 0 && d[i][j] === d[i - 1][j] + 1) {
+      pairs.push([--i, -1]);
+    } else {
+      pairs.push([-1, --j]);
+    }
+  }
+  return pairs.reverse();
+};
+
+// Tone numbers end a syllable, so "ngo5dei6" splits without spaces
+export const splitJyutpingInput = (input: string): string[] => input.toLowerCase().match(/[a-z]+[1-6]?/g) || [];
+
+const splitCharacterInput = (input: string): string[] => [...input].filter(c => /[\u4e00-\u9fa5]/.test(c));
+
+// The typed character's reading that is closest to the expected one
+const closestReading = (expected: JyutpingSyllable | null, char: string): JyutpingSyllable | null => {
+  const readings = getReadings(toTraditional(char)).map(parseJyutping).filter((r): r is JyutpingSyllable => !!r);
+  if (!expected || readings.length === 0) return null;
+  return readings.reduce((best, r) => (compare(expected, r).length < compare(expected, best).length ? r : best));
+};
+
+export const gradeDictation = (words: Word[], input: string, mode: DictationMode): DictationResult => {
+  const targets = words.map((w, wordIndex) => ({ w, wordIndex })).filter(({ w }) => isSyllable(w));
+  const expectedSyllables = targets.map(({ w }) => parseJyutping(w.selectedJyutping));
+  const typed = mode === 'jyutping' ? splitJyutpingInput(input) : splitCharacterInput(input);
+
+  const sameAt = (i: number, j: number) =>
+    mode === 'jyutping'
+      ? typed[j] === targets[i].w.selectedJyutping.trim().toLowerCase()
+      : toTraditional(typed[j]) === toTraditional(targets[i].w.char);
+  const typedSyllable = (i: number, j: number) =>
+    mode === 'jyutping' ? parseJyutping(typed[j]) : closestReading(expectedSyllables[i], typed[j]);
+
+  const pairs = align(targets.length, typed.length, (i, j) => substitutionCost(expectedSyllables[i], typedSyllable(i, j), sameAt(i, j)));
+
+  const tokens: DictationToken[] = pairs.map(([i, j]) => {
+    if (i === -1) return { mark: 'extra', typed: typed[j] };
+    const { w, wordIndex } = targets[i];
+    const expected = mode === 'jyutping' ? w.selectedJyutping : w.char;
+    if (j === -1) return { mark: 'missing', wordIndex, expected };
+    if (sameAt(i, j)) return { mark: 'correct', wordIndex, expected, typed: typed[j] };
+
+    const expectedSyllable = expectedSyllables[i];
+    const actual = typedSyllable(i, j);
+    const confusions = expectedSyllable && actual ? compare(expectedSyllable, actual) : [];
+    const parts = confusions.map(c => c.part);
+    if (mode === 'characters') return { mark: 'character', wordIndex, expected, typed: typed[j], parts: actual ? parts : undefined, confusions };
+    const mark: DictationMark = actual && parts.length === 1 && parts[0] === 'tone' ? 'tone' : 'sound';
+    return { mark, wordIndex, expected, typed: typed[j], parts, confusions };
+  });
+
+  const correct = tokens.filter(t => t.mark === 'correct').length;
+  return { mode, tokens, score: targets.length ? Math.round((correct / targets.length) * 100) : 0 };
+};
+
+// --- Lesson summary ---
+
+export interface ConfusionCount {
+  part: SyllablePart;
+  pair: [string, string]; // Sorted, so 3 typed for 6 and 6 typed for 3 count together
+  count: number;
+}
+
+export interface DictationSummary {
+  sentences: number;
+  syllables: number;
+  marks: Record<DictationMark, number>;
+  confusions: ConfusionCount[]; // Most frequent first
+}
+
+export const summariseDictation = (results: DictationResult[]): DictationSummary => {
+  const marks: Record<DictationMark, number> = { correct: 0, tone: 0, sound: 0, character: 0, missing: 0, extra: 0 };
+  const counts = new Map<string, ConfusionCount>();
+  let syllables = 0;
+  for (const result of results) {
+    for (const token of result.tokens) {
+      marks[token.mark]++;
+      if (token.mark !== 'extra') syllables++;
+      for (const c of token.confusions || []) {
+        const pair = [c.expected, c.typed].sort() as [string, string];
+        const key = `${c.part}:${pair.join('/')}`;
+        const existing = counts.get(key);
+        if (existing) existing.count++;
+        else counts.set(key, { part: c.part, pair, count: 1 });
+      }
+    }
+  }
+  const confusions = [...counts.values()].sort((a, b) => b.count - a.count);
+  return { sentences: results.length, syllables, marks, confusions };
+};
@@ -0,0 +1,64 @@
+import { ClassroomData, EncryptedDataFile } from '../types';
+import { fromBase64, toBase64 } from './base64';
+import { buildBundle, isBundle, readBundle } from './dataBundle';
+
+// Optional encryption for published data files. The files sit on a public static host, so
+// without this anyone who guesses a ?data= name can read the class list and lessons.
+// The teacher either picks a passphrase to tell the student, or uses the student's link key,
+// which travels in the URL fragment and so is never sent to the host.
+
+export const MIN_FILE_PASSPHRASE_LENGTH = 8;
+const ITERATIONS = 310000;
+
+// Link keys are URL-safe so they survive being pasted into chat apps
+const toBase64Url = (bytes: Uint8Array) => toBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (text: string) => fromBase64(text.replace(/-/g, '+').replace(/_/g, '/') + '='.repeat((4 - (text.length % 4)) % 4));
+
+export const createDataKey = (): string => toBase64Url(crypto.getRandomValues(new Uint8Array(32)));
+
+const passphraseKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, material, { name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+};
+
+const linkKey = (dataKey: string): Promise<CryptoKey> =>
+  crypto.subtle.importKey('raw', fromBase64Url(dataKey), 'AES-GCM', false, ['encrypt', 'decrypt']);
+
+const seal = async (data: ClassroomData, key: CryptoKey, header: Pick<EncryptedDataFile, 'keySource' | 'salt' | 'iterations'>): Promise<EncryptedDataFile> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const cipher = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, await buildBundle(data));
+  return { format: 'yuetyu-encrypted', version: 1, ...header, iv: toBase64(iv), data: toBase64(new Uint8Array(cipher)) };
+};
+
+export const encryptWithPassphrase = async (data: ClassroomData, passphrase: string): Promise<EncryptedDataFile> => {
+  if (passphrase.length < MIN_FILE_PASSPHRASE_LENGTH) throw new Error("PASSPHRASE_TOO_SHORT");
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  return seal(data, await passphraseKey(passphrase, salt, ITERATIONS), { keySource: 'passphrase', salt: toBase64(salt), iterations: ITERATIONS });
+};
+
+export const encryptWithDataKey = async (data: ClassroomData, dataKey: string): Promise<EncryptedDataFile> =>
+  seal(data, await linkKey(dataKey), { keySource: 'link' });
+
+// The secret is the passphrase or the link key, whichever the file's keySource calls for
+export const decryptDataFile = async (file: EncryptedDataFile, secret: string): Promise<ClassroomData> => {
+  let plain: ArrayBuffer;
+  try {
+    const key = file.keySource === 'passphrase'
+      ? await passphraseKey(secret, fromBase64(file.salt || ''), file.iterations || ITERATIONS)
+      : await linkKey(secret);
+    plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(file.iv) }, key, fromBase64(file.data));
+  } catch (e) {
+    // AES-GCM can't tell a wrong key from a damaged file; either way this secret won't open it
+    throw new Error("WRONG_SECRET");
+  }
+  // Files encrypted before bundles existed hold the ClassroomData JSON directly
+  const bytes = new Uint8Array(plain);
+  return isBundle(bytes) ? readBundle(bytes) : JSON.parse(new TextDecoder().decode(bytes));
+};
+
+export const isEncryptedDataFile = (data: any): data is EncryptedDataFile =>
+  !!data && data.format === 'yuetyu-encrypted' && typeof data.iv === 'string' && typeof data.data === 'string';
+
+// Link keys ride in the fragment as #key=..., which browsers never send to the server
+export const dataKeyFromUrl = (): string | null => new URLSearchParams(window.location.hash.slice(1)).get('key');
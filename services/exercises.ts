@@ -0,0 +1,135 @@
+import { Lesson, Sentence } from '../types';
+import { segmentWords, segmentText } from './segmentation';
+import { isSyllable } from './syllableTiming';
+import { getLessonLanguage } from './lessonLanguage';
+
+// Drills generated from a lesson's sentences. Nothing is stored; a new set is dealt every time.
+
+export type ExerciseKind = 'cloze' | 'match' | 'reorder' | 'choice';
+
+export const EXERCISE_LABELS: Record<ExerciseKind, string> = {
+  cloze: 'Fill the gap',
+  match: 'Match readings',
+  reorder: 'Unscramble',
+  choice: 'English → Chinese'
+};
+
+export interface ClozeExercise {
+  kind: 'cloze';
+  sentence: Sentence;
+  start: number; // Hidden word indices, as a WordSegment range
+  end: number;
+  options: string[];
+  answer: string;
+}
+
+export interface MatchExercise {
+  kind: 'match';
+  // Reading is Jyutping, or numbered Pinyin for Mandarin lessons
+  pairs: { char: string; reading: string }[];
+}
+
+export interface ReorderExercise {
+  kind: 'reorder';
+  sentence: Sentence;
+  pieces: string[]; // Shuffled
+  answer: string[];
+}
+
+export interface ChoiceExercise {
+  kind: 'choice';
+  sentence: Sentence;
+  options: string[];
+  answer: string;
+}
+
+export type Exercise = ClozeExercise | MatchExercise | ReorderExercise | ChoiceExercise;
+
+const OPTION_COUNT = 4;
+const MATCH_PAIRS = 4;
+
+export const shuffle = <T>(items: T[], random: () => number = Math.random): T[] => {
+  const out = [...items];
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+};
+
+export const sentenceText = (sentence: Sentence) => sentence.words.map(w => w.char).join('');
+
+const wordsOf = (sentence: Sentence) =>
+  (sentence.segments || segmentWords(sentence.words)).map(seg => ({ seg, text: segmentText(sentence.words, seg) }));
+
+// Distractors of the same length as the answer read as plausible; others only fill up the remaining slots
+const pickOptions = (answer: string, pool: string[], random: () => number): string[] | null => {
+  const others = [...new Set(pool)].filter(t => t !== answer);
+  const sameLength = shuffle(others.filter(t => t.length === answer.length), random);
+  const rest = shuffle(others.filter(t => t.length !== answer.length), random);
+  const distractors = [...sameLength, ...rest].slice(0, OPTION_COUNT - 1);
+  return distractors.length < 2 ? null : shuffle([answer, ...distractors], random);
+};
+
+const buildCloze = (sentence: Sentence, pool: string[], random: () => number): ClozeExercise | null => {
+  const words = wordsOf(sentence);
+  if (words.length < 2) return null;
+  // Prefer a multi-character word: a lone particle is a guess rather than a test
+  const longer = words.filter(w => w.seg.end - w.seg.start > 1);
+  const target = shuffle(longer.length ? longer : words, random)[0];
+  const options = pickOptions(target.text, pool, random);
+  return options && { kind: 'cloze', sentence, start: target.seg.start, end: target.seg.end, options, answer: target.text };
+};
+
+const buildReorder = (sentence: Sentence, random: () => number): ReorderExercise | null => {
+  const answer = wordsOf(sentence).map(w => w.text);
+  if (answer.length < 3) return null;
+  let pieces = shuffle(answer, random);
+  for (let tries = 0; tries < 5 && pieces.join('|') === answer.join('|'); tries++) pieces = shuffle(answer, random);
+  return { kind: 'reorder', sentence, pieces, answer };
+};
+
+const buildChoice = (sentence: Sentence, sentences: Sentence[], random: () => number): ChoiceExercise | null => {
+  if (!sentence.english.trim()) return null;
+  const answer = sentenceText(sentence);
+  const options = pickOptions(answer, sentences.map(sentenceText), random);
+  return options && { kind: 'choice', sentence, options, answer };
+};
+
+// Distinct characters, skipping any whose reading another character already has (homophones can't be told apart)
+const buildMatches = (lesson: Lesson, random: () => number): MatchExercise[] => {
+  const mandarin = getLessonLanguage(lesson) === 'mandarin';
+  const seenChars = new Set<string>();
+  const seenReadings = new Set<string>();
+  const pairs: MatchExercise['pairs'] = [];
+  for (const sentence of lesson.sentences) {
+    for (const word of sentence.words) {
+      const reading = (mandarin ? word.pinyin || '' : word.selectedJyutping).trim();
+      if (!isSyllable(word) || !reading || seenChars.has(word.char) || seenReadings.has(reading)) continue;
+      seenChars.add(word.char);
+      seenReadings.add(reading);
+      pairs.push({ char: word.char, reading });
+    }
+  }
+  const shuffled = shuffle(pairs, random);
+  const groups: MatchExercise[] = [];
+  for (let i = 0; i + 2 < shuffled.length && groups.length < 3; i += MATCH_PAIRS) {
+    groups.push({ kind: 'match', pairs: shuffled.slice(i, i + MATCH_PAIRS) });
+  }
+  return groups;
+};
+
+export const generateExercises = (lesson: Lesson, kinds: ExerciseKind[], random: () => number = Math.random): Exercise[] => {
+  const pool = lesson.sentences.flatMap(s => wordsOf(s).map(w => w.text));
+  const exercises: Exercise[] = [];
+  for (const sentence of lesson.sentences) {
+    const candidates = [
+      kinds.includes('cloze') && buildCloze(sentence, pool, random),
+      kinds.includes('reorder') && buildReorder(sentence, random),
+      kinds.includes('choice') && buildChoice(sentence, lesson.sentences, random)
+    ];
+    for (const c of candidates) if (c) exercises.push(c);
+  }
+  if (kinds.includes('match')) exercises.push(...buildMatches(lesson, random));
+  return shuffle(exercises, random);
+};
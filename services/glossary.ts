@@ -0,0 +1,103 @@
+import { GlossaryEntry, Lesson, LessonLanguage, Sentence } from '../types';
+import { segmentWords, segmentText } from './segmentation';
+import { getLessonLanguage, showsPinyin } from './lessonLanguage';
+
+// Per-lesson glossaries, and the student's vocabulary bank built from all of them.
+
+// Grammatical particles are explained in the lesson notes rather than listed as vocabulary
+const SKIPPED_POS = ['part'];
+
+const newEntryId = () => `gloss-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+export const createGlossaryEntry = (): GlossaryEntry => ({ id: newEntryId(), headword: '', jyutping: '', english: '' });
+
+// One entry per distinct word, in order of first appearance, using the word segmentation.
+// Single characters the dictionary has no gloss for are left out; the teacher can add them by hand.
+export const extractGlossary = (sentences: Sentence[], language: LessonLanguage): GlossaryEntry[] => {
+  const entries: GlossaryEntry[] = [];
+  const seen = new Set<string>();
+  for (const sentence of sentences) {
+    for (const segment of sentence.segments || segmentWords(sentence.words)) {
+      if (segment.pos && SKIPPED_POS.includes(segment.pos)) continue;
+      if (!segment.gloss && segment.end - segment.start < 2) continue;
+      const headword = segmentText(sentence.words, segment);
+      if (seen.has(headword)) continue;
+      seen.add(headword);
+
+      const chars = sentence.words.slice(segment.start, segment.end);
+      const entry: GlossaryEntry = {
+        id: newEntryId(),
+        headword,
+        jyutping: language === 'mandarin' ? '' : chars.map(w => w.selectedJyutping.trim()).join(' ').trim(),
+        english: segment.gloss,
+        exampleSentenceId: sentence.id
+      };
+      if (showsPinyin(language)) entry.pinyin = chars.map(w => w.pinyin || '').join(' ').trim();
+      entries.push(entry);
+    }
+  }
+  return entries;
+};
+
+// Re-extracting after edits only adds words that aren't in the curated list yet
+export const mergeGlossary = (current: GlossaryEntry[], extracted: GlossaryEntry[]): GlossaryEntry[] => {
+  const known = new Set(current.map(e => e.headword));
+  return [...current, ...extracted.filter(e => !known.has(e.headword))];
+};
+
+// --- Student vocabulary bank ---
+
+export interface VocabularyItem {
+  key: string; // Headword plus reading, so a word taught in several lessons is listed once
+  entry: GlossaryEntry;
+  sources: { lesson: Lesson; example?: Sentence }[];
+}
+
+// Lessons saved before glossaries existed fall back to an extracted one
+export const lessonGlossary = (lesson: Lesson): GlossaryEntry[] =>
+  lesson.glossary ?? extractGlossary(lesson.sentences, getLessonLanguage(lesson));
+
+export const buildVocabulary = (lessons: Lesson[]): VocabularyItem[] => {
+  const items = new Map<string, VocabularyItem>();
+  for (const lesson of lessons) {
+    for (const entry of lessonGlossary(lesson)) {
+      if (!entry.headword.trim()) continue;
+      const key = `${entry.headword}|${entry.jyutping || entry.pinyin || ''}`;
+      const source = { lesson, example: lesson.sentences.find(s => s.id === entry.exampleSentenceId) };
+      const existing = items.get(key);
+      if (existing) existing.sources.push(source);
+      else items.set(key, { key, entry, sources: [source] });
+    }
+  }
+  return [...items.values()];
+};
+
+const compact = (text: string) => text.toLowerCase().replace(/\s+/g, '');
+const toneless = (text: string) => compact(text).replace(/[0-9]/g, '');
+
+// Matches characters, English, or romanisation with or without tone numbers ("hou" finds "hou2")
+export const matchesVocabularyQuery = (item: VocabularyItem, query: string): boolean => {
+  const q = query.trim().toLowerCase();
+  if (!q) return true;
+  const { headword, english, jyutping, pinyin = '' } = item.entry;
+  return headword.includes(q)
+    || english.toLowerCase().includes(q)
+    || [jyutping, pinyin].some(r => compact(r).includes(compact(q)) || (!!toneless(q) && toneless(r).includes(toneless(q))));
+};
+
+// Stars are the student's own, kept per student on this device
+const starsKey = (studentId: string) => `yuetyu_starred_vocabulary_v1:${studentId}`;
+
+export const loadStarredVocabulary = (studentId: string): Set<string> => {
+  try {
+    const raw = localStorage.getItem(starsKey(studentId));
+    if (raw) return new Set(JSON.parse(raw));
+  } catch (e) {
+    console.error("Failed to read starred vocabulary", e);
+  }
+  return new Set();
+};
+
+export const saveStarredVocabulary = (studentId: string, keys: Set<string>) => {
+  localStorage.setItem(starsKey(studentId), JSON.stringify([...keys]));
+};
@@ -0,0 +1,214 @@
+// Jyutping syllable grammar (LSHK scheme) plus conversion to and from Yale and IPA.
+
+export interface JyutpingSyllable {
+  initial: string; // '' for null-initial syllables such as "aa3" or "ng5"
+  final: string;
+  tone: number; // 1-6
+}
+
+export type Romanisation = 'jyutping' | 'yale-numbers' | 'yale' | 'ipa';
+
+export const ROMANISATION_LABELS: Record<Romanisation, string> = {
+  'jyutping': '粤拼 Jyutping',
+  'yale-numbers': '耶鲁（数字声调）',
+  'yale': '耶鲁（声调符号）',
+  'ipa': '国际音标 IPA'
+};
+
+// Longest first so prefix matching picks "ng" before "n" and "gw" before "g"
+const INITIALS = ['gw', 'kw', 'ng', 'b', 'p', 'm', 'f', 'd', 't', 'n', 'l', 'g', 'k', 'h', 'w', 'z', 'c', 's', 'j'];
+
+const FINALS = [
+  'aa', 'aai', 'aau', 'aam', 'aan', 'aang', 'aap', 'aat', 'aak',
+  'ai', 'au', 'am', 'an', 'ang', 'ap', 'at', 'ak',
+  'e', 'ei', 'eu', 'em', 'eng', 'ep', 'ek',
+  'i', 'iu', 'im', 'in', 'ing', 'ip', 'it', 'ik',
+  'o', 'oi', 'ou', 'on', 'ong', 'ot', 'ok',
+  'oe', 'oeng', 'oek', 'eoi', 'eon', 'eot',
+  'u', 'ui', 'un', 'ung', 'ut', 'uk',
+  'yu', 'yun', 'yut',
+  'm', 'ng' // Syllabic nasals, only valid without an initial
+];
+
+const FINAL_SET = new Set(FINALS);
+
+export const parseJyutping = (input: string): JyutpingSyllable | null => {
+  const match = input.trim().toLowerCase().match(/^([a-z]+)([1-6])$/);
+  if (!match) return null;
+  const [, letters, tone] = match;
+
+  // Null-initial syllables come first so "ng5" is the syllabic nasal, not initial ng + nothing
+  if (FINAL_SET.has(letters)) return { initial: '', final: letters, tone: Number(tone) };
+
+  const initial = INITIALS.find(i => letters.startsWith(i));
+  if (!initial) return null;
+  const final = letters.slice(initial.length);
+  if (!FINAL_SET.has(final) || final === 'm' || final === 'ng') return null;
+  return { initial, final, tone: Number(tone) };
+};
+
+export const isValidJyutping = (input: string) => parseJyutping(input) !== null;
+
+export const formatJyutping = (s: JyutpingSyllable) => `${s.initial}${s.final}${s.tone}`;
+
+// --- Yale ---
+
+const YALE_INITIALS: Record<string, string> = { z: 'j', c: 'ch', j: 'y' };
+
+const YALE_FINALS: Record<string, string> = {
+  aa: 'a', oe: 'eu', oeng: 'eung', oek: 'euk', eoi: 'eui', eon: 'eun', eot: 'eut'
+};
+
+// Combining marks: macron (tone 1), acute (tones 2 and 5), grave (tone 4)
+const MACRON = '̄';
+const ACUTE = '́';
+const GRAVE = '̀';
+
+const yaleBase = (s: JyutpingSyllable) => {
+  let initial = YALE_INITIALS[s.initial] ?? s.initial;
+  const final = YALE_FINALS[s.final] ?? s.final;
+  // "jyu" is written "yu" in Yale rather than "yyu"
+  if (s.initial === 'j' && final.startsWith('yu')) initial = '';
+  return { initial, final };
+};
+
+export const toYale = (s: JyutpingSyllable, withDiacritics: boolean): string => {
+  const { initial, final } = yaleBase(s);
+  if (!withDiacritics) return `${initial}${final}${s.tone}`;
+
+  // Low tones (4-6) add an "h" after the vowels, before any final consonant
+  const nucleus = final.match(/^(m|ng|[^mnptk]*)(.*)$/)!;
+  let vowels = nucleus[1];
+  const coda = nucleus[2];
+  const mark = s.tone === 1 ? MACRON : s.tone === 2 || s.tone === 5 ? ACUTE : s.tone === 4 ? GRAVE : '';
+  if (mark) {
+    // The mark goes on the first real vowel ("yùh", not "ỳuh"); syllabic m/ng take it on the nasal
+    const at = Math.max(0, vowels.search(/[aeiou]/));
+    vowels = vowels.slice(0, at + 1) + mark + vowels.slice(at + 1);
+  }
+  const h = s.tone >= 4 ? 'h' : '';
+  return `${initial}${vowels}${h}${coda}`.normalize('NFC');
+};
+
+// High falling tone 1 is sometimes written with a grave accent and no "h"
+const toYaleHighFalling = (s: JyutpingSyllable) => toYale(s, true).normalize('NFD').replace(MACRON, GRAVE).normalize('NFC');
+
+export const parseYale = (input: string): JyutpingSyllable | null => {
+  const key = input.trim().toLowerCase().normalize('NFC');
+  return getReverseTable('yale').get(key) || null;
+};
+
+// --- IPA ---
+
+const IPA_INITIALS: Record<string, string> = {
+  b: 'p', p: 'pʰ', m: 'm', f: 'f', d: 't', t: 'tʰ', n: 'n', l: 'l', g: 'k', k: 'kʰ',
+  ng: 'ŋ', h: 'h', gw: 'kʷ', kw: 'kʷʰ', w: 'w', z: 'ts', c: 'tsʰ', s: 's', j: 'j'
+};
+
+const IPA_FINALS: Record<string, string> = {
+  aa: 'aː', aai: 'aːi', aau: 'aːu', aam: 'aːm', aan: 'aːn', aang: 'aːŋ', aap: 'aːp̚', aat: 'aːt̚', aak: 'aːk̚',
+  ai: 'ɐi', au: 'ɐu', am: 'ɐm', an: 'ɐn', ang: 'ɐŋ', ap: 'ɐp̚', at: 'ɐt̚', ak: 'ɐk̚',
+  e: 'ɛː', ei: 'ei', eu: 'ɛːu', em: 'ɛːm', eng: 'ɛːŋ', ep: 'ɛːp̚', ek: 'ɛːk̚',
+  i: 'iː', iu: 'iːu', im: 'iːm', in: 'iːn', ing: 'eŋ', ip: 'iːp̚', it: 'iːt̚', ik: 'ek̚',
+  o: 'ɔː', oi: 'ɔːy', ou: 'ou', on: 'ɔːn', ong: 'ɔːŋ', ot: 'ɔːt̚', ok: 'ɔːk̚',
+  oe: 'œː', oeng: 'œːŋ', oek: 'œːk̚', eoi: 'ɵy', eon: 'ɵn', eot: 'ɵt̚',
+  u: 'uː', ui: 'uːy', un: 'uːn', ung: 'oŋ', ut: 'uːt̚', uk: 'ok̚',
+  yu: 'yː', yun: 'yːn', yut: 'yːt̚',
+  m: 'm̩', ng: 'ŋ̍'
+};
+
+// Chao tone letters
+const IPA_TONES: Record<number, string> = { 1: '˥', 2: '˧˥', 3: '˧', 4: '˨˩', 5: '˩˧', 6: '˨' };
+
+export const toIPA = (s: JyutpingSyllable): string => `${IPA_INITIALS[s.initial] ?? ''}${IPA_FINALS[s.final]}${IPA_TONES[s.tone]}`;
+
+// Sources disagree on length and unreleased-stop marks, so IPA is matched without them
+const looseIPA = (ipa: string) => ipa.normalize('NFC').replace(/[ː̩̍̚]/g, '');
+
+const TONE_BY_CONTOUR: Record<string, number> = { '55': 1, '53': 1, '35': 2, '25': 2, '33': 3, '21': 4, '11': 4, '13': 5, '23': 5, '22': 6 };
+const CHAO_LETTERS = '˥˦˧˨˩';
+const SUPERSCRIPT_DIGITS = '⁰¹²³⁴⁵⁶⁷⁸⁹';
+
+export const parseIPA = (input: string): JyutpingSyllable | null => {
+  let text = input.trim().replace(/^[\[/]|[\]/]$/g, '');
+
+  // Tone as Chao letters (˨˩) or as digits, plain or superscript (21, ²¹)
+  const toneMatch = text.match(/[˥˦˧˨˩]+$/) || text.match(/[1-5¹²³⁴⁵]{1,2}$/);
+  if (!toneMatch) return null;
+  text = text.slice(0, -toneMatch[0].length);
+  const levels = toneMatch[0]
+    .replace(/[¹²³⁴⁵]/g, d => String(SUPERSCRIPT_DIGITS.indexOf(d)))
+    .replace(/[˥˦˧˨˩]/g, l => String(5 - CHAO_LETTERS.indexOf(l)));
+  const tone = TONE_BY_CONTOUR[levels.length === 1 ? levels + levels : levels];
+  if (!tone) return null;
+
+  // The table is keyed without tone, so its entries carry tone 1 as a placeholder
+  const base = getReverseTable('ipa').get(looseIPA(text));
+  return base ? { ...base, tone } : null;
+};
+
+// Every valid syllable, used to invert the forward converters instead of hand-writing parsers
+let reverseTables: Record<'yale' | 'ipa', Map<string, JyutpingSyllable>> | null = null;
+
+const getReverseTable = (kind: 'yale' | 'ipa'): Map<string, JyutpingSyllable> => {
+  if (!reverseTables) {
+    const yale = new Map<string, JyutpingSyllable>();
+    const ipa = new Map<string, JyutpingSyllable>();
+    const add = (table: Map<string, JyutpingSyllable>, key: string, s: JyutpingSyllable) => {
+      if (!table.has(key)) table.set(key, s);
+    };
+    // First entry wins: Yale "yu" means jyu rather than j + u or a bare "yu", and
+    // "eu" is rare, so Yale "eu" comes back as the far more common "oe"
+    const finals = ['yu', 'yun', 'yut', ...FINALS.filter(f => !['yu', 'yun', 'yut', 'eu'].includes(f)), 'eu'];
+    for (const initial of [...INITIALS, '']) {
+      for (const final of finals) {
+        for (let tone = 1; tone <= 6; tone++) {
+          const s = parseJyutping(`${initial}${final}${tone}`);
+          if (!s) continue;
+          add(yale, toYale(s, false), s);
+          add(yale, toYale(s, true), s);
+          if (tone === 1) add(yale, toYaleHighFalling(s), s);
+          if (tone === 1) add(ipa, looseIPA(`${IPA_INITIALS[initial] ?? ''}${IPA_FINALS[final]}`), s);
+        }
+      }
+    }
+    reverseTables = { yale, ipa };
+  }
+  return reverseTables[kind];
+};
+
+// --- Whole-syllable conversion ---
+
+export const parseSyllable = (input: string, from: Romanisation): JyutpingSyllable | null => {
+  switch (from) {
+    case 'jyutping': return parseJyutping(input);
+    case 'yale':
+    case 'yale-numbers': return parseYale(input);
+    case 'ipa': return parseIPA(input);
+  }
+};
+
+export const formatSyllable = (s: JyutpingSyllable, to: Romanisation): string => {
+  switch (to) {
+    case 'jyutping': return formatJyutping(s);
+    case 'yale-numbers': return toYale(s, false);
+    case 'yale': return toYale(s, true);
+    case 'ipa': return toIPA(s);
+  }
+};
+
+// Converts a space-separated line; anything that doesn't parse is passed through unchanged and reported
+export const convertText = (text: string, from: Romanisation, to: Romanisation): { result: string[]; unknown: string[] } => {
+  const result: string[] = [];
+  const unknown: string[] = [];
+  for (const token of text.trim().split(/\s+/).filter(Boolean)) {
+    const syllable = parseSyllable(token, from);
+    if (syllable) {
+      result.push(formatSyllable(syllable, to));
+    } else {
+      result.push(token);
+      unknown.push(token);
+    }
+  }
+  return { result, unknown };
+};
@@ -0,0 +1,518 @@
+// Bundled character readings for Cantonese, most frequent reading first.
+// Format: each token is one character followed by its readings joined with '/'.
+// Kept as packed strings so the dictionary adds only a few KB to the bundle.
+
+export const CHAR_READINGS_DATA = `
+的dik1 一jat1 是si6 不bat1 了liu5 人jan4 我ngo5 在zoi6 有jau5 他taa1 這ze5 個go3
+們mun4 中zung1/zung3 來loi4 上soeng6/soeng5 大daai6 為wai6/wai4 和wo4/wo6 國gwok3 地dei6 到dou3/dou2 以ji5 說syut3/seoi3
+時si4 要jiu3/jiu1 就zau6 出ceot1 會wui5/wui6/wui2/kui2 可ho2 也jaa5 你nei5 對deoi3 生saang1/sang1 能nang4 而ji4
+子zi2 那naa5/no5 得dak1 於jyu1 著zoek3/zoek6/zyu3 下haa6/haa5 自zi6 之zi1 年nin4 過gwo3/gwo1 發faat3 後hau6
+作zok3 裡leoi5 用jung6 道dou6 行haang4/hang4/hong4/hang6 所so2 然jin4 家gaa1 種zung2/zung3 事si6 成sing4/seng4 方fong1
+多do1 經ging1 麼mo1 去heoi3 法faat3 學hok6 如jyu4 都dou1 同tung4 現jin6 當dong1/dong3 沒mut6
+動dung6 面min6 起hei2 看hon3/hon1 定ding6/deng6 天tin1 分fan1/fan6 還waan4 進zeon3 好hou2/hou3 小siu2 部bou6
+其kei4 些se1 主zyu2 樣joeng6/joeng2 理lei5 心sam1 她taa1 本bun2 前cin4 開hoi1 但daan6 因jan1
+只zi2 從cung4/cung1 想soeng2 實sat6 日jat6 軍gwan1 者ze2 意ji3 無mou4 力lik6 它taa1 與jyu5/jyu6/jyu4
+長coeng4/zoeng2 把baa2 機gei1 十sap6 民man4 第dai6 公gung1 此ci2 已ji5 工gung1 使si2/si3 情cing4
+明ming4 性sing3 知zi1 全cyun4 三saam1 又jau6 關gwaan1 點dim2 正zing3/zeng3/zing1 業jip6 外ngoi6 將zoeng1/zoeng3
+兩loeng5 高gou1 間gaan1/gaan3 由jau4 問man6 很han2 最zeoi3 重zung6/cung5/cung4 並bing6 物mat6 手sau2 應jing1/jing3
+戰zin3 向hoeng3 頭tau4 文man4 體tai2 政zing3 美mei5 相soeng1/soeng3/soeng2 見gin3/jin6 被bei6/pei5 利lei6 什sam6/zap6
+二ji6 等dang2 產caan2 或waak6 新san1 己gei2 制zai3 身san1 果gwo2 加gaa1 西sai1 斯si1
+月jyut6 話waa6/waa2 合hap6/gap3 回wui4 特dak6 代doi6 內noi6 信seon3 表biu2 化faa3 老lou5 給kap1
+世sai3 位wai6/wai2 次ci3 度dou6/dok6 門mun4 任jam6/jam4 常soeng4 先sin1 海hoi2 通tung1 教gaau3/gaau1 兒ji4
+原jyun4 東dung1 聲sing1/seng1 提tai4 立laap6 及kap6 比bei2 員jyun4 解gaai2 水seoi2 名ming4/meng2 真zan1
+論leon6 處cyu3/cyu5 走zau2 義ji6 各gok3 入jap6 幾gei2/gei1 口hau2 認jing6 條tiu4 平ping4/peng4 系hai6
+氣hei3 題tai4 活wut6 爾ji5 更gang3/gang1/gaang1 別bit6 打daa2 女neoi5/neoi2 變bin3 四sei3 神san4 總zung2
+何ho4 電din6 數sou3/sou2 安on1 少siu2/siu3 報bou3 才coi4 結git3 反faan2 受sau6 目muk6 太taai3
+量loeng6/loeng4 再zoi3 感gam2 建gin3 務mou6 做zou6 接zip3 必bit1 場coeng4 件gin6 計gai3 管gun2
+期kei4 市si5 直zik6 德dak1 資zi1 命ming6/meng6 山saan1 金gam1 指zi2 克hak1 許heoi2 統tung2
+區keoi1/au1 保bou2 至zi3 隊deoi6/deoi2 形jing4 社se5 便bin6/pin4/bin2 空hung1/hung3 決kyut3 治zi6 展zin2 馬maa5
+科fo1 司si1 五ng5 基gei1 眼ngaan5 書syu1 非fei1 則zak1 聽teng1/ting1/ting3 白baak6 卻koek3 界gaai3
+達daat6 光gwong1 放fong3 強koeng4/koeng5 即zik1 像zoeng6 難naan4/naan6 且ce2 權kyun4 思si1 王wong4/wong6 象zoeng6
+完jyun4 設cit3 式sik1 色sik1 路lou6 記gei3 南naam4 品ban2 住zyu6 告gou3 類leoi6 求kau4
+據geoi3 程cing4 北bak1 邊bin1 死sei2 張zoeng1 該goi1 交gaau1 規kwai1 萬maan6 取ceoi2 拉laai1
+格gaak3 望mong6 覺gok3/gaau3 術seot6 領ling5/leng5 共gung6 確kok3 傳cyun4/zyun6 師si1 觀gun1/gun3 清cing1 今gam1
+切cit3/cai3 院jyun6/jyun2 讓joeng6 識sik1/zi3 候hau6 帶daai3 導dou6 爭zang1/zaang1 運wan6 笑siu3 飛fei1 風fung1
+步bou6 改goi2 收sau1 根gan1 乾gon1/kin4 造zou6 言jin4 聯lyun4 持ci4 組zou2 每mui5 濟zai3
+車ce1/geoi1 親can1/can3 極gik6 林lam4 服fuk6 快faai3 辦baan6 議ji5 往wong5 元jyun4 英jing1 士si6/si2
+證zing3 近gan6/kan5 失sat1 轉zyun2/zyun3 夫fu1/fu4 令ling6/ling4 準zeon2 布bou3 始ci2 怎zam2 呢ni1/ne1/nei4 存cyun4
+未mei6 遠jyun5/jyun6 叫giu3 台toi4 單daan1/sin6/sim4 影jing2 具geoi6 羅lo4 字zi6 愛oi3 擊gik1 流lau4
+備bei6 兵bing1 連lin4 調diu6/tiu4 深sam1 商soeng1 算syun3 質zat1/zi3 團tyun4 集zaap6 百baak3 需seoi1
+價gaa3 花faa1 黨dong2 華waa4/waa6 城sing4/seng4 石sek6/daam3 級kap1 整zing2 府fu2 離lei4 況fong3 亞aa3
+請ceng2/cing2 技gei6 際zai3 約joek3 示si6 復fuk6/fau6 病beng6/bing6 息sik1 究gau3 線sin3 似ci5 官gun1
+火fo2 斷tyun5/dyun6/dyun3 精zing1/zeng1 滿mun5 支zi1 視si6 消siu1 越jyut6 器hei3 容jung4 照ziu3 須seoi1
+九gau2 增zang1 研jin4 寫se2 稱cing1/cing3 企kei5/kei2 八baat3 功gung1 嗎maa3/maa1 包baau1 片pin3/pin2 史si2
+委wai2 乎fu4 查caa4 輕hing1 易ji6/jik6 早zou2 曾cang4/zang1 除ceoi4 農nung4 找zaau2 裝zong1 廣gwong2
+顯hin2 吧baa1/baa6 阿aa3/o1 李lei5 標biu1 談taam4 吃hek3/gat6 圖tou4 念nim6 六luk6 引jan5 歷lik6
+首sau2 醫ji1 局guk6 突dat6 專zyun1 費fai3 號hou6/hou4 盡zeon6/zeon2 另ling6 周zau1 較gaau3 注zyu3
+語jyu5 僅gan2 考haau2 落lok6/lok3/laai6 青cing1/ceng1 隨ceoi4 選syun2 列lit6 武mou5 紅hung4 響hoeng2 雖seoi1
+推teoi1 勢sai3 參caam1/sam1/cam1 希hei1 古gu2 眾zung3 構gau3/kau3 房fong4/fong2 半bun3 節zit3 土tou2 投tau4
+某mau5 案on3 黑hak1 維wai4 革gaak3 劃waak6/waa4 敵dik6 致zi3 陳can4 律leot6 足zuk1 態taai3
+護wu6 七cat1 興hing1/hing3 派paai3 孩haai4 驗jim6 責zaak3 營jing4 星sing1/seng1 夠gau3 章zoeng1 音jam1
+跟gan1 志zi3 底dai2 站zaam6 嚴jim4 巴baa1 例lai6 防fong4 族zuk6 供gung1/gung3 效haau6 續zuk6
+施si1 留lau4 講gong2 型jing4 料liu6/liu2 終zung1 答daap3 緊gan2 黃wong4 絕zyut6 奇kei4/gei1 察caat3
+母mou5 京ging1 段dyun6 依ji1 批pai1 群kwan4 項hong6 故gu3 按on3 河ho4 米mai5 圍wai4
+江gong1 織zik1 害hoi6 斗dau2 雙soeng1 境ging2 客haak3 紀gei2 採coi2 舉geoi2 殺saat3 攻gung1
+父fu6/fu2 蘇sou1 密mat6 低dai1 朝ciu4/ziu1 友jau5 訴sou3 止zi2 細sai3 願jyun6 千cin1 值zik6
+仍jing4 男naam4 錢cin4/cin2 破po3 網mong5 熱jit6 助zo6 倒dou2/dou3 育juk6 屬suk6/zuk1 坐co5/zo6 帝dai3
+限haan6 船syun4 臉lim5 職zik1 速cuk1 刻hak1 樂lok6/ngok6/ngaau6 否fau2 剛gong1 威wai1 毛mou4 狀zong6
+率leot6/seot1 甚sam6 獨duk6 球kau4 般bun1 普pou2 怕paa3 彈daan6/taan4 校haau6/gaau3 苦fu2 創cong3/cong1 假gaa2/gaa3
+久gau2 錯co3 承sing4 印jan3 晚maan5 蘭laan4 試si3 股gu2 拿naa4 腦nou5 預jyu6 誰seoi4
+益jik1 陽joeng4 若joek6/je5 哪naa5 微mei4 尼nei4 繼gai3 送sung3 急gap1 血hyut3 驚ging1 傷soeng1
+素sou3 藥joek6 適sik1 波bo1 夜je6/je2 省saang2/sing2 初co1 喜hei2 衛wai6 源jyun4 食sik6/zi6 險him2
+待doi6/doi2 述seot6 陸luk6 習zaap6 置zi3 居geoi1 勞lou4 財coi4 環waan4 排paai4 福fuk1 納naap6
+歡fun1 雷leoi4 警ging2 獲wok6 模mou4 充cung1 負fu6 雲wan4 停ting4 木muk6 遊jau4 龍lung4
+樹syu6 疑ji4 層cang4 冷laang5 洲zau1 沖cung1 射se6 略loek6 範faan6 竟ging2 句geoi3 室sat1
+異ji6 激gik1 漢hon3 村cyun1 哈haa1 策caak3 演jin2 簡gaan2 卡kaa1/kaat1 罪zeoi6 判pun3 擔daam1/daam3
+州zau1 靜zing6 退teoi3 既gei3 衣ji1 您nei5 宗zung1 積zik1 餘jyu4 痛tung3 檢gim2 差caa1/ci1/caai1
+富fu3 靈ling4 協hip3 角gok3/luk6 佔zim3 配pui3 征zing1 修sau1 皮pei4 揮fai1 勝sing3/sing1 降gong3/hong4
+階gaai1 審sam2 沉cam4 堅gin1 善sin6 媽maa1 劉lau4 讀duk6/dau6 啊aa3/aa1 超ciu1 免min5 壓aat3/ngaat3
+銀ngan4/ngan2 買maai5 皇wong4 養joeng5 伊ji1 懷waai4 執zap1 副fu3 亂lyun6 抗kong3 犯faan6 追zeoi1
+幫bong1 宣syun1 佛fat6 歲seoi3 航hong4 優jau1 怪gwaai3 香hoeng1 田tin4 鐵tit3 控hung3 稅seoi3
+左zo2 右jau6 份fan6/fan2 穿cyun1 藝ngai6 背bui3/bui6 陣zan6 草cou2 腳goek3 概koi3 惡ok3/wu3 塊faai3
+頓deon6 敢gam2 守sau2 酒zau2 島dou2 托tok3 央joeng1 戶wu6 烈lit6 洋joeng4 哥go1 索sok3
+胡wu4 款fun2 靠kaau3 評ping4 版baan2 寶bou2 座zo6 釋sik1 景ging2 顧gu3 弟dai6 登dang1
+貨fo3 互wu6 付fu6 伯baak3 慢maan6 歐au1 換wun6 聞man4/man6 危ngai4 忙mong4 核hat6/wat6 暗am3
+姐ze2 介gaai3 壞waai6 討tou2 麗lai6 良loeng4 序zeoi6 升sing1 監gaam1/gaam3 臨lam4 亮loeng6 露lou6
+永wing5 呼fu1 味mei6 野je5 架gaa2/gaa3 域wik6 沙saa1 掉diu6 括kut3 魚jyu4/jyu2 雜zaap6 誤ng6
+湖wu4 鐘zung1 康hong1 藏cong4/zong6 擺baai2 豐fung1 穩wan2 滴dik6 湯tong1 油jau4 竹zuk1 默mak6
+鬥dau3 奶naai5/naai1 舞mou5 博bok3 秋cau1 春ceon1 夏haa6 冬dung1 爸baa4/baa1 姊zi2 妹mui6/mui2/mui1/mui4 仔zai2/zi2
+佢keoi5 係hai6 唔m4 咗zo2 嘅ge3 喺hai2 冇mou5 咩me1 啲di1/dit1 哋dei6 嘢je5 嗰go2
+噉gam2 咁gam3/gam2 乜mat1 啦laa1/laa3 喎wo3/wo5 囉lo1/lo3 嘛maa3 啫ze1 喇laa3 咋zaa3 吖aa1 呀aa3/aa1
+哦o4/o2 喂wai3/wai2 畀bei2 睇tai2 攞lo2 嚟lai4 俾bei2 搵wan2 揾wan2 諗nam2 瞓fan3 咪mai6/mai5/mai1
+靚leng3 嬲nau1 攰gui6 揸zaa1 掂dim3 嗌aai3 仲zung6 佬lou2 嘥saai1 晏aan3 晝zau3 尋cam4
+琴kam4 宜ji4 耐noi6 啱ngaam1 飲jam2/jam3 飯faan6 餐caan1 茶caa4 菜coi3 肉juk6 雞gai1 豬zyu1
+牛ngau4 羊joeng4 蛋daan2/daan6 麵min6 粥zuk1 糖tong4/tong2 鹽jim4 甜tim4 酸syun1 辣laat6 鹹haam4 凍dung3
+燒siu1 煮zyu2 炒caau2 蒸zing1 街gaai1 屋uk1 樓lau4/lau2 廳teng1 床cong4 枱toi2 凳dang3 窗coeng1
+燈dang1 鞋haai4 衫saam1 褲fu3 帽mou2/mou6 袋doi2/doi6 杯bui1 碗wun2 筷faai3 匙ci4/si4 刀dou1 鎖so2
+港gong2 澳ou3 圳zan3 灣waan1 旺wong6 尖zim1 咀zeoi2 銅tung4 鑼lo4 店dim3 舖pou3/pou1 鋪pou3/pou1
+館gun2 課fo3 堂tong4 筆bat1 紙zi2 簿bou2/bou6 練lin6 複fuk1 溫wan1 暖nyun5 涼loeng4 爽song2
+晴cing4 雨jyu5/jyu6 雪syut3 颱toi4 禮lai5 拜baai3 秒miu5 昨zok3/zok6 矮ai2 肥fei4 瘦sau3 短dyun2
+舊gau6 貴gwai3 醜cau2 淨zing6/zeng6 污wu1 糟zou1 怒nou6 哀oi1 愁sau4 悶mun6 餓ngo6 飽baau2
+渴hot3 頸geng2 耳ji5 鼻bei6 牙ngaa4 髮faat3 肚tou5/tou2 爺je4 嫲maa4 婆po4 叔suk1 姨ji4/ji1
+舅kau5 孫syun1 庭ting4 朋pang4 咱zaa1 橙caang2 綠luk6 藍laam4 紫zi2 灰fui1 零ling4 億jik1
+廿jaa6 隻zek3 班baan1 枝zi1 粒lap1 歌go1 唱coeng3 跳tiu3 玩waan2/wun6 戲hei3 踢tek3 游jau4
+泳wing6 跑paau2 返faan1 搭daap3 賣maai6 着zoek3/zoek6 戴daai3 洗sai2 刷caat3 傾king1 偈gai2 喊haam3
+哭huk1 鬧naau6 忘mong4 估gu2 肯hang2 束cuk1 擇zaak6 謝ze6 晨san4 恭gung1 賀ho6 健gin6
+慶hing3 祝zuk1 歉hip3 抱pou5 拎ling1/ning1 拾sap6 丟diu1 掟deng3 捉zuk1 跌dit3 撞zong6 碰pung3
+扶fu4 攬laam2 錫sek3 恨han6 嫁gaa3 娶ceoi2 婚fan1 搬bun1 租zou1 廚cyu4 廁ci3 浴juk6
+晒saai3 曬saai3 濕sap1 髒zong1 垃laap6 圾saap3 潔git3 爛laan6 韓hon4 泰taai3 鄉hoeng1 橋kiu4
+隧seoi6 梯tai1 碼maa5 園jyun4 狗gau2 貓maau1 鳥niu5 雀zoek3/zoek2 鴨aap3/aap2 鵝ngo4/ngo2 兔tou3 鼠syu2
+虎fu2 獅si1 猴hau4 熊hung4 蛇se4 蟲cung4 蚊man1 蝦haa1 蟹haai5 鳳fung6 端dyun1 午ng5
+餅beng2 糉zung2 粽zung2 籠lung4 炮paau3 聖sing3 誕daan3 闆baan2 板baan2 侍si6 售sau6 畫waa2/waak6/waa6
+籃laam4/laam2 羽jyu5 乒bing1 乓bam1 滑waat6 浪long6 潛cim4 釣diu3 爬paa4 曉hiu2 順seon6 臘laap6
+齡ling4 嚇haak3/haa5 葉jip6
+`;
+
+// Simplified form followed by the traditional form it shares readings with
+export const SIMPLIFIED_TO_TRADITIONAL_DATA = `
+这這 个個 们們 来來 为為 国國 说說 时時 会會 对對 过過 发發 后後 里裡 经經 么麼 学學 现現 当當 没沒
+动動 还還 进進 样樣 实實 军軍 无無 与與 长長 机機 两兩 间間 问問 战戰 头頭 体體 产產 话話 关關 点點
+业業 将將 应應 见見 给給 内內 边邊 电電 数數 报報 结結 务務 义義 员員 处處 认認 条條 题題 爱愛 变變
+总總 气氣 亲親 车車 听聽 觉覺 团團 东東 乐樂 书書 让讓 识識 师師 区區 运運 飞飛 风風 钱錢 饭飯 饮飲
+鸡雞 猪豬 鱼魚 鸟鳥 马馬 龙龍 门門 买買 卖賣 广廣 谢謝 请請 讲講 语語 读讀 写寫 课課 习習 练練 医醫
+药藥 岁歲 钟鐘 图圖 开開 热熱 冻凍 汤湯 红紅 黄黃 绿綠 蓝藍 银銀 铁鐵 岛島 楼樓 厅廳 灯燈 裤褲 笔筆
+纸紙 脑腦 网網 戏戲 妈媽 爷爺 孙孫 兴興 欢歡 乡鄉 桥橋 园園 猫貓 虾蝦 鸭鴨 鹅鵝 饼餅 节節 圣聖 诞誕
+画畫 篮籃 轻輕 远遠 贵貴 旧舊 干乾 净淨 脏髒 湿濕 饿餓 饱飽 颈頸 护護 晓曉 从從 众眾 价價 华華 万萬
+亚亞 证證 论論 种種 农農 党黨 历歷 压壓 尽盡 级級 极極 际際 济濟 联聯 统統 领領 导導 质質 单單 层層
+术術 阳陽 号號 于於 几幾 吗嗎 该該 谁誰 闹鬧 难難 离離 观觀 许許 设設 记記 调調 错錯 场場 块塊 坏壞
+张張 帮幫 带帶 办辦 备備 复復 够夠 卫衛 乱亂 顾顧 须須 顺順 预預 脸臉 腊臘 龄齡 丢丟 啰囉 吓嚇 叶葉
+`;
+
+// Phrases that settle a polyphone from its neighbours, one phrase and its readings per line
+export const PHRASE_READINGS_DATA = `
+銀行 ngan4 hong4
+行業 hong4 jip6
+排行 paai4 hong4
+行路 haang4 lou6
+行街 haang4 gaai1
+行山 haang4 saan1
+步行 bou6 hang4
+旅行 leoi5 hang4
+行為 hang4 wai4
+自行車 zi6 hang4 ce1
+品行 ban2 hang6
+德行 dak1 hang6
+進行 zeon3 hang4
+舉行 geoi2 hang4
+流行 lau4 hang4
+行李 hang4 lei5
+行動 hang4 dung6
+發行 faat3 hang4
+長大 zoeng2 daai6
+校長 haau6 zoeng2
+家長 gaa1 zoeng2
+長官 zoeng2 gun1
+成長 sing4 zoeng2
+班長 baan1 zoeng2
+部長 bou6 zoeng2
+市長 si5 zoeng2
+長度 coeng4 dou6
+長期 coeng4 kei4
+長短 coeng4 dyun2
+重要 zung6 jiu3
+重點 zung6 dim2
+重量 zung6 loeng6
+尊重 zyun1 zung6
+嚴重 jim4 zung6
+重新 cung4 san1
+重複 cung4 fuk1
+音樂 jam1 ngok6
+樂器 ngok6 hei3
+快樂 faai3 lok6
+娛樂 jyu4 lok6
+開會 hoi1 wui6
+會議 wui6 ji5
+機會 gei1 wui6
+社會 se5 wui2
+唔會 m4 wui5
+會唔會 wui5 m4 wui5
+覺得 gok3 dak1
+感覺 gam2 gok3
+瞓覺 fan3 gaau3
+睡覺 seoi6 gaau3
+午覺 ng5 gaau3
+調查 diu6 caa4
+聲調 sing1 diu6
+空調 hung1 tiu4
+調整 tiu4 zing2
+數學 sou3 hok6
+數字 sou3 zi6
+人數 jan4 sou3
+數量 sou3 loeng6
+數錢 sou2 cin2
+方便 fong1 bin6
+隨便 ceoi4 bin2
+便宜 pin4 ji4
+愛好 oi3 hou3
+好學 hou3 hok6
+好奇 hou3 kei4
+看書 hon3 syu1
+看守 hon1 sau2
+中國 zung1 gwok3
+中間 zung1 gaan1
+中文 zung1 man4
+打中 daa2 zung3
+相信 soeng1 seon3
+互相 wu6 soeng1
+首相 sau2 soeng3
+影相 jing2 soeng2
+照相 ziu3 soeng2
+相片 soeng2 pin2
+差不多 caa1 bat1 do1
+差唔多 caa1 m4 do1
+出差 ceot1 caai1
+參差 cam1 ci1
+教書 gaau3 syu1
+教師 gaau3 si1
+教育 gaau3 juk6
+請教 ceng2 gaau3
+少數 siu2 sou3
+多少 do1 siu2
+少年 siu3 nin4
+正確 zing3 kok3
+正月 zing1 jyut6
+生日 saang1 jat6
+學生 hok6 saang1
+先生 sin1 saang1
+醫生 ji1 sang1
+發生 faat3 sang1
+生活 sang1 wut6
+出生 ceot1 sang1
+生命 sang1 ming6
+成功 sing4 gung1
+完成 jyun4 sing4
+成為 sing4 wai4
+成日 seng4 jat6
+時間 si4 gaan3
+間中 gaan3 zung1
+房間 fong4 gaan1
+分鐘 fan1 zung1
+分別 fan1 bit6
+部分 bou6 fan6
+過分 gwo3 fan6
+種類 zung2 leoi6
+一種 jat1 zung2
+種樹 zung3 syu6
+當然 dong1 jin4
+當時 dong1 si4
+上當 soeng6 dong3
+當做 dong3 zou6
+空氣 hung1 hei3
+有空 jau5 hung3
+朝早 ziu1 zou2
+今朝 gam1 ziu1
+聽朝 ting1 ziu1
+朝代 ciu4 doi6
+傳統 cyun4 tung2
+傳說 cyun4 syut3
+傳真 cyun4 zan1
+自傳 zi6 zyun6
+放假 fong3 gaa3
+假期 gaa3 kei4
+度假 dou6 gaa3
+真假 zan1 gaa2
+假如 gaa2 jyu4
+落雨 lok6 jyu5
+落車 lok6 ce1
+落後 lok6 hau6
+落力 lok6 lik6
+省錢 saang2 cin2
+廣東省 gwong2 dung1 saang2
+反省 faan2 sing2
+中華 zung1 waa4
+華人 waa4 jan4
+華山 waa6 saan1
+下降 haa6 gong3
+投降 tau4 hong4
+角色 gok3 sik1
+三角 saam1 gok3
+食飯 sik6 faan6
+食物 sik6 mat6
+聽日 ting1 jat6
+聽話 teng1 waa6
+聽講 teng1 gong2
+聽到 teng1 dou2
+夜晚 je6 maan5
+宵夜 siu1 je2
+名字 meng2 zi6
+有名 jau5 meng2
+名人 ming4 jan4
+名單 ming4 daan1
+名片 ming4 pin2
+平安 ping4 on1
+和平 wo4 ping4
+平價 peng4 gaa3
+請問 cing2 man6
+請客 ceng2 haak3
+病人 beng6 jan4
+睇病 tai2 beng6
+毛病 mou4 beng6
+聲音 sing1 jam1
+大聲 daai6 seng1
+細聲 sai3 seng1
+星期 sing1 kei4
+明星 ming4 sing1
+青年 cing1 nin4
+青菜 ceng1 coi3
+命運 ming6 wan6
+精神 zing1 san4
+金錢 gam1 cin4
+有錢 jau5 cin2
+幾多錢 gei2 do1 cin2
+樓梯 lau4 tai1
+大樓 daai6 lau4
+酒樓 zau2 lau4
+茶樓 caa4 lau4
+女人 neoi5 jan4
+女仔 neoi5 zai2
+仔女 zai2 neoi2
+個女 go3 neoi2
+位置 wai6 zi3
+座位 zo6 wai2
+各位 gok3 wai2
+說話 syut3 waa6
+講話 gong2 waa6
+電話 din6 waa2
+廣東話 gwong2 dung1 waa2
+普通話 pou2 tung1 waa2
+笑話 siu3 waa2
+雞蛋 gai1 daan2
+魚蛋 jyu4 daan2
+蛋糕 daan6 gou1
+金魚 gam1 jyu2
+食魚 sik6 jyu2
+應該 jing1 goi1
+回應 wui4 jing3
+答應 daap3 jing3
+反應 faan2 jing3
+高興 gou1 hing3
+興趣 hing3 ceoi3
+新興 san1 hing1
+創造 cong3 zou6
+創傷 cong1 soeng1
+彈琴 taan4 kam4
+子彈 zi2 daan6
+學校 hok6 haau6
+校對 gaau3 deoi3
+效率 haau6 leot6
+率先 seot1 sin1
+判斷 pun3 dyun3
+斷定 dyun3 ding6
+中斷 zung1 tyun5
+斷咗 tyun5 zo2
+簡單 gaan2 daan1
+單車 daan1 ce1
+奇怪 kei4 gwaai3
+奇數 gei1 sou3
+參加 caam1 gaa1
+人參 jan4 sam1
+提供 tai4 gung1
+口供 hau2 gung3
+父親 fu6 can1
+家屬 gaa1 suk6
+屬於 suk6 jyu1
+坐低 co5 dai1
+坐車 co5 ce1
+乾淨 gon1 zeng6
+乾杯 gon1 bui1
+一切 jat1 cai3
+切開 cit3 hoi1
+認識 jing6 sik1
+知識 zi1 sik1
+標識 biu1 zi3
+爭取 zang1 ceoi2
+爭啲 zaang1 di1
+巴士 baa1 si2
+的士 dik1 si2
+多士 do1 si2
+親人 can1 jan4
+親家 can3 gaa1
+附近 fu6 gan6
+接近 zip3 gan6
+近排 gan6 paai4
+近啲 kan5 di1
+轉身 zyun3 san1
+轉變 zyun2 bin3
+丈夫 zoeng6 fu1
+夫人 fu1 jan4
+命令 ming6 ling6
+呢個 ni1 go3
+呢度 ni1 dou6
+呢啲 ni1 di1
+石頭 sek6 tau4
+容易 jung4 ji6
+交易 gaau1 jik6
+貿易 mau6 jik6
+曾經 cang4 ging1
+曾祖 zang1 zou2
+酒吧 zau2 baa1
+阿媽 aa3 maa1
+阿爸 aa3 baa4
+阿姨 aa3 ji1
+口吃 hau2 gat6
+號碼 hou6 maa5
+盡量 zeon6 loeng6
+盡力 zeon6 lik6
+卡片 kaat1 pin2
+照片 ziu3 pin2
+影片 jing2 pin2
+稱讚 cing1 zaan3
+相稱 soeng1 cing3
+企業 kei5 jip6
+結構 git3 kau3
+機構 gei1 kau3
+書房 syu1 fong2
+廚房 cyu4 fong2
+計劃 gai3 waak6
+資料 zi1 liu2
+材料 coi4 liu2
+飲料 jam2 liu2
+預料 jyu6 liu6
+倒水 dou3 seoi2
+打倒 daa2 dou2
+等待 dang2 doi6
+招待 ziu1 doi6
+擔心 daam1 sam1
+負擔 fu6 daam1
+勝利 sing3 lei6
+讀書 duk6 syu1
+壓力 aat3 lik6
+身份 san1 fan2
+月份 jyut6 fan6
+背書 bui6 syu1
+可惡 ho2 wu3
+惡人 ok3 jan4
+新聞 san1 man4
+核心 hat6 sam1
+果核 gwo2 wat6
+太監 taai3 gaam3
+書架 syu1 gaa2
+打架 daa2 gaa3
+西藏 sai1 zong6
+收藏 sau1 cong4
+牛奶 ngau4 naai5
+爸爸 baa4 baa1
+妹妹 mui4 mui2
+細路仔 sai3 lou6 zai2
+仔細 zi2 sai3
+咁樣 gam2 joeng2
+點樣 dim2 joeng2
+咁多 gam3 do1
+飲茶 jam2 caa4
+飲水 jam2 seoi2
+帽子 mou2 zi2
+手袋 sau2 doi2
+鎖匙 so2 si4
+茶匙 caa4 ci4
+下雨 haa6 jyu5
+淨係 zing6 hai6
+肚餓 tou5 ngo6
+好玩 hou2 waan2
+玩具 wun6 geoi6
+着衫 zoek3 saam1
+麻雀 maa4 zoek2
+孔雀 hung2 zoek3
+燒鵝 siu1 ngo2
+燒鴨 siu1 aap3
+畫畫 waak6 waa2
+圖畫 tou4 waa2
+筆畫 bat1 waak6
+籃球 laam4 kau4
+更加 gang3 gaa1
+更新 gang1 san1
+什麼 sam6 mo1
+被子 pei5 zi2
+合作 hap6 zok3
+溫度 wan1 dou6
+處理 cyu5 lei5
+到處 dou3 cyu3
+好處 hou2 cyu3
+幾多 gei2 do1
+幾時 gei2 si4
+幾乎 gei1 fu4
+商量 soeng1 loeng4
+排隊 paai4 deoi2
+球隊 kau4 deoi6
+醫院 ji1 jyun2
+電影院 din6 jing2 jyun2
+學院 hok6 jyun2
+困難 kwan3 naan4
+難過 naan4 gwo3
+災難 zoi1 naan6
+國王 gwok3 wong4
+強大 koeng4 daai6
+勉強 min5 koeng5
+領導 ling5 dou6
+衫領 saam1 leng5
+重擔 zung6 daam3
+要求 jiu1 kau4
+要緊 jiu3 gan2
+因為 jan1 wai6
+為咗 wai6 zo2
+認為 jing6 wai4
+作為 zok3 wai4
+上車 soeng5 ce1
+上堂 soeng5 tong4
+上網 soeng5 mong5
+上面 soeng6 min6
+下車 haa5 ce1
+下面 haa6 min6
+下午 haa6 ng5
+著名 zyu3 ming4
+一定 jat1 ding6
+定係 ding6 hai6
+參與 caam1 jyu6
+使用 si2 jung6
+大使 daai6 si3
+將來 zoeng1 loi4
+質素 zat1 sou3
+人質 jan4 zi3
+恢復 fui1 fuk6
+若果 joek6 gwo2
+店舖 dim3 pou3
+菜籃 coi3 laam2
+砂糖 saa1 tong4
+糖果 tong4 gwo2
+那麼 naa5 mo1
+屋企 uk1 kei2
+`;
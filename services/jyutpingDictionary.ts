@@ -0,0 +1,92 @@
+import { Word } from '../types';
+import { CHAR_READINGS_DATA, SIMPLIFIED_TO_TRADITIONAL_DATA, PHRASE_READINGS_DATA } from './jyutpingData';
+
+// Offline character -> Jyutping lookup, used whenever the AI is skipped or out of quota.
+
+let readings: Map<string, string[]> | null = null;
+const traditionalOf = new Map<string, string>();
+let phrases: Map<string, string[]> | null = null;
+let longestPhrase = 0;
+
+// Parsed on first use, the packed data is cheap to keep around but not to split on every call
+const getTable = (): Map<string, string[]> => {
+  if (readings) return readings;
+  readings = new Map();
+  for (const token of CHAR_READINGS_DATA.split(/\s+/)) {
+    if (!token) continue;
+    readings.set(token[0], token.slice(1).split('/'));
+  }
+  for (const pair of SIMPLIFIED_TO_TRADITIONAL_DATA.split(/\s+/)) {
+    if (pair.length !== 2 || readings.has(pair[0])) continue;
+    const traditional = readings.get(pair[1]);
+    if (traditional) readings.set(pair[0], traditional);
+    traditionalOf.set(pair[0], pair[1]);
+  }
+  return readings;
+};
+
+const getPhrases = (): Map<string, string[]> => {
+  if (phrases) return phrases;
+  phrases = new Map();
+  for (const line of PHRASE_READINGS_DATA.split('\n')) {
+    const [phrase, ...syllables] = line.trim().split(/\s+/);
+    if (!phrase || syllables.length !== phrase.length) continue;
+    phrases.set(phrase, syllables);
+    longestPhrase = Math.max(longestPhrase, phrase.length);
+  }
+  return phrases;
+};
+
+// All known readings, most frequent first; empty for punctuation and unknown characters
+export const getReadings = (char: string): string[] => getTable().get(char) || [];
+
+export const isPolyphone = (word: Word) => word.jyutping.length > 1;
+
+// Bundled data is keyed by traditional characters
+export const toTraditional = (text: string): string => {
+  getTable();
+  return [...text].map(c => traditionalOf.get(c) || c).join('');
+};
+
+export const isKnownPhrase = (traditional: string) => getPhrases().has(traditional);
+
+// Readings fixed by a known phrase, keyed by word index. Greedy longest match from the left.
+const matchPhrases = (chars: string[]): Map<number, string> => {
+  const table = getPhrases();
+  getTable();
+  // Phrases are stored in traditional characters only
+  chars = chars.map(c => traditionalOf.get(c) || c);
+  const resolved = new Map<number, string>();
+  let i = 0;
+  while (i < chars.length) {
+    let matched = 0;
+    for (let len = Math.min(longestPhrase, chars.length - i); len >= 2; len--) {
+      const syllables = table.get(chars.slice(i, i + len).join(''));
+      if (syllables) {
+        syllables.forEach((s, k) => resolved.set(i + k, s));
+        matched = len;
+        break;
+      }
+    }
+    i += matched || 1;
+  }
+  return resolved;
+};
+
+// Fills every character's candidate list from the dictionary and settles what the phrase table can.
+// Polyphones nothing could settle are flagged for the teacher; a reading already chosen is kept.
+export const annotateReadings = (words: Word[]): Word[] => {
+  const resolved = matchPhrases(words.map(w => w.char));
+  return words.map((word, idx) => {
+    if (!/[\u4e00-\u9fa5]/.test(word.char)) return word;
+    const { needsReview, ...rest } = word;
+    const current = word.selectedJyutping.trim();
+    const fromPhrase = resolved.get(idx);
+    // Dictionary order first so the dropdown always lists the most frequent reading on top
+    const jyutping = [...new Set([...getReadings(word.char), ...word.jyutping, current, fromPhrase || ''])].filter(Boolean);
+    const selectedJyutping = fromPhrase || current || jyutping[0] || '';
+    return !fromPhrase && jyutping.length > 1
+      ? { ...rest, jyutping, selectedJyutping, needsReview: true }
+      : { ...rest, jyutping, selectedJyutping };
+  });
+};
@@ -0,0 +1,22 @@
+import { Lesson, LessonLanguage, Word } from '../types';
+import { toToneMarks } from './pinyin';
+
+// Which readings a lesson carries, and how to show them.
+
+export const getLessonLanguage = (lesson?: Lesson | null): LessonLanguage => lesson?.language || 'cantonese';
+
+export const showsJyutping = (language: LessonLanguage) => language !== 'mandarin';
+export const showsPinyin = (language: LessonLanguage) => language !== 'cantonese';
+
+export const READING_LABELS: Record<LessonLanguage, string> = {
+  cantonese: 'Jyutping',
+  mandarin: 'Pinyin',
+  bilingual: 'Jyutping · Pinyin'
+};
+
+export const pinyinDisplay = (word: Word) => (word.pinyin ? toToneMarks(word.pinyin) : '');
+
+// The reading that labels syllables in tools that show just one: Jyutping unless the lesson is Mandarin-only
+export const primaryReading = (word: Word, language: LessonLanguage): string => {
+  return language === 'mandarin' ? pinyinDisplay(word) : word.selectedJyutping.trim();
+};
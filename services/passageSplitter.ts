@@ -0,0 +1,115 @@
+import { Sentence } from '../types';
+
+// Finds the pauses in a whole-passage reading and proposes one cut per sentence boundary.
+
+export interface Pause {
+  start: number; // Seconds
+  end: number;
+}
+
+const FRAME_SEC = 0.02;
+const MIN_PAUSE_SEC = 0.18;
+
+export const detectPauses = (samples: Float32Array, sampleRate: number): Pause[] => {
+  const frameSize = Math.round(sampleRate * FRAME_SEC);
+  const rms: number[] = [];
+  for (let start = 0; start + frameSize <= samples.length; start += frameSize) {
+    let energy = 0;
+    for (let j = 0; j < frameSize; j++) energy += samples[start + j] * samples[start + j];
+    rms.push(Math.sqrt(energy / frameSize));
+  }
+  if (rms.length === 0) return [];
+
+  // Threshold relative to typical speech level, so it works for quiet and loud recordings alike
+  const sorted = [...rms].sort((a, b) => a - b);
+  const speechLevel = sorted[Math.floor(sorted.length * 0.9)];
+  const threshold = Math.max(speechLevel * 0.08, 0.002);
+
+  const pauses: Pause[] = [];
+  let runStart = -1;
+  rms.forEach((v, i) => {
+    if (v < threshold) {
+      if (runStart === -1) runStart = i;
+    } else if (runStart !== -1) {
+      if ((i - runStart) * FRAME_SEC >= MIN_PAUSE_SEC) pauses.push({ start: runStart * FRAME_SEC, end: i * FRAME_SEC });
+      runStart = -1;
+    }
+  });
+  if (runStart !== -1) pauses.push({ start: runStart * FRAME_SEC, end: rms.length * FRAME_SEC });
+  // Leading silence is trimmed separately, not a sentence boundary
+  return pauses.filter(p => p.start > 0);
+};
+
+// Where the speech actually starts and ends, ignoring silence before/after the reading
+export const findSpeechBounds = (samples: Float32Array, sampleRate: number, pauses: Pause[]): Pause => {
+  const duration = samples.length / sampleRate;
+  const last = pauses[pauses.length - 1];
+  const end = last && duration - last.end < FRAME_SEC * 2 ? last.start : duration;
+  const frameSize = Math.round(sampleRate * FRAME_SEC);
+  let start = 0;
+  for (let i = 0; i + frameSize <= samples.length; i += frameSize) {
+    let peak = 0;
+    for (let j = 0; j < frameSize; j++) peak = Math.max(peak, Math.abs(samples[i + j]));
+    if (peak > 0.02) {
+      start = i / sampleRate;
+      break;
+    }
+  }
+  return { start: Math.max(0, start - 0.1), end: Math.min(duration, end + 0.1) };
+};
+
+const sentenceWeight = (s: Sentence) => Math.max(1, s.words.filter(w => /[\u4e00-\u9fa5]/.test(w.char)).length);
+
+// Picks sentences.length - 1 pauses (in order) closest to where each sentence should end,
+// estimated from character counts; longer pauses are preferred. Falls back to the estimate
+// itself when the reader didn't pause enough.
+export const proposeCutPoints = (pauses: Pause[], bounds: Pause, sentences: Sentence[]): number[] => {
+  const cutsNeeded = sentences.length - 1;
+  if (cutsNeeded <= 0) return [];
+
+  const weights = sentences.map(sentenceWeight);
+  const total = weights.reduce((a, b) => a + b, 0);
+  const span = bounds.end - bounds.start;
+  const expected: number[] = [];
+  let acc = 0;
+  for (let i = 0; i < cutsNeeded; i++) {
+    acc += weights[i];
+    expected.push(bounds.start + (acc / total) * span);
+  }
+
+  const candidates = pauses.filter(p => p.start > bounds.start && p.end < bounds.end);
+  if (candidates.length < cutsNeeded) return expected;
+
+  const mid = (p: Pause) => (p.start + p.end) / 2;
+  const cost = (cut: number, p: Pause) => Math.abs(mid(p) - expected[cut]) - (p.end - p.start) * 2;
+
+  // dp[i][j]: best cost placing the first i cuts using the first j pauses
+  const P = candidates.length;
+  const dp: number[][] = Array.from({ length: cutsNeeded + 1 }, () => new Array(P + 1).fill(Infinity));
+  const take: boolean[][] = Array.from({ length: cutsNeeded + 1 }, () => new Array(P + 1).fill(false));
+  for (let j = 0; j <= P; j++) dp[0][j] = 0;
+  for (let i = 1; i <= cutsNeeded; i++) {
+    for (let j = i; j <= P; j++) {
+      const skip = dp[i][j - 1];
+      const use = dp[i - 1][j - 1] + cost(i - 1, candidates[j - 1]);
+      if (use <= skip) {
+        dp[i][j] = use;
+        take[i][j] = true;
+      } else {
+        dp[i][j] = skip;
+      }
+    }
+  }
+
+  const cuts: number[] = [];
+  let i = cutsNeeded;
+  let j = P;
+  while (i > 0) {
+    if (take[i][j]) {
+      cuts.unshift(mid(candidates[j - 1]));
+      i--;
+    }
+    j--;
+  }
+  return cuts;
+};
@@ -0,0 +1,74 @@
+// Hanyu Pinyin syllables: validation, tone marks, and a canonical numbered form for storage ("hao3", "lü4").
+
+export interface PinyinSyllable {
+  base: string; // Toneless spelling with ü, e.g. "nü"
+  tone: number; // 1-4, 5 for the neutral tone
+}
+
+const SYLLABLES = new Set(`
+a ai an ang ao ba bai ban bang bao bei ben beng bi bian biao bie bin bing bo bu
+ca cai can cang cao ce cen ceng cha chai chan chang chao che chen cheng chi chong chou chu chua chuai chuan chuang chui chun chuo
+ci cong cou cu cuan cui cun cuo da dai dan dang dao de dei den deng di dia dian diao die ding diu dong dou du duan dui dun duo
+e ei en eng er fa fan fang fei fen feng fo fou fu ga gai gan gang gao ge gei gen geng gong gou gu gua guai guan guang gui gun guo
+ha hai han hang hao he hei hen heng hong hou hu hua huai huan huang hui hun huo ji jia jian jiang jiao jie jin jing jiong jiu ju juan jue jun
+ka kai kan kang kao ke kei ken keng kong kou ku kua kuai kuan kuang kui kun kuo
+la lai lan lang lao le lei leng li lia lian liang liao lie lin ling liu lo long lou lu luan lun luo lü lüe
+ma mai man mang mao me mei men meng mi mian miao mie min ming miu mo mou mu
+na nai nan nang nao ne nei nen neng ni nian niang niao nie nin ning niu nong nou nu nuan nuo nü nüe o ou
+pa pai pan pang pao pei pen peng pi pian piao pie pin ping po pou pu qi qia qian qiang qiao qie qin qing qiong qiu qu quan que qun
+ran rang rao re ren reng ri rong rou ru rua ruan rui run ruo
+sa sai san sang sao se sen seng sha shai shan shang shao she shei shen sheng shi shou shu shua shuai shuan shuang shui shun shuo
+si song sou su suan sui sun suo ta tai tan tang tao te teng ti tian tiao tie ting tong tou tu tuan tui tun tuo
+wa wai wan wang wei wen weng wo wu xi xia xian xiang xiao xie xin xing xiong xiu xu xuan xue xun
+ya yan yang yao ye yi yin ying yo yong you yu yuan yue yun
+za zai zan zang zao ze zei zen zeng zha zhai zhan zhang zhao zhe zhei zhen zheng zhi zhong zhou zhu zhua zhuai zhuan zhuang zhui zhun zhuo
+zi zong zou zu zuan zui zun zuo m n ng hm hng
+`.trim().split(/\s+/));
+
+// Combining tone marks in tone order
+const TONE_MARKS = ['̄', '́', '̌', '̀'];
+
+export const parsePinyin = (input: string): PinyinSyllable | null => {
+  let text = input.trim().toLowerCase().normalize('NFD');
+  if (!text) return null;
+
+  let tone = 5;
+  const markIdx = TONE_MARKS.findIndex(m => text.includes(m));
+  const digit = text.match(/([0-5])$/);
+  if (digit) {
+    tone = Number(digit[1]) || 5; // 0 is a common way to write the neutral tone
+    text = text.slice(0, -1);
+  } else if (markIdx >= 0) {
+    tone = markIdx + 1;
+  }
+  text = text.replace(/[̄́̌̀]/g, '').normalize('NFC');
+
+  // Keyboard spellings of ü
+  const base = text.replace(/u:|v/g, 'ü');
+  if (!SYLLABLES.has(base)) return null;
+  return { base, tone };
+};
+
+export const isValidPinyin = (input: string) => parsePinyin(input) !== null;
+
+// Canonical numbered form for storage, or null when the input isn't a Pinyin syllable
+export const normalizePinyin = (input: string): string | null => {
+  const s = parsePinyin(input);
+  return s ? `${s.base}${s.tone}` : null;
+};
+
+// The mark goes on a or e if present, on the o of "ou", otherwise on the last vowel
+export const toToneMarks = (input: string): string => {
+  const s = parsePinyin(input);
+  if (!s) return input;
+  if (s.tone === 5) return s.base;
+  const { base } = s;
+  let at = base.search(/[ae]/);
+  if (at < 0) at = base.indexOf('ou');
+  if (at < 0) {
+    const vowels = [...base].map((c, i) => ('iouü'.includes(c) ? i : -1)).filter(i => i >= 0);
+    // Syllabic nasals (m, n, ng, hm, hng) carry the mark on the nasal
+    at = vowels.length ? vowels[vowels.length - 1] : base.search(/[mn]/);
+  }
+  return (base.slice(0, at + 1) + TONE_MARKS[s.tone - 1] + base.slice(at + 1)).normalize('NFC');
+};
@@ -0,0 +1,173 @@
+import { decodeAudioSource, toMono } from './audioUtils';
+
+// F0 (pitch) extraction for tone visualisation. Runs entirely in the browser.
+
+export interface PitchTrack {
+  hop: number; // Seconds between frames
+  duration: number; // Seconds
+  f0: (number | null)[]; // Hz per frame, null when unvoiced
+  rms: number[]; // Frame energy, used for syllable segmentation
+}
+
+export interface SyllableSpan {
+  start: number; // Seconds
+  end: number;
+}
+
+const MIN_F0 = 70;
+const MAX_F0 = 450;
+const TARGET_RATE = 16000;
+const HOP_SEC = 0.01;
+const WINDOW_SEC = 0.025;
+const YIN_THRESHOLD = 0.15;
+const SILENCE_RATIO = 0.05; // Frames quieter than 5% of the loudest frame count as silence
+
+// Speech pitch lives well below 4kHz, so analysing at ~16kHz keeps YIN cheap
+const downsample = (samples: Float32Array, sampleRate: number): { data: Float32Array; rate: number } => {
+  const factor = Math.max(1, Math.floor(sampleRate / TARGET_RATE));
+  if (factor === 1) return { data: samples, rate: sampleRate };
+  const out = new Float32Array(Math.floor(samples.length / factor));
+  for (let i = 0; i < out.length; i++) {
+    let sum = 0;
+    for (let j = 0; j < factor; j++) sum += samples[i * factor + j];
+    out[i] = sum / factor;
+  }
+  return { data: out, rate: sampleRate / factor };
+};
+
+// YIN estimator for a single frame, returns Hz or null when no clear period is found
+const yinFrame = (data: Float32Array, start: number, windowSize: number, minLag: number, maxLag: number, rate: number): number | null => {
+  const diff = new Float32Array(maxLag + 1);
+  for (let tau = 1; tau <= maxLag; tau++) {
+    let sum = 0;
+    for (let j = 0; j < windowSize; j++) {
+      const d = data[start + j] - data[start + j + tau];
+      sum += d * d;
+    }
+    diff[tau] = sum;
+  }
+
+  // Cumulative mean normalised difference
+  let running = 0;
+  const cmnd = new Float32Array(maxLag + 1);
+  cmnd[0] = 1;
+  for (let tau = 1; tau <= maxLag; tau++) {
+    running += diff[tau];
+    cmnd[tau] = running > 0 ? (diff[tau] * tau) / running : 1;
+  }
+
+  let tau = minLag;
+  while (tau <= maxLag && cmnd[tau] >= YIN_THRESHOLD) tau++;
+  if (tau > maxLag) return null;
+  while (tau + 1 <= maxLag && cmnd[tau + 1] < cmnd[tau]) tau++;
+
+  // Parabolic interpolation around the dip for sub-sample accuracy
+  let refined = tau;
+  if (tau > 1 && tau < maxLag) {
+    const a = cmnd[tau - 1], b = cmnd[tau], c = cmnd[tau + 1];
+    const denom = a - 2 * b + c;
+    if (denom !== 0) refined = tau + (a - c) / (2 * denom);
+  }
+  return rate / refined;
+};
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+export const extractPitch = (samples: Float32Array, sampleRate: number): PitchTrack => {
+  const { data, rate } = downsample(samples, sampleRate);
+  const hopSize = Math.round(rate * HOP_SEC);
+  const windowSize = Math.round(rate * WINDOW_SEC);
+  const minLag = Math.floor(rate / MAX_F0);
+  const maxLag = Math.ceil(rate / MIN_F0);
+
+  const raw: (number | null)[] = [];
+  const rms: number[] = [];
+  for (let start = 0; start + windowSize + maxLag < data.length; start += hopSize) {
+    let energy = 0;
+    for (let j = 0; j < windowSize; j++) energy += data[start + j] * data[start + j];
+    rms.push(Math.sqrt(energy / windowSize));
+    raw.push(yinFrame(data, start, windowSize, minLag, maxLag, rate));
+  }
+
+  // Drop "pitch" found in silence, then median-smooth to remove octave blips
+  const loudest = rms.reduce((m, v) => Math.max(m, v), 0);
+  const gated = raw.map((hz, i) => (hz !== null && rms[i] >= loudest * SILENCE_RATIO ? hz : null));
+  const f0 = gated.map((hz, i) => {
+    if (hz === null) return null;
+    const neighbours = gated.slice(Math.max(0, i - 2), i + 3).filter((v): v is number => v !== null);
+    return median(neighbours);
+  });
+
+  return { hop: HOP_SEC, duration: samples.length / sampleRate, f0, rms };
+};
+
+const trackCache = new Map<string, Promise<PitchTrack>>();
+
+// Decodes and analyses an audio source once; repeated calls share the result
+export const getPitchTrack = (src: string): Promise<PitchTrack> => {
+  let cached = trackCache.get(src);
+  if (!cached) {
+    cached = decodeAudioSource(src).then(buffer => extractPitch(toMono(buffer), buffer.sampleRate));
+    cached.catch(() => trackCache.delete(src));
+    trackCache.set(src, cached);
+  }
+  return cached;
+};
+
+const percentile = (sorted: number[], p: number): number => sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+
+// Maps the contour onto the 1-5 Chao tone-letter scale using the speaker's own range,
+// so a deep teacher voice and a high student voice can be compared directly
+export const toChaoScale = (track: PitchTrack): (number | null)[] => {
+  const semis = track.f0.map(hz => (hz === null ? null : 12 * Math.log2(hz / 100)));
+  const voiced = semis.filter((v): v is number => v !== null).sort((a, b) => a - b);
+  if (voiced.length === 0) return semis;
+  const low = percentile(voiced, 0.05);
+  const high = percentile(voiced, 0.95);
+  const span = Math.max(high - low, 4); // Monotone speakers shouldn't get stretched to the full scale
+  return semis.map(v => (v === null ? null : Math.min(5, Math.max(1, 1 + ((v - low) / span) * 4))));
+};
+
+// Splits the spoken part of the track into `count` syllables at the deepest energy dips
+export const segmentSyllables = (track: PitchTrack, count: number): SyllableSpan[] => {
+  if (count <= 0 || track.rms.length === 0) return [];
+  const loudest = track.rms.reduce((m, v) => Math.max(m, v), 0);
+  const active = track.rms.map(v => v >= loudest * 0.1);
+  const first = active.indexOf(true);
+  const last = active.lastIndexOf(true);
+  if (first === -1) return [];
+
+  const smooth = track.rms.map((_, i) => {
+    const win = track.rms.slice(Math.max(0, i - 2), i + 3);
+    return win.reduce((a, b) => a + b, 0) / win.length;
+  });
+
+  const candidates: number[] = [];
+  for (let i = first + 1; i < last; i++) {
+    if (smooth[i] <= smooth[i - 1] && smooth[i] < smooth[i + 1]) candidates.push(i);
+  }
+  candidates.sort((a, b) => smooth[a] - smooth[b]);
+
+  const minGap = ((last - first) / count) * 0.5;
+  const cuts: number[] = [];
+  for (const c of candidates) {
+    if (cuts.length >= count - 1) break;
+    if (c - first < minGap || last - c < minGap) continue;
+    if (cuts.every(existing => Math.abs(existing - c) >= minGap)) cuts.push(c);
+  }
+
+  // Not enough dips (e.g. connected speech): split the longest pieces in half
+  const bounds = [first, ...cuts.sort((a, b) => a - b), last + 1];
+  while (bounds.length - 1 < count) {
+    let widest = 0;
+    for (let i = 1; i < bounds.length - 1; i++) {
+      if (bounds[i + 1] - bounds[i] > bounds[widest + 1] - bounds[widest]) widest = i;
+    }
+    bounds.splice(widest + 1, 0, (bounds[widest] + bounds[widest + 1]) / 2);
+  }
+
+  return bounds.slice(0, -1).map((b, i) => ({ start: b * track.hop, end: bounds[i + 1] * track.hop }));
+};
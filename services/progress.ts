@@ -0,0 +1,126 @@
+import { ExerciseScore, Lesson, LessonProgress, ProgressReport, ProgressReportLesson, Student } from '../types';
+import { dbService } from './db';
+
+// Per-lesson practice counters kept in the student's browser, and the signed report file that
+// carries them back to the teacher. There is no server: the student downloads the report and
+// sends it however the class shares files.
+//
+// Reports are signed with HMAC-SHA256 using a key that is generated for each student and
+// published inside their data file. That doesn't stop a determined student who reads the key
+// out of the JSON, but it catches edited files and reports imported for the wrong student.
+
+const progressId = (studentId: string, lessonId: string) => `${studentId}|${lessonId}`;
+
+// Updates are read-modify-write, so they are chained to keep quick successive plays from overwriting each other
+let pending: Promise<void> = Promise.resolve();
+
+const updateProgress = (studentId: string, lessonId: string, apply: (progress: LessonProgress) => void): Promise<void> => {
+  pending = pending
+    .then(async () => {
+      const id = progressId(studentId, lessonId);
+      const now = Date.now();
+      const progress: LessonProgress = (await dbService.getLessonProgress(id)) || {
+        id, studentId, lessonId, listens: 0, recordings: 0, scores: [], timeSpentMs: 0, firstOpenedAt: now, lastActiveAt: now
+      };
+      apply(progress);
+      progress.lastActiveAt = now;
+      await dbService.saveLessonProgress(progress);
+    })
+    .catch(e => console.error("Failed to record progress", e));
+  return pending;
+};
+
+export const trackListen = (studentId: string, lessonId: string) => updateProgress(studentId, lessonId, p => { p.listens++; });
+
+export const trackRecording = (studentId: string, lessonId: string) => updateProgress(studentId, lessonId, p => { p.recordings++; });
+
+export const trackScore = (studentId: string, lessonId: string, score: Omit<ExerciseScore, 'completedAt'>) =>
+  updateProgress(studentId, lessonId, p => { p.scores.push({ ...score, completedAt: Date.now() }); });
+
+export const trackTime = (studentId: string, lessonId: string, ms: number) => updateProgress(studentId, lessonId, p => { p.timeSpentMs += ms; });
+
+// --- Signing ---
+
+const toHex = (bytes: Uint8Array) => [...bytes].map(b => b.toString(16).padStart(2, '0')).join('');
+
+const fromHex = (hex: string) => new Uint8Array((hex.match(/../g) || []).map(h => parseInt(h, 16)));
+
+export const createReportKey = (): string => toHex(crypto.getRandomValues(new Uint8Array(32)));
+
+const sign = async (keyHex: string, text: string): Promise<string> => {
+  const key = await crypto.subtle.importKey('raw', fromHex(keyHex), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return toHex(new Uint8Array(await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(text))));
+};
+
+// The signature covers the JSON of every other field, in the order they were written
+const unsignedText = (report: ProgressReport) => {
+  const { signature: _, ...rest } = report;
+  return JSON.stringify(rest);
+};
+
+// Throws NO_REPORT_KEY when the student's data file predates progress reports or is a whole-class export
+export const buildProgressReport = async (student: Student, lessons: Lesson[]): Promise<ProgressReport> => {
+  if (!student.reportKey) throw new Error("NO_REPORT_KEY");
+  const progress = await dbService.getProgress(student.id);
+  const log = await dbService.getReviewLog(student.id);
+
+  const reviews = new Map<string, number>();
+  for (const entry of log) {
+    const lessonId = entry.cardId.split('|')[1];
+    reviews.set(lessonId, (reviews.get(lessonId) || 0) + 1);
+  }
+
+  const entries: ProgressReportLesson[] = [];
+  for (const lesson of lessons) {
+    const p = progress.find(x => x.lessonId === lesson.id);
+    const reviewCount = reviews.get(lesson.id) || 0;
+    if (!p && !reviewCount) continue;
+    entries.push({
+      lessonId: lesson.id,
+      lessonTitle: lesson.title,
+      listens: p?.listens || 0,
+      recordings: p?.recordings || 0,
+      scores: p?.scores || [],
+      timeSpentMs: p?.timeSpentMs || 0,
+      firstOpenedAt: p?.firstOpenedAt || 0,
+      lastActiveAt: p?.lastActiveAt || 0,
+      reviews: reviewCount
+    });
+  }
+
+  const report: ProgressReport = {
+    format: 'yuetyu-progress-report',
+    version: 1,
+    studentId: student.id,
+    studentName: student.name,
+    generatedAt: Date.now(),
+    lessons: entries,
+    signature: ''
+  };
+  report.signature = await sign(student.reportKey, unsignedText(report));
+  return report;
+};
+
+export const isProgressReport = (data: any): data is ProgressReport =>
+  !!data && data.format === 'yuetyu-progress-report' && typeof data.studentId === 'string' && Array.isArray(data.lessons) && typeof data.signature === 'string';
+
+export const verifyProgressReport = async (report: ProgressReport, student: Student): Promise<boolean> => {
+  if (!student.reportKey || report.studentId !== student.id) return false;
+  return (await sign(student.reportKey, unsignedText(report))) === report.signature;
+};
+
+// --- Display helpers ---
+
+// Best and latest result of one kind, as percentages
+export const scoreSummary = (scores: ExerciseScore[], kind: ExerciseScore['kind']) => {
+  const runs = scores.filter(s => s.kind === kind && s.total > 0);
+  if (runs.length === 0) return null;
+  const pct = (s: ExerciseScore) => Math.round((s.correct / s.total) * 100);
+  return { attempts: runs.length, best: Math.max(...runs.map(pct)), latest: pct(runs[runs.length - 1]) };
+};
+
+export const formatDuration = (ms: number): string => {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 1) return ms > 0 ? '<1m' : '0m';
+  return minutes < 60 ? `${minutes}m` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
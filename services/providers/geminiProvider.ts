@@ -0,0 +1,168 @@
+
+import { GoogleGenAI, Type, Modality } from "@google/genai";
+import { AIProvider, AISettings } from "../aiProvider";
+import { buildLessonPrompt, readingFields, toAnalyzedSentences } from "./lessonPrompt";
+
+// Helper to convert raw PCM to WAV
+const addWavHeader = (pcmBase64: string): string => {
+  try {
+    const binaryString = atob(pcmBase64);
+    const len = binaryString.length;
+    const buffer = new ArrayBuffer(len);
+    const view = new Uint8Array(buffer);
+    for (let i = 0; i < len; i++) {
+      view[i] = binaryString.charCodeAt(i);
+    }
+
+    const numChannels = 1;
+    const sampleRate = 24000;
+    const bitsPerSample = 16;
+    const blockAlign = numChannels * (bitsPerSample / 8);
+    const byteRate = sampleRate * blockAlign;
+    const dataSize = len;
+
+    const header = new ArrayBuffer(44);
+    const dv = new DataView(header);
+
+    writeString(dv, 0, 'RIFF');
+    dv.setUint32(4, 36 + dataSize, true);
+    writeString(dv, 8, 'WAVE');
+    writeString(dv, 12, 'fmt ');
+    dv.setUint32(16, 16, true);
+    dv.setUint16(20, 1, true);
+    dv.setUint16(22, numChannels, true);
+    dv.setUint32(24, sampleRate, true);
+    dv.setUint32(28, byteRate, true);
+    dv.setUint16(32, blockAlign, true);
+    dv.setUint16(34, bitsPerSample, true);
+    writeString(dv, 36, 'data');
+    dv.setUint32(40, dataSize, true);
+
+    const wavBuffer = new Uint8Array(header.byteLength + dataSize);
+    wavBuffer.set(new Uint8Array(header), 0);
+    wavBuffer.set(view, header.byteLength);
+
+    let binary = '';
+    const bytes = new Uint8Array(wavBuffer);
+    const l = bytes.byteLength;
+    for (let i = 0; i < l; i++) {
+      binary += String.fromCharCode(bytes[i]);
+    }
+    
+    return 'data:audio/wav;base64,' + btoa(binary);
+  } catch (e) {
+    console.error("Error creating WAV header:", e);
+    throw new Error("Audio processing failed");
+  }
+};
+
+function writeString(view: DataView, offset: number, string: string) {
+  for (let i = 0; i < string.length; i++) {
+    view.setUint8(offset + i, string.charCodeAt(i));
+  }
+}
+
+const getAIClient = (settings: AISettings) => {
+  // A key entered in the teacher settings wins over the one baked in at build time
+  const apiKey = settings.apiKey || process.env.API_KEY;
+  if (!apiKey) {
+    throw new Error("API Key Error: 'process.env.API_KEY' is missing.");
+  }
+  return new GoogleGenAI({ apiKey });
+};
+
+export const createGeminiProvider = (settings: AISettings): AIProvider => ({
+  id: 'gemini',
+
+  analyzeLesson: async (text, language) => {
+    const ai = getAIClient(settings);
+    const { prompt, systemInstruction } = buildLessonPrompt(text, language);
+    const fields = readingFields(language);
+
+    try {
+      const response = await ai.models.generateContent({
+        model: settings.textModel,
+        contents: prompt,
+        config: {
+          systemInstruction,
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                english: { type: Type.STRING },
+                words: {
+                  type: Type.ARRAY,
+                  items: {
+                    type: Type.OBJECT,
+                    properties: {
+                      char: { type: Type.STRING },
+                      ...Object.fromEntries(fields.map(f => [f, { type: Type.STRING }]))
+                    },
+                    required: ["char", ...fields]
+                  }
+                },
+                segments: {
+                  type: Type.ARRAY,
+                  items: {
+                    type: Type.OBJECT,
+                    properties: {
+                      text: { type: Type.STRING },
+                      gloss: { type: Type.STRING },
+                      pos: { type: Type.STRING }
+                    },
+                    required: ["text", "gloss", "pos"]
+                  }
+                }
+              },
+              required: ["english", "words", "segments"]
+            }
+          }
+        }
+      });
+
+      if (response.text) {
+        return toAnalyzedSentences(JSON.parse(response.text.trim()), language);
+      }
+    } catch (error: any) {
+      console.error("Gemini API Error:", error);
+      const msg = error.message || "";
+      if (msg.includes("429") || msg.includes("RESOURCE_EXHAUSTED")) {
+          throw new Error("QUOTA_EXHAUSTED");
+      }
+      throw new Error("AI 系统暂不可用，请稍后再试或点击“手动编辑”。");
+    }
+
+    throw new Error("AI 未返回有效内容");
+  },
+
+  synthesizeSpeech: async (text) => {
+    const ai = getAIClient(settings);
+
+    try {
+      const response = await ai.models.generateContent({
+        model: settings.speechModel,
+        contents: [{ parts: [{ text: text }] }],
+        config: {
+          responseModalities: [Modality.AUDIO],
+          speechConfig: {
+              voiceConfig: {
+                prebuiltVoiceConfig: { voiceName: settings.voice },
+              },
+          },
+        },
+      });
+
+      const audioPart = response.candidates?.[0]?.content?.parts?.find(p => p.inlineData);
+      const base64Audio = audioPart?.inlineData?.data;
+
+      if (base64Audio) return addWavHeader(base64Audio);
+      throw new Error("TTS No Data");
+    } catch (error: any) {
+      const msg = error.message || "";
+      if (msg.includes("429") || msg.includes("RESOURCE_EXHAUSTED")) throw new Error("QUOTA_EXHAUSTED");
+      throw new Error("合成语音失败");
+    }
+  }
+});
@@ -0,0 +1,53 @@
+import { LessonLanguage } from '../../types';
+import { AnalyzedSentence } from '../aiProvider';
+import { normalizePinyin } from '../pinyin';
+import { alignSegments, POS_LABELS } from '../segmentation';
+
+// Shared prompt so every text model is asked for exactly the same structure
+
+// Reading fields the model fills for each character, by lesson language
+export const readingFields = (language: LessonLanguage): string[] => {
+  if (language === 'mandarin') return ['pinyin'];
+  if (language === 'bilingual') return ['selectedJyutping', 'pinyin'];
+  return ['selectedJyutping'];
+};
+
+export const buildLessonPrompt = (text: string, language: LessonLanguage) => {
+  const phoneticType = language === 'cantonese' ? 'Jyutping' : language === 'mandarin' ? 'Mandarin Pinyin (with tone numbers)' : 'both Jyutping and Mandarin Pinyin (with tone numbers)';
+  const learning = language === 'bilingual' ? 'Cantonese alongside Mandarin' : language;
+  const fields = readingFields(language);
+  const fieldList = fields.map(f => `"${f}"`).join(' and ');
+  const schemaFields = fields.map(f => `${f}: string`).join(', ');
+  return {
+    prompt: `Task: Analyze the following text and split it into logical sentences.
+For each sentence, provide:
+1. English translation.
+2. Character-level breakdown with ${phoneticType}.
+3. Word segmentation: the sentence's Chinese text split into dictionary words, each with a short English gloss and a part-of-speech code.
+Text: "${text}"`,
+    systemInstruction: `You are an expert Chinese linguist. Your goal is to help students learn ${learning}.
+Output ONLY valid JSON array. Punctuation should be separate objects in the "words" array but should have empty ${fieldList}.
+Part-of-speech codes: ${Object.keys(POS_LABELS).join(', ')}. The segments must cover every Chinese character in order, leaving out punctuation.
+Output schema: [{english: string, words: [{char: string, ${schemaFields}}], segments: [{text: string, gloss: string, pos: string}]}]`
+  };
+};
+
+// Normalises whatever the model returned into complete Sentence fields
+export const toAnalyzedSentences = (data: any[], language: LessonLanguage): AnalyzedSentence[] => {
+  return data.map((s: any) => {
+    const words: AnalyzedSentence['words'] = (s.words || []).map((w: any) => {
+      const jyutping = language !== 'mandarin' ? w.selectedJyutping || '' : '';
+      const word: AnalyzedSentence['words'][number] = {
+        char: w.char,
+        jyutping: jyutping ? [jyutping] : [],
+        selectedJyutping: jyutping
+      };
+      // Models mix tone marks and tone numbers; store the numbered form
+      if (language !== 'cantonese' && w.pinyin) word.pinyin = normalizePinyin(w.pinyin) || w.pinyin;
+      return word;
+    });
+    // Segments that don't line up with the characters are dropped; the dictionary fills in later
+    const segments = alignSegments(words, s.segments);
+    return segments ? { english: s.english || '', words, segments } : { english: s.english || '', words };
+  });
+};
@@ -0,0 +1,41 @@
+// Fixed answers for the offline mock provider. Enough to build demo lessons and
+// to exercise the editor without a network connection or API quota.
+
+export const FIXTURE_READINGS: Record<string, string> = {
+  '你': 'nei5', '我': 'ngo5', '佢': 'keoi5', '好': 'hou2', '係': 'hai6', '唔': 'm4',
+  '早': 'zou2', '晨': 'san4', '食': 'sik6', '飯': 'faan6', '飲': 'jam2', '茶': 'caa4',
+  '今': 'gam1', '日': 'jat6', '天': 'tin1', '氣': 'hei3', '多': 'do1', '謝': 'ze6',
+  '香': 'hoeng1', '港': 'gong2', '人': 'jan4', '去': 'heoi3', '邊': 'bin1', '度': 'dou6',
+  '學': 'hok6', '校': 'haau6', '老': 'lou5', '師': 'si1', '同': 'tung4', '講': 'gong2',
+  '廣': 'gwong2', '東': 'dung1', '話': 'waa2', '中': 'zung1', '文': 'man4', '大': 'daai6',
+  '小': 'siu2', '一': 'jat1', '二': 'ji6', '三': 'saam1', '個': 'go3', '有': 'jau5',
+  '冇': 'mou5', '咩': 'me1', '呀': 'aa3', '啦': 'laa1', '嘅': 'ge3', '喺': 'hai2',
+  '屋': 'uk1', '企': 'kei5', '朋': 'pang4', '友': 'jau5', '鍾': 'zung1', '意': 'ji3',
+  '行': 'haang4', '街': 'gaai1', '買': 'maai5', '嘢': 'je5', '錢': 'cin2', '時': 'si4',
+  '間': 'gaan1', '明': 'ming4', '見': 'gin3', '再': 'zoi3', '書': 'syu1', '水': 'seoi2'
+};
+
+// Mandarin readings of the same characters, for Mandarin and bilingual lessons
+export const FIXTURE_PINYIN: Record<string, string> = {
+  '你': 'ni3', '我': 'wo3', '好': 'hao3', '係': 'xi4', '早': 'zao3', '晨': 'chen2',
+  '食': 'shi2', '飯': 'fan4', '飲': 'yin3', '茶': 'cha2', '今': 'jin1', '日': 'ri4',
+  '天': 'tian1', '氣': 'qi4', '多': 'duo1', '謝': 'xie4', '香': 'xiang1', '港': 'gang3',
+  '人': 'ren2', '去': 'qu4', '邊': 'bian1', '度': 'du4', '學': 'xue2', '校': 'xiao4',
+  '老': 'lao3', '師': 'shi1', '同': 'tong2', '講': 'jiang3', '廣': 'guang3', '東': 'dong1',
+  '話': 'hua4', '中': 'zhong1', '文': 'wen2', '大': 'da4', '小': 'xiao3', '一': 'yi1',
+  '二': 'er4', '三': 'san1', '個': 'ge4', '有': 'you3', '屋': 'wu1', '企': 'qi3',
+  '朋': 'peng2', '友': 'you3', '鍾': 'zhong1', '意': 'yi4', '行': 'xing2', '街': 'jie1',
+  '買': 'mai3', '錢': 'qian2', '時': 'shi2', '間': 'jian1', '明': 'ming2', '見': 'jian4',
+  '再': 'zai4', '書': 'shu1', '水': 'shui3'
+};
+
+export const FIXTURE_TRANSLATIONS: Record<string, string> = {
+  '你好': 'Hello.',
+  '早晨': 'Good morning.',
+  '多謝': 'Thank you.',
+  '你食咗飯未': 'Have you eaten yet?',
+  '今日天氣好好': 'The weather is very nice today.',
+  '我係香港人': 'I am from Hong Kong.',
+  '我鍾意講廣東話': 'I like speaking Cantonese.',
+  '明日見': 'See you tomorrow.'
+};
@@ -0,0 +1,78 @@
+import { AIProvider } from "../aiProvider";
+import { encodeWavDataUrl } from "../audioUtils";
+import { getReadings } from "../jyutpingDictionary";
+import { FIXTURE_READINGS, FIXTURE_PINYIN, FIXTURE_TRANSLATIONS } from "./mockFixtures";
+import { toAnalyzedSentences } from "./lessonPrompt";
+
+// Deterministic offline backend: the same input always produces the same lesson and audio.
+
+const readingFor = (char: string) => FIXTURE_READINGS[char] || getReadings(char)[0] || '';
+
+const SAMPLE_RATE = 16000;
+const SYLLABLE_SECONDS = 0.32;
+const GAP_SECONDS = 0.08;
+
+// Start/end pitch on the Chao 1-5 scale for each Cantonese tone
+const TONE_SHAPES: Record<number, [number, number]> = {
+  1: [5, 5], 2: [2, 5], 3: [3, 3], 4: [2, 1], 5: [2, 3], 6: [2, 2]
+};
+
+const chaoToHz = (level: number) => 110 * Math.pow(2, (level - 1) * 2.5 / 12);
+
+const synthesizeTones = (readings: string[]): string => {
+  const syllableLen = Math.round(SYLLABLE_SECONDS * SAMPLE_RATE);
+  const gapLen = Math.round(GAP_SECONDS * SAMPLE_RATE);
+  const samples = new Float32Array(Math.max(1, readings.length) * (syllableLen + gapLen) + gapLen);
+
+  let offset = gapLen;
+  readings.forEach(reading => {
+    const tone = Number(reading.match(/[1-6]$/)?.[0] || 3);
+    const [from, to] = TONE_SHAPES[tone];
+    let phase = 0;
+    for (let i = 0; i < syllableLen; i++) {
+      const t = i / syllableLen;
+      const hz = chaoToHz(from + (to - from) * t);
+      phase += (2 * Math.PI * hz) / SAMPLE_RATE;
+      // Short fades so syllables don't click and the pitch tracker sees clear breaks
+      const envelope = Math.min(1, t * 20, (1 - t) * 20);
+      samples[offset + i] = 0.4 * envelope * Math.sin(phase);
+    }
+    offset += syllableLen + gapLen;
+  });
+
+  return encodeWavDataUrl(samples, SAMPLE_RATE);
+};
+
+export const createMockProvider = (): AIProvider => ({
+  id: 'mock',
+
+  analyzeLesson: async (text, language) => {
+    // Same punctuation split as the editor's manual mode
+    const parts = text.split(/([。！？；\n!?;])/);
+    const sentences: string[] = [];
+    for (let i = 0; i < parts.length; i += 2) {
+      const content = parts[i].trim();
+      const punct = parts[i + 1] || '';
+      if (content) sentences.push(content + punct);
+    }
+
+    // Shaped like a model response so it goes through the same normalisation
+    return toAnalyzedSentences(sentences.map(sentence => {
+      const key = sentence.replace(/[^\u4e00-\u9fa5]/g, '');
+      return {
+        english: FIXTURE_TRANSLATIONS[key] || `[mock ${language}] ${key}`,
+        words: sentence.split('').filter(c => c.trim()).map(char => {
+          const isChinese = /[\u4e00-\u9fa5]/.test(char);
+          return { char, selectedJyutping: isChinese ? readingFor(char) : '', pinyin: isChinese ? FIXTURE_PINYIN[char] || '' : '' };
+        })
+      };
+    }), language);
+  },
+
+  synthesizeSpeech: async (text) => {
+    const readings = text.split('')
+      .filter(c => /[\u4e00-\u9fa5]/.test(c))
+      .map(c => readingFor(c) || 'x3');
+    return synthesizeTones(readings);
+  }
+});
@@ -0,0 +1,65 @@
+import { AIProvider, AISettings } from "../aiProvider";
+import { blobToDataUrl } from "../audioCapture";
+import { buildLessonPrompt, toAnalyzedSentences } from "./lessonPrompt";
+
+// Talks to any server exposing the OpenAI REST shape (OpenAI itself, vLLM, LM Studio, Ollama, ...)
+
+const endpoint = (settings: AISettings, path: string) => `${settings.baseUrl.replace(/\/+$/, '')}${path}`;
+
+const post = async (settings: AISettings, path: string, body: any): Promise<Response> => {
+  if (!settings.baseUrl) throw new Error("API Error: base URL is not configured.");
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (settings.apiKey) headers['Authorization'] = `Bearer ${settings.apiKey}`;
+
+  const response = await fetch(endpoint(settings, path), { method: 'POST', headers, body: JSON.stringify(body) });
+  if (response.status === 429) throw new Error("QUOTA_EXHAUSTED");
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  return response;
+};
+
+export const createOpenAICompatibleProvider = (settings: AISettings): AIProvider => ({
+  id: 'openai-compatible',
+
+  analyzeLesson: async (text, language) => {
+    const { prompt, systemInstruction } = buildLessonPrompt(text, language);
+
+    try {
+      const response = await post(settings, '/chat/completions', {
+        model: settings.textModel,
+        // json_object mode only allows an object at the top level, hence the wrapper
+        response_format: { type: 'json_object' },
+        messages: [
+          { role: 'system', content: `${systemInstruction}\nWrap the array as {"sentences": [...]}.` },
+          { role: 'user', content: prompt }
+        ]
+      });
+      const data = await response.json();
+      const content = data.choices?.[0]?.message?.content;
+      if (content) {
+        const parsed = JSON.parse(content.trim());
+        return toAnalyzedSentences(Array.isArray(parsed) ? parsed : parsed.sentences || [], language);
+      }
+    } catch (error: any) {
+      console.error("OpenAI-compatible API Error:", error);
+      if (error.message === "QUOTA_EXHAUSTED") throw error;
+      throw new Error("AI 系统暂不可用，请稍后再试或点击“手动编辑”。");
+    }
+
+    throw new Error("AI 未返回有效内容");
+  },
+
+  synthesizeSpeech: async (text) => {
+    try {
+      const response = await post(settings, '/audio/speech', {
+        model: settings.speechModel,
+        voice: settings.voice,
+        input: text,
+        response_format: 'wav'
+      });
+      return await blobToDataUrl(await response.blob());
+    } catch (error: any) {
+      if (error.message === "QUOTA_EXHAUSTED") throw error;
+      throw new Error("合成语音失败");
+    }
+  }
+});
@@ -0,0 +1,75 @@
+import { LessonLanguage, Word } from '../types';
+import { parseJyutping, formatSyllable, Romanisation } from './jyutping';
+import { parsePinyin } from './pinyin';
+
+// How a student likes readings shown in the portal. Lessons always store Jyutping;
+// this only changes what is drawn above the characters.
+
+export interface ReadingDisplaySettings {
+  romanisation: Romanisation; // Applies to Jyutping; Pinyin is always shown with tone marks
+  toneColours: boolean;
+  hideReading: boolean; // Tap a character to reveal its reading
+  hideEnglish: boolean; // Tap a translation to reveal it
+}
+
+export const DEFAULT_READING_DISPLAY: ReadingDisplaySettings = {
+  romanisation: 'jyutping',
+  toneColours: false,
+  hideReading: false,
+  hideEnglish: false
+};
+
+export const STUDENT_ROMANISATION_LABELS: Record<Romanisation, string> = {
+  'jyutping': 'Jyutping (tone numbers)',
+  'yale-numbers': 'Yale (tone numbers)',
+  'yale': 'Yale (tone marks)',
+  'ipa': 'IPA'
+};
+
+// One entry per student, so a shared family tablet keeps each learner's preferences
+const settingsKey = (studentId: string) => `yuetyu_reading_display_v1:${studentId}`;
+
+export const loadReadingDisplay = (studentId: string): ReadingDisplaySettings => {
+  try {
+    const raw = localStorage.getItem(settingsKey(studentId));
+    if (raw) return { ...DEFAULT_READING_DISPLAY, ...JSON.parse(raw) };
+  } catch (e) {
+    console.error("Failed to read display settings", e);
+  }
+  return DEFAULT_READING_DISPLAY;
+};
+
+export const saveReadingDisplay = (studentId: string, settings: ReadingDisplaySettings) => {
+  localStorage.setItem(settingsKey(studentId), JSON.stringify(settings));
+};
+
+// Readings the teacher typed that aren't valid Jyutping are shown as-is rather than dropped
+export const formatJyutpingAs = (jyutping: string, romanisation: Romanisation): string => {
+  const syllable = parseJyutping(jyutping);
+  return syllable ? formatSyllable(syllable, romanisation) : jyutping;
+};
+
+// Text colours for Cantonese tones 1-6, high to low, then Mandarin tones 1-4 and neutral
+const CANTONESE_TONE_COLOURS: Record<number, string> = {
+  1: 'text-red-600', 2: 'text-orange-500', 3: 'text-green-600',
+  4: 'text-blue-600', 5: 'text-purple-600', 6: 'text-gray-500'
+};
+
+const MANDARIN_TONE_COLOURS: Record<number, string> = {
+  1: 'text-red-600', 2: 'text-orange-500', 3: 'text-green-600', 4: 'text-blue-600', 5: 'text-gray-500'
+};
+
+// Mandarin-only lessons colour by Pinyin tone, everything else by Jyutping tone
+export const toneColourClass = (word: Word, language: LessonLanguage): string => {
+  if (language === 'mandarin') {
+    const tone = word.pinyin ? parsePinyin(word.pinyin)?.tone : undefined;
+    return tone ? MANDARIN_TONE_COLOURS[tone] : '';
+  }
+  const tone = parseJyutping(word.selectedJyutping)?.tone;
+  return tone ? CANTONESE_TONE_COLOURS[tone] : '';
+};
+
+export const toneLegend = (language: LessonLanguage): { tone: number; className: string }[] => {
+  const colours = language === 'mandarin' ? MANDARIN_TONE_COLOURS : CANTONESE_TONE_COLOURS;
+  return Object.entries(colours).map(([tone, className]) => ({ tone: Number(tone), className }));
+};
@@ -0,0 +1,144 @@
+import { Word, WordSegment } from '../types';
+import { WORD_GLOSS_DATA } from './wordData';
+import { toTraditional, isKnownPhrase } from './jyutpingDictionary';
+import { isSyllable } from './syllableTiming';
+
+// Groups the per-character Sentence.words into dictionary words (銀行 rather than 銀 + 行),
+// each with a gloss and part of speech for the student's tap-to-define popup.
+
+export const POS_LABELS: Record<string, { en: string; zh: string }> = {
+  n: { en: 'noun', zh: '名词' },
+  v: { en: 'verb', zh: '动词' },
+  adj: { en: 'adjective', zh: '形容词' },
+  adv: { en: 'adverb', zh: '副词' },
+  pron: { en: 'pronoun', zh: '代词' },
+  num: { en: 'number', zh: '数词' },
+  mw: { en: 'measure word', zh: '量词' },
+  time: { en: 'time word', zh: '时间词' },
+  prep: { en: 'preposition', zh: '介词' },
+  conj: { en: 'conjunction', zh: '连词' },
+  part: { en: 'particle', zh: '助词' },
+  int: { en: 'interjection', zh: '叹词' },
+  phr: { en: 'phrase', zh: '短语' }
+};
+
+// No bundled word or phrase is longer than this
+const MAX_WORD_LENGTH = 4;
+
+interface GlossEntry {
+  pos: string;
+  gloss: string;
+}
+
+let glossary: Map<string, GlossEntry> | null = null;
+
+const getGlossary = (): Map<string, GlossEntry> => {
+  if (glossary) return glossary;
+  glossary = new Map();
+  for (const line of WORD_GLOSS_DATA.split('\n')) {
+    const match = line.trim().match(/^(\S+)\s+(\S+)\s+(.+)$/);
+    // First entry wins, so the most common sense of a character is listed first in the data
+    if (match && !glossary.has(match[1])) glossary.set(match[1], { pos: match[2], gloss: match[3] });
+  }
+  return glossary;
+};
+
+export const lookupWord = (text: string): GlossEntry | null => getGlossary().get(toTraditional(text)) || null;
+
+// Phrases from the reading table count as words even when the glossary has no entry for them
+const isWord = (traditional: string) => getGlossary().has(traditional) || isKnownPhrase(traditional);
+
+const toSegment = (words: Word[], start: number, end: number): WordSegment => {
+  const entry = lookupWord(words.slice(start, end).map(w => w.char).join(''));
+  return entry ? { start, end, gloss: entry.gloss, pos: entry.pos } : { start, end, gloss: '' };
+};
+
+// Greedy longest match over each run of Chinese characters; unknown characters become one-character words.
+// Punctuation and Latin text stay outside every segment.
+export const segmentWords = (words: Word[]): WordSegment[] => {
+  const chars = words.map(w => toTraditional(w.char));
+  const segments: WordSegment[] = [];
+  let i = 0;
+  while (i < words.length) {
+    if (!isSyllable(words[i])) {
+      i++;
+      continue;
+    }
+    let len = 1;
+    for (let n = Math.min(MAX_WORD_LENGTH, words.length - i); n >= 2; n--) {
+      if (words.slice(i, i + n).every(isSyllable) && isWord(chars.slice(i, i + n).join(''))) {
+        len = n;
+        break;
+      }
+    }
+    segments.push(toSegment(words, i, i + len));
+    i += len;
+  }
+  return segments;
+};
+
+// Maps a model's [{text, gloss, pos}] onto word indices. Returns null if the text doesn't line up
+// with the characters, so the caller can fall back to the dictionary.
+export const alignSegments = (words: Word[], modelSegments: any[]): WordSegment[] | null => {
+  if (!Array.isArray(modelSegments) || modelSegments.length === 0) return null;
+  const segments: WordSegment[] = [];
+  let cursor = 0;
+  const skipNonSyllables = () => {
+    while (cursor < words.length && !isSyllable(words[cursor])) cursor++;
+  };
+  for (const m of modelSegments) {
+    const chars = [...String(m?.text || '')].filter(c => /[\u4e00-\u9fa5]/.test(c));
+    if (chars.length === 0) continue;
+    skipNonSyllables();
+    const start = cursor;
+    for (const c of chars) {
+      if (words[cursor]?.char !== c) return null;
+      cursor++;
+    }
+    const pos = typeof m.pos === 'string' && POS_LABELS[m.pos] ? m.pos : undefined;
+    segments.push(pos ? { start, end: cursor, gloss: String(m.gloss || ''), pos } : { start, end: cursor, gloss: String(m.gloss || '') });
+  }
+  skipNonSyllables();
+  return cursor === words.length ? segments : null;
+};
+
+export const segmentText = (words: Word[], segment: WordSegment) => words.slice(segment.start, segment.end).map(w => w.char).join('');
+
+export const segmentAt = (segments: WordSegment[] | undefined, wordIndex: number): WordSegment | undefined =>
+  segments?.find(s => wordIndex >= s.start && wordIndex < s.end);
+
+// Word indices grouped for display: one group per segment, one per character outside any segment
+export const groupWordIndices = (wordCount: number, segments: WordSegment[] = []): number[][] => {
+  const groups: number[][] = [];
+  let i = 0;
+  while (i < wordCount) {
+    const segment = segmentAt(segments, i);
+    const end = segment ? segment.end : i + 1;
+    groups.push(Array.from({ length: end - i }, (_, k) => i + k));
+    i = end;
+  }
+  return groups;
+};
+
+// --- Editing ---
+
+// Joins a segment with the one after it. The dictionary gloss for the joined word wins,
+// otherwise the two glosses and notes are combined so nothing the teacher wrote is lost
+export const mergeWithNext = (words: Word[], segments: WordSegment[], index: number): WordSegment[] => {
+  const a = segments[index];
+  const b = segments[index + 1];
+  if (!a || !b || a.end !== b.start) return segments;
+  const fresh = toSegment(words, a.start, b.end);
+  const merged: WordSegment = { ...fresh, gloss: fresh.gloss || [a.gloss, b.gloss].filter(Boolean).join(' ') };
+  const note = [a.note, b.note].filter(Boolean).join('\n');
+  if (note) merged.note = note;
+  return [...segments.slice(0, index), merged, ...segments.slice(index + 2)];
+};
+
+// Breaks a segment back into single characters, each with its own dictionary gloss
+export const splitSegment = (words: Word[], segments: WordSegment[], index: number): WordSegment[] => {
+  const s = segments[index];
+  if (!s || s.end - s.start < 2) return segments;
+  const singles = Array.from({ length: s.end - s.start }, (_, k) => toSegment(words, s.start + k, s.start + k + 1));
+  return [...segments.slice(0, index), ...singles, ...segments.slice(index + 1)];
+};
@@ -0,0 +1,112 @@
+import { GlossaryEntry, Lesson, ReviewCard, ReviewCardType, Sentence } from '../types';
+import { lessonGlossary } from './glossary';
+
+// SM-2 spaced repetition over the sentences and glossary words of a student's lessons.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+
+// Keeps a first session with a large library from being a wall of new cards
+export const NEW_CARDS_PER_SESSION = 20;
+
+export const CARD_TYPE_LABELS: Record<ReviewCardType, string> = {
+  'audio-meaning': 'Listen → meaning',
+  'chars-reading': 'Characters → reading',
+  'english-say': 'English → say it'
+};
+
+// The four answer buttons, mapped onto SM-2 quality (0-5)
+export const GRADES = [
+  { grade: 1, label: 'Again' },
+  { grade: 3, label: 'Hard' },
+  { grade: 4, label: 'Good' },
+  { grade: 5, label: 'Easy' }
+] as const;
+
+export interface CardSource {
+  id: string;
+  sourceId: string;
+  lesson: Lesson;
+  type: ReviewCardType;
+  sentence?: Sentence;
+  entry?: GlossaryEntry;
+}
+
+const source = (studentId: string, lesson: Lesson, sourceId: string, type: ReviewCardType, sentence?: Sentence, entry?: GlossaryEntry): CardSource => ({
+  id: `${studentId}|${lesson.id}|${sourceId}|${type}`,
+  sourceId, lesson, type, sentence, entry
+});
+
+// Every card the lessons can produce. Sentences need audio to be listened to and English to be prompted from.
+export const buildCardSources = (lessons: Lesson[], studentId: string): CardSource[] => {
+  const sources: CardSource[] = [];
+  for (const lesson of lessons) {
+    for (const sentence of lesson.sentences) {
+      if (sentence.audioBase64) sources.push(source(studentId, lesson, sentence.id, 'audio-meaning', sentence));
+      if (sentence.english.trim()) sources.push(source(studentId, lesson, sentence.id, 'english-say', sentence));
+    }
+    for (const entry of lessonGlossary(lesson)) {
+      if (!entry.headword.trim()) continue;
+      // Keyed by headword: lessons without a saved glossary extract a fresh one, with new ids, every time
+      const wordId = `word:${entry.headword}`;
+      // Examples give the word a voice to check against
+      const example = lesson.sentences.find(s => s.id === entry.exampleSentenceId);
+      sources.push(source(studentId, lesson, wordId, 'chars-reading', example, entry));
+      if (entry.english.trim()) sources.push(source(studentId, lesson, wordId, 'english-say', example, entry));
+    }
+  }
+  return sources;
+};
+
+export const newCard = (source: CardSource, studentId: string, now: number): ReviewCard => ({
+  id: source.id,
+  studentId,
+  lessonId: source.lesson.id,
+  sourceId: source.sourceId,
+  type: source.type,
+  ease: INITIAL_EASE,
+  interval: 0,
+  repetitions: 0,
+  dueAt: now
+});
+
+// Standard SM-2: a lapse (grade < 3) starts the card over and leaves its ease alone,
+// otherwise ease is adjusted and the interval goes 1 day, 6 days, then interval × ease
+export const schedule = (card: ReviewCard, grade: number, now: number): ReviewCard => {
+  let ease = card.ease;
+  let repetitions: number;
+  let interval: number;
+  if (grade < 3) {
+    repetitions = 0;
+    interval = 1;
+  } else {
+    ease = Math.max(MIN_EASE, card.ease + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02)));
+    repetitions = card.repetitions + 1;
+    interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(card.interval * ease);
+  }
+  return { ...card, ease, interval, repetitions, dueAt: now + interval * DAY_MS, lastReviewedAt: now };
+};
+
+export interface ReviewQueue {
+  due: { card: ReviewCard; source: CardSource }[];
+  newCount: number; // How many of `due` have never been reviewed
+  totalCards: number;
+}
+
+// Cards whose lesson or sentence has since been removed are skipped, but their history is kept
+export const buildQueue = (sources: CardSource[], stored: ReviewCard[], studentId: string, now: number): ReviewQueue => {
+  const byId = new Map(stored.map(c => [c.id, c]));
+  const review: ReviewQueue['due'] = [];
+  const fresh: ReviewQueue['due'] = [];
+  for (const s of sources) {
+    const card = byId.get(s.id);
+    if (!card) fresh.push({ card: newCard(s, studentId, now), source: s });
+    else if (card.dueAt <= now) review.push({ card, source: s });
+  }
+  review.sort((a, b) => a.card.dueAt - b.card.dueAt);
+  const newCards = fresh.slice(0, NEW_CARDS_PER_SESSION);
+  return { due: [...review, ...newCards], newCount: newCards.length, totalCards: sources.length };
+};
+
+export const describeInterval = (days: number) => (days <= 1 ? '1 day' : days < 30 ? `${days} days` : `${Math.round(days / 30)} mo`);
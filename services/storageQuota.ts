@@ -0,0 +1,35 @@
+// How much of the browser's storage the library uses, and whether it is protected from eviction.
+// Without persistence the browser may clear IndexedDB under disk pressure, and with it every
+// lesson and recording that hasn't been exported.
+
+export interface StorageStatus {
+  usage: number; // bytes
+  quota: number; // bytes
+  persisted: boolean;
+}
+
+const PERSIST_ASKED_KEY = 'yuetyu_persist_requested_v1';
+
+export const getStorageStatus = async (): Promise<StorageStatus | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const [{ usage = 0, quota = 0 }, persisted] = await Promise.all([
+    navigator.storage.estimate(),
+    navigator.storage.persisted ? navigator.storage.persisted() : Promise.resolve(false)
+  ]);
+  return { usage, quota, persisted };
+};
+
+// Some browsers ask the user, so this is only done unprompted once; after that it waits for a click
+export const hasRequestedPersistence = () => !!localStorage.getItem(PERSIST_ASKED_KEY);
+
+export const requestPersistence = async (): Promise<boolean> => {
+  if (!navigator.storage?.persist) return false;
+  localStorage.setItem(PERSIST_ASKED_KEY, '1');
+  return navigator.storage.persist();
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+};
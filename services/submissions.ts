@@ -0,0 +1,40 @@
+import { Lesson, SentenceFeedback, Student, StudentTake, SubmissionPackage } from '../types';
+
+// Recording submissions: the student sends their chosen take for each sentence, the teacher
+// listens and comments, and the comments ride back in the student's next data file.
+
+export const feedbackId = (studentId: string, lessonId: string, sentenceId: string) => `${studentId}|${lessonId}|${sentenceId}`;
+
+// The take the student marked as best, or else their newest, for each sentence that has any
+export const chosenTakes = (takes: StudentTake[]): Map<string, StudentTake> => {
+  const chosen = new Map<string, StudentTake>();
+  for (const take of [...takes].sort((a, b) => a.createdAt - b.createdAt)) {
+    const current = chosen.get(take.sentenceId);
+    if (!current?.isBest || take.isBest) chosen.set(take.sentenceId, take);
+  }
+  return chosen;
+};
+
+export const buildSubmission = (student: Student, lesson: Lesson, takes: StudentTake[]): SubmissionPackage => {
+  const chosen = chosenTakes(takes);
+  return {
+    format: 'yuetyu-submission',
+    version: 1,
+    id: `${student.id}|${lesson.id}`,
+    studentId: student.id,
+    studentName: student.name,
+    lessonId: lesson.id,
+    lessonTitle: lesson.title,
+    generatedAt: Date.now(),
+    // In lesson order, so the teacher hears them as the lesson runs
+    takes: lesson.sentences.flatMap(s => {
+      const take = chosen.get(s.id);
+      return take ? [{ sentenceId: s.id, audioBase64: take.audioBase64, recordedAt: take.createdAt }] : [];
+    })
+  };
+};
+
+export const isSubmissionPackage = (data: any): data is SubmissionPackage =>
+  !!data && data.format === 'yuetyu-submission' && typeof data.studentId === 'string' && typeof data.lessonId === 'string' && Array.isArray(data.takes);
+
+export const hasFeedbackContent = (feedback: Pick<SentenceFeedback, 'text' | 'audioBase64'>) => !!(feedback.text.trim() || feedback.audioBase64);
@@ -0,0 +1,21 @@
+import { Word } from '../types';
+
+// Helpers for the per-character timings teachers tap in with the alignment tool.
+
+// Only Chinese characters are spoken syllables; punctuation never gets a timing
+export const isSyllable = (word: Word) => /[\u4e00-\u9fa5]/.test(word.char);
+
+export const hasTimings = (words: Word[]): boolean => {
+  const syllables = words.filter(isSyllable);
+  return syllables.length > 0 && syllables.every(w => w.startMs !== undefined && w.endMs !== undefined);
+};
+
+// Index into `words` of the syllable being spoken at `ms`, or -1 between syllables
+export const wordIndexAt = (words: Word[], ms: number): number => {
+  return words.findIndex(w => w.startMs !== undefined && w.endMs !== undefined && ms >= w.startMs && ms < w.endMs);
+};
+
+// Timings belong to one specific recording, so they are dropped whenever the audio changes
+export const clearTimings = (words: Word[]): Word[] => {
+  return words.map(({ startMs, endMs, ...rest }) => rest);
+};
@@ -0,0 +1,97 @@
+import { TeacherCredential } from '../types';
+import { dbService } from './db';
+
+// Teacher access is guarded by a passphrase chosen on first run. Only a salted PBKDF2 hash is
+// stored, in this browser's IndexedDB. This keeps a student at a shared classroom computer out
+// of the dashboard; it is not protection against someone who can open the browser's dev tools.
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+export const IDLE_TIMEOUT_MS = 15 * 60 * 1000;
+
+const ITERATIONS = 310000;
+const MAX_ATTEMPTS = 5;
+const LOCKOUT_MS = 5 * 60 * 1000;
+
+export interface LoginResult {
+  ok: boolean;
+  attemptsLeft: number;
+  lockedUntil: number; // 0 unless this attempt was refused because of a lockout
+}
+
+const toHex = (bytes: Uint8Array) => [...bytes].map(b => b.toString(16).padStart(2, '0')).join('');
+
+const fromHex = (hex: string) => new Uint8Array((hex.match(/../g) || []).map(h => parseInt(h, 16)));
+
+const deriveHash = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<string> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, material, 256);
+  return toHex(new Uint8Array(bits));
+};
+
+// Compares every character so the time taken doesn't reveal how much of the hash matched
+const sameHash = (a: string, b: string) => {
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) diff |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+  return diff === 0;
+};
+
+const createCredential = async (passphrase: string): Promise<TeacherCredential> => {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) throw new Error("PASSPHRASE_TOO_SHORT");
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  return {
+    id: 'teacher',
+    salt: toHex(salt),
+    hash: await deriveHash(passphrase, salt, ITERATIONS),
+    iterations: ITERATIONS,
+    failedAttempts: 0,
+    lockedUntil: 0,
+    updatedAt: Date.now()
+  };
+};
+
+export const hasTeacherPassphrase = async (): Promise<boolean> => !!(await dbService.getTeacherCredential());
+
+// First-run only: an existing passphrase can only be replaced through changeTeacherPassphrase
+export const setupTeacherPassphrase = async (passphrase: string): Promise<void> => {
+  if (await dbService.getTeacherCredential()) throw new Error("PASSPHRASE_EXISTS");
+  await dbService.saveTeacherCredential(await createCredential(passphrase));
+};
+
+// Failures are counted in IndexedDB, so reloading the page doesn't reset the lockout
+export const verifyTeacherPassphrase = async (passphrase: string): Promise<LoginResult> => {
+  const credential = await dbService.getTeacherCredential();
+  if (!credential) throw new Error("NO_PASSPHRASE");
+
+  const now = Date.now();
+  if (credential.lockedUntil > now) return { ok: false, attemptsLeft: 0, lockedUntil: credential.lockedUntil };
+
+  const hash = await deriveHash(passphrase, fromHex(credential.salt), credential.iterations);
+  if (sameHash(hash, credential.hash)) {
+    if (credential.failedAttempts || credential.lockedUntil) {
+      await dbService.saveTeacherCredential({ ...credential, failedAttempts: 0, lockedUntil: 0 });
+    }
+    return { ok: true, attemptsLeft: MAX_ATTEMPTS, lockedUntil: 0 };
+  }
+
+  const failedAttempts = credential.failedAttempts + 1;
+  const locked = failedAttempts >= MAX_ATTEMPTS;
+  const next = { ...credential, failedAttempts: locked ? 0 : failedAttempts, lockedUntil: locked ? now + LOCKOUT_MS : 0 };
+  await dbService.saveTeacherCredential(next);
+  return { ok: false, attemptsLeft: locked ? 0 : MAX_ATTEMPTS - failedAttempts, lockedUntil: next.lockedUntil };
+};
+
+// The current passphrase is checked like a login, so wrong guesses here count towards the lockout too
+export const changeTeacherPassphrase = async (current: string, next: string): Promise<LoginResult> => {
+  if (next.length < MIN_PASSPHRASE_LENGTH) throw new Error("PASSPHRASE_TOO_SHORT");
+  const result = await verifyTeacherPassphrase(current);
+  if (result.ok) await dbService.saveTeacherCredential(await createCredential(next));
+  return result;
+};
+
+export const describeLoginFailure = (result: LoginResult): string => {
+  if (result.lockedUntil) {
+    const minutes = Math.max(1, Math.ceil((result.lockedUntil - Date.now()) / 60000));
+    return `Too many attempts. Try again in ${minutes} minute${minutes !== 1 ? 's' : ''}.`;
+  }
+  return `Incorrect passphrase. ${result.attemptsLeft} attempt${result.attemptsLeft !== 1 ? 's' : ''} left.`;
+};
@@ -0,0 +1,79 @@
+import { Word } from '../types';
+import { getPitchTrack, segmentSyllables, toChaoScale } from './pitch';
+
+// Local, rule-based Cantonese tone checker: no speech service involved.
+
+export interface SyllableToneScore {
+  wordIndex: number; // Index into Sentence.words
+  expected: number; // 1-6 from selectedJyutping
+  detected: number | null; // null when the syllable had no usable pitch
+  correct: boolean;
+}
+
+export interface ToneScoreResult {
+  syllables: SyllableToneScore[];
+  score: number; // 0-100, share of syllables with the expected tone
+}
+
+// Start/end pitch on the 1-5 Chao scale for each Cantonese tone
+const TONE_TEMPLATES: { tone: number; start: number; end: number }[] = [
+  { tone: 1, start: 5, end: 5 },
+  { tone: 2, start: 2.5, end: 5 },
+  { tone: 3, start: 3, end: 3 },
+  { tone: 4, start: 2, end: 1 },
+  { tone: 5, start: 2, end: 3.5 },
+  { tone: 6, start: 2, end: 2 }
+];
+
+export const getExpectedTone = (jyutping: string): number | null => {
+  const match = jyutping.trim().match(/([1-6])$/);
+  return match ? Number(match[1]) : null;
+};
+
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+// Classifies one syllable from its pitch levels; the edges are trimmed because
+// consonant onsets and the hand-off to the next syllable distort the contour
+export const classifyTone = (levels: number[]): number | null => {
+  if (levels.length < 3) return null;
+  const trim = Math.floor(levels.length * 0.15);
+  const core = levels.slice(trim, levels.length - trim);
+  const third = Math.max(1, Math.floor(core.length / 3));
+  const start = mean(core.slice(0, third));
+  const end = mean(core.slice(-third));
+
+  let best = TONE_TEMPLATES[0];
+  let bestDist = Infinity;
+  for (const t of TONE_TEMPLATES) {
+    // Direction of movement matters more than absolute height for telling 2/5 and 4/6 apart
+    const dist = (t.start - start) ** 2 + (t.end - end) ** 2 + 2 * ((t.end - t.start) - (end - start)) ** 2;
+    if (dist < bestDist) {
+      best = t;
+      bestDist = dist;
+    }
+  }
+  return best.tone;
+};
+
+export const scoreTones = async (words: Word[], audioSrc: string): Promise<ToneScoreResult> => {
+  const targets = words
+    .map((w, wordIndex) => ({ wordIndex, expected: getExpectedTone(w.selectedJyutping || '') }))
+    .filter((t): t is { wordIndex: number; expected: number } => t.expected !== null);
+  if (targets.length === 0) return { syllables: [], score: 0 };
+
+  const track = await getPitchTrack(audioSrc);
+  const levels = toChaoScale(track);
+  const spans = segmentSyllables(track, targets.length);
+
+  const syllables = targets.map((target, i) => {
+    const span = spans[i];
+    const voiced = span
+      ? levels.slice(Math.floor(span.start / track.hop), Math.ceil(span.end / track.hop)).filter((v): v is number => v !== null)
+      : [];
+    const detected = classifyTone(voiced);
+    return { ...target, detected, correct: detected === target.expected };
+  });
+
+  const correctCount = syllables.filter(s => s.correct).length;
+  return { syllables, score: Math.round((correctCount / syllables.length) * 100) };
+};
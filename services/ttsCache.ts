@@ -0,0 +1,23 @@
+import { generateCantoneseSpeech } from './aiService';
+import { getSpeechCacheScope } from './aiProvider';
+import { dbService } from './db';
+
+// Speech synthesis with a persistent cache in front of the API, to save quota.
+
+// Keyed by provider/voice too, so switching backends doesn't replay the old voice
+const cacheKey = (text: string) => `${getSpeechCacheScope()}|${text.trim()}`;
+
+export const synthesizeSpeechCached = async (text: string): Promise<string> => {
+  const key = cacheKey(text);
+  const cached = await dbService.getCachedSpeech(key).catch(() => undefined);
+  if (cached) return cached.audioBase64;
+
+  const audioBase64 = await generateCantoneseSpeech(text.trim());
+  try {
+    await dbService.saveCachedSpeech({ key, audioBase64, createdAt: Date.now() });
+  } catch (e) {
+    // A full cache shouldn't block the teacher from getting the audio
+    console.error("Failed to cache speech", e);
+  }
+  return audioBase64;
+};
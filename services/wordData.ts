@@ -0,0 +1,503 @@
+// Bundled word list for offline segmentation and glosses: one word per line, "word pos gloss".
+// Traditional characters only; simplified input is normalised before lookup.
+// Part-of-speech codes are listed in segmentation.ts (POS_LABELS).
+
+export const WORD_GLOSS_DATA = `
+我 pron I; me
+你 pron you
+佢 pron he; she; it
+我哋 pron we; us
+你哋 pron you (plural)
+佢哋 pron they; them
+自己 pron oneself
+大家 pron everyone
+呢個 pron this one
+嗰個 pron that one
+呢度 pron here
+嗰度 pron there
+呢啲 pron these
+嗰啲 pron those
+邊個 pron who; which one
+邊度 pron where
+乜嘢 pron what
+咩 pron what
+點樣 adv how
+點解 adv why
+幾多 pron how many; how much
+幾多錢 phr how much (money)
+幾時 adv when
+什麼 pron what
+那麼 conj in that case; then
+係 v to be
+唔係 v not to be; isn't
+有 v to have; there is
+冇 v not have; there isn't
+唔 adv not
+好 adv very; quite
+唔該 phr please; thank you (for a service)
+多謝 phr thank you (for a gift)
+對唔住 phr sorry
+唔好意思 phr excuse me; sorry
+早晨 phr good morning
+你好 phr hello
+再見 phr goodbye
+拜拜 phr bye-bye
+歡迎 v to welcome
+請問 phr excuse me, may I ask
+請 v to please; to invite
+請客 v to treat (someone to a meal)
+請教 v to ask for advice
+問 v to ask
+答 v to answer
+講 v to speak; to say
+講話 v to speak
+說話 n words; speech
+話 v to say
+聽 v to listen; to hear
+聽到 v to hear
+聽話 adj obedient
+聽講 v to hear that; rumour has it
+聽日 time tomorrow
+聽朝 time tomorrow morning
+睇 v to look; to watch; to read
+睇病 v to see a doctor
+看書 v to read a book
+食 v to eat
+食飯 v to eat a meal
+食物 n food
+食魚 v to eat fish
+飲 v to drink
+飲茶 v to have dim sum; to drink tea
+飲水 v to drink water
+飲料 n drink; beverage
+行 v to walk
+行路 v to walk
+行街 v to go shopping; to stroll
+行山 v to go hiking
+去 v to go
+嚟 v to come
+返 v to return; to go back
+返屋企 v to go home
+返工 v to go to work
+放工 v to finish work
+返學 v to go to school
+放學 v to finish school
+瞓覺 v to sleep
+睡覺 v to sleep
+午覺 n afternoon nap
+起身 v to get up
+坐 v to sit
+坐低 v to sit down
+坐車 v to ride in a vehicle
+企 v to stand
+上車 v to get on (a vehicle)
+落車 v to get off (a vehicle)
+上堂 v to attend class
+上網 v to go online
+落雨 v to rain
+下雨 v to rain
+落後 adj backward; lagging behind
+落力 adj hard-working; putting in effort
+買 v to buy
+賣 v to sell
+買嘢 v to go shopping
+俾 v to give; to let
+攞 v to take; to fetch
+做 v to do; to make
+做嘢 v to work
+鍾意 v to like
+愛 v to love
+想 v to want; to think
+要 v to want; to need
+需要 v to need
+識 v to know (how to)
+知道 v to know
+認識 v to know (someone); to recognise
+覺得 v to feel; to think
+感覺 n feeling
+相信 v to believe
+明白 v to understand
+記得 v to remember
+唔記得 v to forget
+等 v to wait
+等待 v to wait
+幫 v to help
+幫手 v to help out
+搵 v to look for; to find
+用 v to use
+使用 v to use
+開 v to open
+閂 v to close
+開會 v to have a meeting
+會議 n meeting; conference
+學 v to learn
+學習 v to study
+教 v to teach
+教書 v to teach (as a job)
+讀書 v to study; to go to school
+背書 v to recite from memory
+寫 v to write
+寫字 v to write
+玩 v to play
+好玩 adj fun
+打 v to hit; to play (a sport)
+打電話 v to make a phone call
+影相 v to take a photo
+照相 v to take a photo
+唱歌 v to sing
+跳舞 v to dance
+游水 v to swim
+踢波 v to play football
+彈琴 v to play the piano
+畫畫 v to draw; to paint
+着衫 v to get dressed
+參加 v to take part in
+參與 v to participate
+完成 v to finish; to complete
+成為 v to become
+進行 v to carry out
+舉行 v to hold (an event)
+發生 v to happen
+恢復 v to recover; to restore
+處理 v to handle; to deal with
+提供 v to provide
+創造 v to create
+合作 v to cooperate
+商量 v to discuss; to talk over
+排隊 v to queue
+判斷 v to judge
+計劃 n plan
+調查 v to investigate
+調整 v to adjust
+爭取 v to strive for
+答應 v to agree; to promise
+擔心 v to worry
+負擔 n burden
+轉身 v to turn around
+放假 v to have a holiday
+度假 v to go on holiday
+出差 v to go on a business trip
+出生 v to be born
+成長 v to grow up
+長大 v to grow up
+壓力 n pressure; stress
+可以 v can; may
+會 v will; can
+唔會 v won't
+會唔會 phr will or won't
+應該 v should
+一定 adv definitely
+可能 adv maybe; possibly
+都 adv also; all
+亦 adv also
+仲 adv still; even more
+已經 adv already
+曾經 adv once; ever
+啱啱 adv just now
+成日 adv always; all day
+間中 adv sometimes
+通常 adv usually
+更加 adv even more
+盡量 adv as much as possible
+盡力 v to do one's best
+當然 adv of course
+一齊 adv together
+互相 adv each other
+隨便 adv as you like; casually
+淨係 adv only
+幾乎 adv almost
+差不多 adv almost; about the same
+差唔多 adv almost; about the same
+定係 conj or (in questions)
+同 conj and; with
+同埋 conj and
+但係 conj but
+不過 conj however
+因為 conj because
+所以 conj so; therefore
+如果 conj if
+假如 conj if; suppose
+若果 conj if
+雖然 conj although
+為咗 prep in order to; for
+喺 prep at; in; to be at
+由 prep from
+到 prep to; until
+大 adj big
+細 adj small
+多 adj many; much
+少 adj few; little
+新 adj new
+舊 adj old (things)
+靚 adj pretty; good-looking
+醜 adj ugly
+高 adj tall; high
+矮 adj short (height)
+長 adj long
+短 adj short
+快 adj fast
+慢 adj slow
+熱 adj hot
+凍 adj cold
+貴 adj expensive
+平 adj cheap
+便宜 adj cheap
+平價 adj inexpensive
+方便 adj convenient
+容易 adj easy
+簡單 adj simple
+困難 n difficulty
+難過 adj sad
+開心 adj happy
+快樂 adj happy
+高興 adj glad
+辛苦 adj tiring; hard
+攰 adj tired
+肚餓 adj hungry
+頸渴 adj thirsty
+乾淨 adj clean
+奇怪 adj strange
+重要 adj important
+要緊 adj important; urgent
+嚴重 adj serious
+正確 adj correct
+有名 adj famous
+著名 adj famous
+有錢 adj rich
+強大 adj powerful
+仔細 adj careful; meticulous
+流行 adj popular; fashionable
+大聲 adj loud
+細聲 adj quiet
+有空 adj free; not busy
+平安 adj safe and sound
+人 n person; people
+男人 n man
+女人 n woman
+女仔 n girl
+男仔 n boy
+細路仔 n child
+仔女 n children (sons and daughters)
+個女 n daughter
+個仔 n son
+爸爸 n dad
+媽媽 n mum
+阿爸 n dad
+阿媽 n mum
+阿姨 n aunt (mother's sister); auntie
+哥哥 n older brother
+家姐 n older sister
+細佬 n younger brother
+妹妹 n younger sister
+丈夫 n husband
+老公 n husband
+老婆 n wife
+父親 n father
+親人 n relative
+家長 n parent
+朋友 n friend
+同學 n classmate
+老師 n teacher
+教師 n teacher
+學生 n student
+先生 n Mr; sir; teacher
+醫生 n doctor
+病人 n patient
+校長 n headteacher
+班長 n class monitor
+華人 n ethnic Chinese person
+名人 n celebrity
+明星 n star (celebrity)
+青年 n young person
+屋企 n home; family
+家 n home; family
+學校 n school
+醫院 n hospital
+銀行 n bank
+餐廳 n restaurant
+酒樓 n Chinese restaurant
+茶樓 n dim sum restaurant
+酒吧 n bar
+超市 n supermarket
+公司 n company
+房間 n room
+書房 n study (room)
+廚房 n kitchen
+廁所 n toilet
+大樓 n building
+樓梯 n stairs
+電影院 n cinema
+地方 n place
+附近 n nearby
+中間 n middle
+上面 n above; on top
+下面 n below; underneath
+香港 n Hong Kong
+廣州 n Guangzhou
+中國 n China
+廣東省 n Guangdong Province
+巴士 n bus
+的士 n taxi
+地鐵 n underground; metro
+單車 n bicycle
+自行車 n bicycle
+車 n car; vehicle
+飛機 n aeroplane
+電話 n telephone
+號碼 n number
+電視 n television
+電腦 n computer
+手機 n mobile phone
+書 n book
+書架 n bookshelf
+字 n character; word
+名字 n name
+名片 n business card
+卡片 n card
+相片 n photo
+照片 n photo
+影片 n video
+新聞 n news
+資料 n information; data
+材料 n material
+錢 n money
+金錢 n money
+時間 n time
+今日 time today
+尋日 time yesterday
+琴日 time yesterday
+而家 time now
+依家 time now
+今朝 time this morning
+朝早 time morning
+下午 time afternoon
+夜晚 time evening; night
+宵夜 n late-night snack
+星期 n week
+星期日 time Sunday
+生日 n birthday
+假期 n holiday
+正月 n first month of the lunar year
+將來 n future
+分鐘 n minute
+時候 n time; moment
+飯 n rice; meal
+茶 n tea
+水 n water
+咖啡 n coffee
+牛奶 n milk
+雞蛋 n egg
+魚蛋 n fish ball
+蛋糕 n cake
+青菜 n green vegetables
+糖果 n sweets
+砂糖 n sugar
+燒鵝 n roast goose
+燒鴨 n roast duck
+點心 n dim sum
+多士 n toast
+衫 n clothes
+褲 n trousers
+鞋 n shoes
+帽子 n hat
+手袋 n handbag
+被子 n quilt; duvet
+鎖匙 n key
+茶匙 n teaspoon
+玩具 n toy
+天氣 n weather
+溫度 n temperature
+空氣 n air
+空調 n air conditioning
+聲音 n sound; voice
+聲調 n tone (of a syllable)
+音樂 n music
+樂器 n musical instrument
+電影 n film
+興趣 n interest; hobby
+愛好 n hobby
+籃球 n basketball
+足球 n football
+麻雀 n mahjong; sparrow
+孔雀 n peacock
+金魚 n goldfish
+狗 n dog
+貓 n cat
+雞 n chicken
+魚 n fish
+旅行 v to travel
+行李 n luggage
+機會 n opportunity
+社會 n society
+問題 n question; problem
+意思 n meaning
+答案 n answer
+中文 n Chinese (language)
+廣東話 n Cantonese
+普通話 n Mandarin
+英文 n English
+數學 n mathematics
+數字 n number; digit
+人數 n number of people
+數量 n quantity
+生活 n life; daily life
+命運 n fate
+精神 n spirit; energy
+毛病 n fault; illness
+身份 n identity
+位置 n position; location
+座位 n seat
+部分 n part; section
+種類 n type; kind
+好處 n benefit
+企業 n enterprise
+機構 n organisation
+結構 n structure
+傳統 n tradition
+效率 n efficiency
+知識 n knowledge
+教育 n education
+角色 n role; character
+國王 n king
+一 num one
+二 num two
+兩 num two (before a measure word)
+三 num three
+四 num four
+五 num five
+六 num six
+七 num seven
+八 num eight
+九 num nine
+十 num ten
+百 num hundred
+千 num thousand
+萬 num ten thousand
+一切 pron everything
+個 mw general measure word
+隻 mw measure word for animals, hands, etc.
+本 mw measure word for books
+張 mw measure word for flat things
+架 mw measure word for vehicles and machines
+件 mw measure word for clothes and matters
+杯 mw cup of
+碗 mw bowl of
+啲 mw some; a little
+一種 phr a kind of
+嘅 part possessive particle ('s)
+咗 part completed-action particle
+緊 part ongoing-action particle
+過 part experiential particle
+啦 part sentence-final particle (urging or settling)
+呀 part sentence-final particle
+嗎 part question particle
+喇 part sentence-final particle (change of state)
+囉 part sentence-final particle (obviousness)
+㗎 part sentence-final particle (assertion)
+咁 adv so; like this
+咁樣 adv like this
+咁多 adj so many
+多少 pron how many; some
+少數 n minority
+乾杯 int cheers
+`;
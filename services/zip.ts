@@ -0,0 +1,126 @@
+// Just enough of the zip format for data bundles. Entries are written uncompressed, since the
+// audio is already compressed and the manifest is compressed before it goes in. Reading also
+// accepts deflated entries, so a bundle re-zipped by another tool still opens.
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_DIRECTORY = 0x06054b50;
+const UTF8_NAMES = 0x0800;
+
+export const isZip = (bytes: Uint8Array) =>
+  bytes.length >= 4 && new DataView(bytes.buffer, bytes.byteOffset, 4).getUint32(0, true) === LOCAL_HEADER;
+
+export const createZip = (entries: ZipEntry[], modified = new Date()): Uint8Array => {
+  const time = (modified.getHours() << 11) | (modified.getMinutes() << 5) | (modified.getSeconds() >> 1);
+  const date = ((modified.getFullYear() - 1980) << 9) | ((modified.getMonth() + 1) << 5) | modified.getDate();
+  const files = entries.map(e => ({ ...e, nameBytes: new TextEncoder().encode(e.name), crc: crc32(e.data) }));
+
+  const localSize = files.reduce((sum, f) => sum + 30 + f.nameBytes.length + f.data.length, 0);
+  const centralSize = files.reduce((sum, f) => sum + 46 + f.nameBytes.length, 0);
+  const out = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(out.buffer);
+  let pos = 0;
+
+  // Fields shared by the local and central headers, from "version needed" to the name length
+  const writeCommon = (f: typeof files[number]) => {
+    view.setUint16(pos, 20, true);
+    view.setUint16(pos + 2, UTF8_NAMES, true);
+    view.setUint16(pos + 4, 0, true); // stored
+    view.setUint16(pos + 6, time, true);
+    view.setUint16(pos + 8, date, true);
+    view.setUint32(pos + 10, f.crc, true);
+    view.setUint32(pos + 14, f.data.length, true);
+    view.setUint32(pos + 18, f.data.length, true);
+    view.setUint16(pos + 22, f.nameBytes.length, true);
+    view.setUint16(pos + 24, 0, true); // extra field length
+    pos += 26;
+  };
+
+  const offsets: number[] = [];
+  for (const f of files) {
+    offsets.push(pos);
+    view.setUint32(pos, LOCAL_HEADER, true);
+    pos += 4;
+    writeCommon(f);
+    out.set(f.nameBytes, pos);
+    pos += f.nameBytes.length;
+    out.set(f.data, pos);
+    pos += f.data.length;
+  }
+
+  const centralStart = pos;
+  files.forEach((f, i) => {
+    view.setUint32(pos, CENTRAL_HEADER, true);
+    view.setUint16(pos + 4, 20, true); // version made by
+    pos += 6;
+    writeCommon(f);
+    // Comment length, disk number and attributes stay zero
+    view.setUint32(pos + 10, offsets[i], true);
+    pos += 14;
+    out.set(f.nameBytes, pos);
+    pos += f.nameBytes.length;
+  });
+
+  view.setUint32(pos, END_OF_DIRECTORY, true);
+  view.setUint16(pos + 8, files.length, true);
+  view.setUint16(pos + 10, files.length, true);
+  view.setUint32(pos + 12, pos - centralStart, true);
+  view.setUint32(pos + 16, centralStart, true);
+  return out;
+};
+
+const inflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// Reads through the central directory, which holds the sizes even when the local headers don't
+export const readZip = async (bytes: Uint8Array): Promise<Map<string, Uint8Array>> => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let end = bytes.length - 22;
+  while (end >= 0 && view.getUint32(end, true) !== END_OF_DIRECTORY) end--;
+  if (end < 0) throw new Error("INVALID_ZIP");
+
+  const count = view.getUint16(end + 10, true);
+  let pos = view.getUint32(end + 16, true);
+  const entries = new Map<string, Uint8Array>();
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(pos, true) !== CENTRAL_HEADER) throw new Error("INVALID_ZIP");
+    const method = view.getUint16(pos + 10, true);
+    const compressedSize = view.getUint32(pos + 20, true);
+    const nameLength = view.getUint16(pos + 28, true);
+    const extraLength = view.getUint16(pos + 30, true);
+    const commentLength = view.getUint16(pos + 32, true);
+    const localOffset = view.getUint32(pos + 42, true);
+    const name = new TextDecoder().decode(bytes.subarray(pos + 46, pos + 46 + nameLength));
+    pos += 46 + nameLength + extraLength + commentLength;
+
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const data = bytes.subarray(dataStart, dataStart + compressedSize);
+    if (method === 0) entries.set(name, data);
+    else if (method === 8) entries.set(name, await inflateRaw(data));
+    else throw new Error("UNSUPPORTED_ZIP_METHOD");
+  }
+  return entries;
+};
@@ -3,31 +3,192 @@ export interface Word {
   char: string;
   jyutping: string[]; // Array for polyphones
   selectedJyutping: string;
+  pinyin?: string; // Mandarin reading in numbered form ("hao3"), for Mandarin and bilingual lessons
+  needsReview?: boolean; // Polyphone the dictionary couldn't settle from context, until the teacher confirms it
+  startMs?: number; // Syllable timing within the sentence's audioBase64 (karaoke highlight)
+  endMs?: number;
+}
+
+// A dictionary word spanning one or more entries of Sentence.words (e.g. 銀 + 行)
+export interface WordSegment {
+  start: number; // Index into Sentence.words
+  end: number; // Exclusive
+  gloss: string;
+  pos?: string; // Part-of-speech code, see POS_LABELS
+  note?: string; // Teacher's note, shown in the student's tap-to-define popup
 }
 
 export interface Sentence {
   id: string;
   words: Word[];
+  segments?: WordSegment[]; // Word layer over the characters; punctuation is left out
   english: string;
-  audioBase64?: string; // Teacher's main reading recording
+  audioBase64?: string; // Teacher's main reading recording, inline (published files and unsaved edits)
+  audioId?: string; // The same recording held in the teacher's audio store instead
   ttsReplacementText?: string; // Text used specifically for TTS (homophone substitution)
   explanationText?: string; // Teacher's vocabulary/grammar explanation
-  explanationAudio?: string; // Teacher's explanation recording
+  explanationAudio?: string; // Teacher's explanation recording, inline
+  explanationAudioId?: string; // ...or in the audio store
+}
+
+// 'bilingual' lessons carry both Jyutping and Pinyin on every character
+export type LessonLanguage = 'cantonese' | 'mandarin' | 'bilingual';
+
+// Curated vocabulary for a lesson, auto-extracted from its sentences and then edited by the teacher
+export interface GlossaryEntry {
+  id: string;
+  headword: string;
+  jyutping: string; // Space-separated, one syllable per character
+  pinyin?: string; // Numbered, space-separated; Mandarin and bilingual lessons
+  english: string;
+  exampleSentenceId?: string; // A sentence of the same lesson that uses the word
 }
 
 export interface Lesson {
   id: string;
   title: string;
   createdAt: number;
+  language?: LessonLanguage; // Missing on lessons saved before Mandarin support, which are all Cantonese
   mediaUrl?: string; // Optional image URL or YouTube Embed URL
   mediaType?: 'image' | 'video' | 'youtube';
   sentences: Sentence[];
+  glossary?: GlossaryEntry[];
 }
 
 export interface Student {
   id: string;
   name: string;
   assignedLessonIds: string[];
+  reportKey?: string; // Shared secret the student's progress reports are signed with (hex)
+  dataKey?: string; // AES key (base64url) for data files opened through the student's link; never exported
+}
+
+// A student's own shadowing attempt, kept only in the student's browser
+export interface StudentTake {
+  id: string;
+  studentId: string; // 'local' when the portal is opened without a student link
+  lessonId: string;
+  sentenceId: string;
+  audioBase64: string;
+  createdAt: number;
+  isBest?: boolean; // The take the student picked to submit for this sentence
+}
+
+export type ReviewCardType = 'audio-meaning' | 'chars-reading' | 'english-say';
+
+// Spaced-repetition state for one card, kept in the student's browser like their takes
+export interface ReviewCard {
+  id: string; // studentId|lessonId|sourceId|type
+  studentId: string;
+  lessonId: string;
+  sourceId: string; // Sentence id or glossary entry id
+  type: ReviewCardType;
+  ease: number; // SM-2 easiness factor
+  interval: number; // Days until the next review
+  repetitions: number; // Successful reviews in a row
+  dueAt: number;
+  lastReviewedAt?: number;
+}
+
+// One answer in the review history
+export interface ReviewLogEntry {
+  id: string;
+  studentId: string;
+  cardId: string;
+  grade: number; // SM-2 quality 0-5
+  reviewedAt: number;
+  interval: number; // Interval scheduled by this answer
+}
+
+export interface ExerciseScore {
+  kind: 'exercises' | 'dictation';
+  correct: number;
+  total: number;
+  completedAt: number;
+}
+
+// What a student did with one lesson, counted in their browser
+export interface LessonProgress {
+  id: string; // studentId|lessonId
+  studentId: string;
+  lessonId: string;
+  listens: number; // Plays of the model recordings
+  recordings: number; // Takes saved
+  scores: ExerciseScore[];
+  timeSpentMs: number; // Time with the lesson open and the page visible
+  firstOpenedAt: number;
+  lastActiveAt: number;
+}
+
+export interface ProgressReportLesson extends Omit<LessonProgress, 'id' | 'studentId'> {
+  lessonTitle: string;
+  reviews: number; // Spaced-repetition answers on this lesson's cards
+}
+
+// The file a student sends back to the teacher
+export interface ProgressReport {
+  format: 'yuetyu-progress-report';
+  version: 1;
+  studentId: string;
+  studentName: string;
+  generatedAt: number;
+  lessons: ProgressReportLesson[];
+  signature: string; // HMAC-SHA256 (hex) of the report without this field, keyed by Student.reportKey
+}
+
+export interface SubmittedTake {
+  sentenceId: string;
+  audioBase64: string;
+  recordedAt: number;
+}
+
+// A student's chosen recordings for one lesson, sent to the teacher for review
+export interface SubmissionPackage {
+  format: 'yuetyu-submission';
+  version: 1;
+  id: string; // studentId|lessonId, so a newer submission replaces the older one
+  studentId: string;
+  studentName: string;
+  lessonId: string;
+  lessonTitle: string;
+  generatedAt: number;
+  takes: SubmittedTake[];
+}
+
+// The teacher's comment on one submitted sentence, published back in the student's data file
+export interface SentenceFeedback {
+  id: string; // studentId|lessonId|sentenceId
+  studentId: string;
+  lessonId: string;
+  sentenceId: string;
+  text: string;
+  audioBase64?: string;
+  updatedAt: number;
+}
+
+// The teacher's passphrase, kept only as a salted PBKDF2 hash, with the failed-login state that drives lockout
+export interface TeacherCredential {
+  id: 'teacher';
+  salt: string; // hex
+  hash: string; // hex, PBKDF2-SHA256 of the passphrase
+  iterations: number;
+  failedAttempts: number;
+  lockedUntil: number; // 0 when not locked
+  updatedAt: number;
+}
+
+// A lesson recording in the teacher's audio store, keyed by a hash of the clip as it was recorded
+export interface StoredAudio {
+  id: string;
+  blob: Blob; // May be re-encoded to Opus, so not necessarily the bytes that were hashed
+  createdAt: number; // Indexed, so pruning can find old clips without reading their Blobs
+}
+
+// Synthesised speech keyed by the exact text sent to TTS, so nothing is generated twice
+export interface CachedSpeech {
+  key: string;
+  audioBase64: string;
+  createdAt: number;
 }
 
 export interface StudentPackage {
@@ -39,8 +200,32 @@ export interface StudentPackage {
 // New Interface for the master file
 export interface ClassroomData {
   generatedAt: number;
+  schemaVersion?: number; // Database schema the file was exported from; missing in files from before versioning
+  formatVersion?: number; // DATA_FORMAT_VERSION of the app that exported it; older copies refuse files with a newer one
   students: Student[];
   lessons: Lesson[]; // Contains all lessons referenced by students
+  feedback?: SentenceFeedback[]; // Teacher comments on submitted recordings
+}
+
+// The manifest inside an exported data bundle (a zip). Every audio data URL in `data` is replaced by
+// a 'bundle-media:' reference to a file in the zip's media/ folder, stored once however often it is used.
+export interface BundleManifest {
+  format: 'yuetyu-bundle';
+  version: number;
+  media: Record<string, string>; // zip path -> MIME type
+  data: ClassroomData;
+}
+
+// An exported ClassroomData file encrypted with AES-GCM. 'passphrase' files derive the key with
+// PBKDF2 from a passphrase the student types; 'link' files use a random key carried in the URL fragment.
+export interface EncryptedDataFile {
+  format: 'yuetyu-encrypted';
+  version: 1;
+  keySource: 'passphrase' | 'link';
+  salt?: string; // base64, passphrase files only
+  iterations?: number; // passphrase files only
+  iv: string; // base64
+  data: string; // base64 ciphertext of a data bundle (files from before bundles: the ClassroomData JSON)
 }
 
 export enum AppMode {